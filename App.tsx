@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
 import { StatusBar } from 'expo-status-bar'
 import { SafeAreaProvider } from 'react-native-safe-area-context'
 import * as SplashScreenNative from 'expo-splash-screen'
@@ -20,41 +20,57 @@ import {
   GroceryScannerScreen,
   PaywallScreen,
   HistoryScreen,
+  FoodSearchScreen,
+  WeightLogScreen,
   type HistoryItem
 } from './src/screens'
 import { Loader } from './src/components/atoms'
 import { TabBar, ErrorBoundary } from './src/components/layout'
 import { supabase } from './src/services/supabase'
-import { analyzePhoto, AnalysisResult } from './src/services/aiService'
+import {
+  analyzePhoto,
+  applyMealCorrections,
+  classifyAnalysis,
+  classifyAnalysisError,
+  getFailureCategory,
+  personalizeMealAnalysis,
+  AnalysisOutcome,
+  MealCorrection,
+} from './src/services/aiService'
 import { ProductData } from './src/services/barcodeService'
+import { ProductCacheService } from './src/services/productCacheService'
+import { calculateProductScore, MealScoringContext } from './src/services/ketoScoring'
+import type { KetoExperience } from './src/types'
+import { ScanPersistenceService, SavedScan } from './src/services/scanPersistenceService'
 import { QuotaService } from './src/services/quotaService'
+import { ScanQueueService } from './src/services/scanQueueService'
 import { preprocessLabelImage } from './src/utils/imageUtils'
 import { ProfileService, UserProfile } from './src/services/profileService'
+import { IntakeLedgerService, DailyIntake } from './src/services/intakeLedgerService'
 import { AnalyticsService, EVENTS } from './src/services/analyticsService'
 import { NotificationService } from './src/services/notificationService'
-import { View, StyleSheet } from 'react-native'
+import { IngredientDictionaryService } from './src/services/ingredientDictionaryService'
+import { flushCorrections, logBatchCorrections } from './src/services/logService'
+import { View, StyleSheet, Alert, AppState } from 'react-native'
 import { AnimatePresence, MotiView } from 'moti'
 import { Colors } from './src/constants/theme'
 
 // Keep the splash screen visible while we fetch resources
 SplashScreenNative.preventAutoHideAsync()
 
-// Mock data for fallback
-const MOCK_RESULT = {
-  score: 82,
-  verdict: 'safe' as const,
-  macros: {
-    net_carbs: 8,
-    fat: 45,
-    protein: 32,
-    calories: 520,
-  },
-  swapSuggestion: 'Great choice! This meal fits well within your keto goals.',
-  foods: ['Mock Food'],
-  plateConfidence: 1.0,
+const EMPTY_MACROS = { net_carbs: 0, fat: 0, protein: 0, calories: 0 }
+
+// Quiz answers to the keto experience question
+const QUIZ_EXPERIENCE: Record<string, KetoExperience> = {
+  Beginner: 'beginner',
+  Intermediate: 'intermediate',
+  Pro: 'pro',
 }
 
-type ScreenName = 'splash' | 'quiz' | 'auth' | 'home' | 'camera' | 'grocery-scanner' | 'result' | 'profile' | 'paywall' | 'history'
+// How often to retry queued offline scans while the app is open
+const SCAN_QUEUE_REPLAY_INTERVAL_MS = 60 * 1000
+
+type ScreenName = 'splash' | 'quiz' | 'auth' | 'home' | 'camera' | 'grocery-scanner' | 'result' | 'profile' | 'paywall' | 'history' | 'food-search' | 'weight-log'
 
 export default function App() {
   const [currentScreen, setCurrentScreen] = useState<ScreenName>('splash')
@@ -63,11 +79,18 @@ export default function App() {
   const [authInitialized, setAuthInitialized] = useState(false)
   const [hasCompletedQuiz, setHasCompletedQuiz] = useState(false)
   const [scanCount, setScanCount] = useState(0)
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null)
+  const [analysisOutcome, setAnalysisOutcome] = useState<AnalysisOutcome | null>(null)
+  const [lastCapture, setLastCapture] = useState<{ uri: string; base64?: string } | null>(null)
   const [productResult, setProductResult] = useState<ProductData | null>(null)
+  const [savedScan, setSavedScan] = useState<SavedScan | null>(null)
+  const [dailyIntake, setDailyIntake] = useState<DailyIntake | null>(null)
   const [scanType, setScanType] = useState<'meal' | 'product'>('meal')
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [quotaStatus, setQuotaStatus] = useState({ canScan: true, remaining: 5, total: 5, isPro: false })
+  const productSaveRef = useRef<{ barcode: string; save: Promise<SavedScan | null> } | null>(null)
+  // The meal on the result screen: its save in flight and the context it is scored in
+  const mealSaveRef = useRef<Promise<SavedScan | null> | null>(null)
+  const mealContextRef = useRef<Promise<MealScoringContext | null> | null>(null)
 
   // Refresh quota
   const refreshQuota = useCallback(async () => {
@@ -149,9 +172,10 @@ export default function App() {
     return () => subscription.unsubscribe()
   }, [])
 
-  // Initialize Analytics and Notifications
+  // Initialize Analytics, Notifications and the ingredient dictionary
   useEffect(() => {
     AnalyticsService.init()
+    IngredientDictionaryService.init().catch(err => console.error('[App] Ingredient dictionary init failed:', err))
 
     // Setup Notifications
     NotificationService.registerForPushNotificationsAsync()
@@ -215,6 +239,7 @@ export default function App() {
       height_unit: data[4].unit,
       activity_level: data[5].toLowerCase().replace(' ', '_') as any,
       goal: data[6].toLowerCase().replace(' ', '_') as any,
+      experience: QUIZ_EXPERIENCE[data[7]],
     }
     const targets = ProfileService.calculateTargets(profileData)
 
@@ -261,42 +286,208 @@ export default function App() {
     }
   }, [session])
 
-  // AI-powered meal capture handler
-  const handleMealCapture = useCallback(async (uri: string, _base64?: string) => {
-    await QuotaService.incrementScanCount(session?.user?.id)
-    await refreshQuota()
-    setScanCount(prev => prev + 1)
-    setScanType('meal')
+  // Today's intake and the user's scoring preferences. Read before a new scan is
+  // recorded, so the scan isn't counted against itself.
+  const loadScoringContext = useCallback(async (date?: Date) => {
+    const targets = await ProfileService.getScoringTargets(session?.user?.id)
+    const intake = await IntakeLedgerService.getDailyIntake(session?.user?.id, targets, date)
+    return { targets, intake }
+  }, [session])
 
+  // Meal verdicts are judged against the user's own carb limit and what was left of it
+  // that day. A meal already in the ledger gives its own carbs back first.
+  const loadMealContext = useCallback(async (date?: Date, ownNetCarbs = 0): Promise<MealScoringContext> => {
+    const { targets, intake } = await loadScoringContext(date)
+    return {
+      carbLimit: intake.carbLimit,
+      remainingNetCarbs: Math.max(0, intake.carbLimit - intake.consumed.net_carbs + ownNetCarbs),
+      goal: targets?.goal,
+      strictness: targets?.strictness,
+    }
+  }, [loadScoringContext])
+
+  // Replay offline meal scans and unsent corrections on launch, when the app returns to the foreground, and periodically
+  useEffect(() => {
+    if (!authInitialized) return
+
+    const userId = session?.user?.id
+    const replay = () => {
+      ScanQueueService.processQueue(userId, loadMealContext)
+        .then(replayed => {
+          replayed.forEach(({ result }) => {
+            AnalyticsService.track(EVENTS.SCAN_COMPLETED, {
+              type: 'meal',
+              score: result.score,
+              verdict: result.verdict,
+              queued: true
+            })
+          })
+        })
+        .catch(err => console.error('[App] Scan queue replay failed:', err))
+      flushCorrections()
+    }
+
+    replay()
+    const appStateSub = AppState.addEventListener('change', state => {
+      if (state === 'active') replay()
+    })
+    const interval = setInterval(replay, SCAN_QUEUE_REPLAY_INTERVAL_MS)
+
+    return () => {
+      appStateSub.remove()
+      clearInterval(interval)
+    }
+  }, [authInitialized, session, loadMealContext])
+
+  // Analyze a preprocessed photo and route to whatever came back
+  const processCapture = useCallback(async (capture: { uri: string; base64?: string }, type: 'meal' | 'product') => {
+    setIsAnalyzing(true)
+    mealSaveRef.current = null
+    mealContextRef.current = null
+    productSaveRef.current = null
     try {
-      setIsAnalyzing(true)
-      AnalyticsService.track(EVENTS.SCAN_STARTED, { type: 'meal' })
-      const processed = await preprocessLabelImage(uri)
-      setLastImage(processed.uri)
-      if (processed.base64) {
-        const result = await analyzePhoto(processed.base64, 'meal')
+      let outcome: AnalysisOutcome
+      if (!capture.base64) {
+        outcome = { status: 'failed', category: 'invalid_image', message: 'Preprocessing failed to produce base64' }
+      } else {
+        try {
+          outcome = classifyAnalysis(await analyzePhoto(capture.base64, type))
+        } catch (error) {
+          console.error(`[App] ${type} analysis failed:`, error)
+          outcome = classifyAnalysisError(error)
+        }
+      }
+
+      // Offline meal scans are kept and analyzed once the connection is back
+      if (type === 'meal' && capture.base64 && outcome.status === 'failed' && outcome.category === 'network') {
+        const queued = await ScanQueueService.enqueue(session?.user?.id, capture.uri)
+        if (queued) {
+          AnalyticsService.track(EVENTS.SCAN_QUEUED, { type, error: outcome.message })
+          Alert.alert(
+            'Saved for later',
+            "You're offline. We'll analyze this meal as soon as you're back online. It's waiting in your History."
+          )
+          setCurrentScreen('history')
+          return
+        }
+      }
+
+      // Meal verdicts are recomputed against the user's own carb limit and what's left of it today
+      if (type === 'meal' && (outcome.status === 'success' || outcome.status === 'partial')) {
+        const context = await loadMealContext()
+        mealContextRef.current = Promise.resolve(context)
+        outcome = { ...outcome, result: personalizeMealAnalysis(outcome.result, context) }
+      }
+
+      const failureCategory = getFailureCategory(outcome)
+      if (failureCategory) {
+        AnalyticsService.track(EVENTS.SCAN_FAILED, {
+          type,
+          category: failureCategory,
+          error: outcome.status === 'failed' || outcome.status === 'not-food' ? outcome.message : undefined
+        })
+      } else if (outcome.status === 'success' || outcome.status === 'partial') {
         AnalyticsService.track(EVENTS.SCAN_COMPLETED, {
-          type: 'meal',
-          score: result.score,
-          verdict: result.verdict
+          type,
+          score: outcome.result.score,
+          verdict: outcome.result.verdict,
+          partial: outcome.status === 'partial'
         })
-        setAnalysisResult(result)
-        setProductResult(null)
-        setCurrentScreen('result')
-      } else {
-        throw new Error('Preprocessing failed to produce base64')
+
+        // Persist in the background so navigation isn't blocked on the upload
+        if (type === 'meal') {
+          const save = ScanPersistenceService.saveMealScan(session?.user?.id, outcome.result, capture.uri)
+          mealSaveRef.current = save
+          // A slow save from an earlier scan must not attach to this one
+          save.then(scan => {
+            if (mealSaveRef.current === save) setSavedScan(scan)
+          })
+        } else {
+          // Label and barcode photos land in History next to barcode lookups
+          const save = ScanPersistenceService.saveLabelScan(session?.user?.id, outcome.result, capture.uri)
+          productSaveRef.current = { barcode: '', save }
+          save.then(scan => {
+            if (productSaveRef.current?.save === save) setSavedScan(scan)
+          })
+        }
       }
-    } catch (error: any) {
-      console.error('Meal Analysis failed:', error)
-      AnalyticsService.track(EVENTS.SCAN_FAILED, { type: 'meal', error: error.message })
-      setLastImage(uri)
-      setAnalysisResult(MOCK_RESULT as any)
+
+      setAnalysisOutcome(outcome)
       setProductResult(null)
       setCurrentScreen('result')
     } finally {
       setIsAnalyzing(false)
     }
-  }, [])
+  }, [session, loadMealContext])
+
+  // Review edits recompute the meal on screen and overwrite its saved record
+  const handleMealCorrections = useCallback(async (corrections: MealCorrection[]) => {
+    if (analysisOutcome?.status !== 'success' && analysisOutcome?.status !== 'partial') return
+
+    const previous = analysisOutcome.result
+    const corrected = applyMealCorrections(previous, corrections, await mealContextRef.current)
+    setAnalysisOutcome({ ...analysisOutcome, result: corrected })
+
+    const saved = await mealSaveRef.current
+    if (saved) {
+      await ScanPersistenceService.updateMealScan(saved.recordId, corrected)
+    } else if (!session?.user?.id) {
+      await IntakeLedgerService.replaceGuestEntry(previous.macros, corrected.macros)
+    }
+
+    // Model feedback, tied to the scan the model saw. Guests have no scan record to tie it to.
+    if (!saved) return
+    const review = {
+      user_id: session?.user?.id ?? null,
+      scan_event_id: saved.scanEventId,
+      meal_id: saved.recordId,
+      timestamp: new Date().toISOString(),
+    }
+    // Detections left as they were count as right too, the first time they're reviewed.
+    // Foods from an earlier review carry the user's label and confidence, so calibration
+    // (which only reads rows with a model confidence) leaves them out.
+    const correctedIndexes = new Set(corrections.map(c => c.foodIndex))
+    const untouched = previous.foods.filter((food, i) => !correctedIndexes.has(i) && !food.reviewed)
+    logBatchCorrections([
+      ...corrections.map(c => ({
+        ...review,
+        food_label: c.originalFood.name,
+        model_confidence: c.action === 'added' || c.originalFood.reviewed
+          ? null
+          : c.originalFood.raw_confidence ?? c.originalFood.confidence,
+        user_action: c.action,
+        replacement_label: c.replacementName,
+        portion_grams: c.grams,
+      })),
+      ...untouched.map(food => ({
+        ...review,
+        food_label: food.name,
+        model_confidence: food.raw_confidence ?? food.confidence,
+        user_action: 'untouched' as const,
+      })),
+    ])
+  }, [analysisOutcome, session])
+
+  // AI-powered meal capture handler
+  const handleMealCapture = useCallback(async (uri: string, _base64?: string) => {
+    await QuotaService.incrementScanCount(session?.user?.id)
+    await refreshQuota()
+    setScanCount(prev => prev + 1)
+    setScanType('meal')
+    setSavedScan(null)
+
+    AnalyticsService.track(EVENTS.SCAN_STARTED, { type: 'meal' })
+    setIsAnalyzing(true)
+    const processed = await preprocessLabelImage(uri)
+    setLastImage(processed.uri)
+    setLastCapture(processed)
+    await processCapture(processed, 'meal')
+  }, [session, processCapture])
+
+  // Re-run analysis on the last photo without using another scan
+  const handleRetryAnalysis = useCallback(async () => {
+    if (lastCapture) await processCapture(lastCapture, scanType)
+  }, [lastCapture, scanType, processCapture])
 
   // Barcode-based product lookup handler (No AI, database only)
   const handleProductScanned = useCallback(async (product: ProductData) => {
@@ -305,9 +496,25 @@ export default function App() {
     setScanCount(prev => prev + 1)
     setScanType('product')
     setProductResult(product)
-    setAnalysisResult(null)
+    setAnalysisOutcome(null)
+    setSavedScan(null)
+    mealSaveRef.current = null
+    setDailyIntake(null)
     setCurrentScreen('result')
 
+    const savePromise = ScanPersistenceService.saveProductScan(session?.user?.id, product)
+    productSaveRef.current = { barcode: product.barcode, save: savePromise }
+    savePromise.then(scan => {
+      if (productSaveRef.current?.save === savePromise) setSavedScan(scan)
+    })
+
+    // Today's carb budget for the portion verdict, loaded alongside the save and OCR
+    loadScoringContext()
+      .then(({ intake }) => {
+        if (productSaveRef.current?.save === savePromise) setDailyIntake(intake)
+      })
+      .catch(err => console.error('[App] Loading scoring context failed:', err))
+
     // AUTOMATIC REFINEMENT LAYER: Fallback to Image OCR if API data is incomplete
     if (product.needsOCR && (product.imageIngredientsUrl || product.imageUrl)) {
       const imageUrl = product.imageIngredientsUrl || product.imageUrl;
@@ -315,47 +522,61 @@ export default function App() {
         console.log('[App] Metadata incomplete, triggering automatic OCR refinement from URL');
         try {
           const refinedResult = await analyzePhoto(imageUrl, 'product', true);
+          const ingredients = refinedResult.foods.map(f => f.name);
+          // Score the read ingredients with the product's own nutrition, same as a complete barcode hit
+          const refinedScore = ingredients.length > 0
+            ? calculateProductScore(ingredients, product.macros)
+            : { score: refinedResult.score, verdict: refinedResult.verdict, ruleset_version: refinedResult.rulesetVersion };
+          const refinedProduct: ProductData = {
+            ...product,
+            ingredients,
+            ketoScore: refinedScore.score,
+            ketoVerdict: refinedScore.verdict,
+            rulesetVersion: refinedScore.ruleset_version,
+            swapSuggestion: refinedResult.swapSuggestion,
+            needsOCR: false,
+            source: 'ocr'
+          };
           setProductResult(prev => {
             if (!prev || prev.barcode !== product.barcode) return prev;
-            return {
-              ...prev,
-              ingredients: refinedResult.foods.map(f => f.name),
-              ketoScore: refinedResult.score,
-              ketoVerdict: refinedResult.verdict,
-              swapSuggestion: refinedResult.swapSuggestion,
-              needsOCR: false,
-              source: 'ocr'
-            };
+            return refinedProduct;
           });
+          ProductCacheService.set(refinedProduct);
+
+          const saved = await savePromise;
+          if (saved) {
+            await ScanPersistenceService.updateProductScan(saved.recordId, refinedProduct);
+          }
         } catch (err) {
           console.error('[App] Automatic OCR refinement failed:', err);
         }
       }
     }
+  }, [session, loadScoringContext])
+
+  // A stale cached product was shown; swap in the refreshed data if it's still on screen
+  const handleProductRevalidated = useCallback(async (fresh: ProductData) => {
+    setProductResult(prev => (prev && prev.barcode === fresh.barcode ? fresh : prev))
+
+    const pending = productSaveRef.current
+    const saved = pending?.barcode === fresh.barcode ? await pending.save : null
+    if (saved) {
+      await ScanPersistenceService.updateProductScan(saved.recordId, fresh)
+    }
   }, [])
 
   const handleProductCapture = useCallback(async (uri: string, _type: 'barcode' | 'ingredients', _data?: string, _base64?: string) => {
     setScanCount(prev => prev + 1)
-    try {
-      setIsAnalyzing(true)
-      const processed = await preprocessLabelImage(uri)
-      setLastImage(processed.uri)
-      if (processed.base64) {
-        const result = await analyzePhoto(processed.base64, 'product')
-        setAnalysisResult(result)
-        setCurrentScreen('result')
-      } else {
-        throw new Error('Preprocessing failed to produce base64')
-      }
-    } catch (error) {
-      console.error('Product Analysis failed:', error)
-      setLastImage(uri)
-      setAnalysisResult(MOCK_RESULT as any)
-      setCurrentScreen('result')
-    } finally {
-      setIsAnalyzing(false)
-    }
-  }, [])
+    setScanType('product')
+    setSavedScan(null)
+
+    AnalyticsService.track(EVENTS.SCAN_STARTED, { type: 'product' })
+    setIsAnalyzing(true)
+    const processed = await preprocessLabelImage(uri)
+    setLastImage(processed.uri)
+    setLastCapture(processed)
+    await processCapture(processed, 'product')
+  }, [processCapture])
 
   const handleBack = useCallback(() => {
     setCurrentScreen('home')
@@ -377,6 +598,11 @@ export default function App() {
     }
   }, [scanCount, session])
 
+  const handleRescan = useCallback(() => {
+    if (scanType === 'product') handleScanProduct()
+    else handleScanMeal()
+  }, [scanType, handleScanMeal, handleScanProduct])
+
   const handleLogout = useCallback(async () => {
     await supabase.auth.signOut()
     setHasCompletedQuiz(false)
@@ -385,7 +611,7 @@ export default function App() {
 
   const handleTabChange = useCallback((tab: 'home' | 'scan' | 'history' | 'profile') => {
     if (tab === 'home') setCurrentScreen('home')
-    else if (tab === 'scan') setCurrentScreen('camera')
+    else if (tab === 'scan') setCurrentScreen('food-search')
     else if (tab === 'history') setCurrentScreen('history')
     else if (tab === 'profile') setCurrentScreen('profile')
   }, [])
@@ -400,6 +626,9 @@ export default function App() {
     return <Loader fullScreen message="AI is analyzing your selection..." />
   }
 
+  const analysisResult = analysisOutcome && 'result' in analysisOutcome ? analysisOutcome.result : null
+  const showProductResult = scanType === 'product' && !!productResult
+
   // Render current screen
   const renderScreen = () => {
     switch (currentScreen) {
@@ -412,6 +641,7 @@ export default function App() {
       case 'home':
         return (
           <HomeScreen
+            userId={session?.user?.id}
             userName={session?.user?.email?.split('@')[0] || 'Keto Warrior'}
             scansRemaining={quotaStatus.remaining}
             isPro={quotaStatus.isPro}
@@ -425,6 +655,14 @@ export default function App() {
           <ProfileScreen
             session={session}
             onLogout={handleLogout}
+            onOpenWeightLog={() => setCurrentScreen('weight-log')}
+          />
+        )
+      case 'weight-log':
+        return (
+          <WeightLogScreen
+            userId={session?.user?.id}
+            onBack={() => setCurrentScreen('profile')}
           />
         )
       case 'camera':
@@ -439,22 +677,43 @@ export default function App() {
           <GroceryScannerScreen
             onBack={handleBack}
             onProductScanned={handleProductScanned}
+            onProductRevalidated={handleProductRevalidated}
           />
         )
       case 'result':
         return (
           <ResultScreen
-            score={scanType === 'product' ? (productResult?.ketoScore ?? 0) : (analysisResult?.score ?? MOCK_RESULT.score)}
-            verdict={scanType === 'product' ? (productResult?.ketoVerdict ?? 'avoid') : (analysisResult?.verdict ?? MOCK_RESULT.verdict)}
-            macros={scanType === 'product' ? (productResult?.macros ?? MOCK_RESULT.macros) : (analysisResult?.macros ?? MOCK_RESULT.macros)}
+            outcome={showProductResult ? undefined : analysisOutcome ?? undefined}
+            score={showProductResult ? (productResult?.ketoScore ?? 0) : (analysisResult?.score ?? 0)}
+            verdict={showProductResult ? (productResult?.ketoVerdict ?? 'avoid') : (analysisResult?.verdict ?? 'unknown')}
+            macros={showProductResult ? (productResult?.macros ?? EMPTY_MACROS) : (analysisResult?.macros ?? EMPTY_MACROS)}
             scanType={scanType}
-            swapSuggestion={scanType === 'product' ? (productResult?.swapSuggestion ?? '') : (analysisResult?.swapSuggestion ?? MOCK_RESULT.swapSuggestion)}
+            swapSuggestion={showProductResult ? (productResult?.swapSuggestion ?? '') : (analysisResult?.swapSuggestion ?? '')}
             foods={analysisResult?.foods ?? []}
             plateConfidence={analysisResult?.plateConfidence ?? 1.0}
             productName={productResult?.name}
+            verdictChange={showProductResult ? productResult?.verdictChange : undefined}
+            sweeteners={showProductResult ? productResult?.sweeteners : undefined}
+            scoreExplanation={showProductResult ? undefined : analysisResult?.scoreExplanation}
+            product={showProductResult ? productResult ?? undefined : undefined}
+            intake={showProductResult ? dailyIntake ?? undefined : undefined}
             userId={session?.user?.id}
+            scanId={savedScan?.scanEventId ?? undefined}
             onBack={handleBack}
             onScanAgain={handleScanAgain}
+            onRecalculate={showProductResult ? undefined : handleMealCorrections}
+            onRetry={lastCapture ? handleRetryAnalysis : undefined}
+            onManualEntry={() => setCurrentScreen('food-search')}
+            onRescan={handleRescan}
+          />
+        )
+      case 'food-search':
+        return (
+          <FoodSearchScreen
+            userId={session?.user?.id}
+            onScanMeal={handleScanMeal}
+            onScanProduct={handleScanProduct}
+            onLogged={() => setCurrentScreen('home')}
           />
         )
       case 'paywall':
@@ -475,31 +734,61 @@ export default function App() {
             userId={session?.user?.id || ''}
             onItemPress={(item: HistoryItem) => {
               // Convert history item to result format and navigate
-              const historyMacros = { net_carbs: 0, fat: 0, protein: 0, calories: 0 };
+              const historyMacros = item.macros ?? { net_carbs: 0, fat: 0, protein: 0, calories: 0 };
 
               if (item.type === 'meal') {
-                setAnalysisResult({
-                  score: item.score,
-                  verdict: item.verdict,
-                  reasoning: `From scan on ${item.timestamp.toLocaleDateString()}`,
-                  macros: historyMacros,
-                  swapSuggestion: '',
-                  foods: [],
-                  plateConfidence: 1.0,
+                setAnalysisOutcome({
+                  status: 'success',
+                  result: {
+                    score: item.score,
+                    verdict: item.verdict,
+                    reasoning: `From scan on ${item.timestamp.toLocaleDateString()}`,
+                    macros: historyMacros,
+                    swapSuggestion: item.swapSuggestion ?? '',
+                    foods: item.foods ?? [],
+                    plateConfidence: 1.0,
+                  },
                 });
                 setScanType('meal');
+                // Corrections from History overwrite the stored meal
+                mealSaveRef.current = item.pending ? null : Promise.resolve({ recordId: item.id, scanEventId: item.scanEventId ?? null });
+                // Re-scored in the context of the day it was eaten, minus the meal itself
+                mealContextRef.current = loadMealContext(item.timestamp, item.pending ? 0 : historyMacros.net_carbs)
+                  .catch(err => {
+                    console.error('[App] Failed to load scoring context:', err);
+                    return null;
+                  });
               } else {
+                // Nothing from the previous scan may describe or update this record
+                const save = Promise.resolve(item.source === 'manual' ? null : { recordId: item.id, scanEventId: item.scanEventId ?? null });
+                productSaveRef.current = { barcode: item.barcode ?? '', save };
+                mealSaveRef.current = null;
+                setSavedScan(null);
+                setDailyIntake(null);
+                setAnalysisOutcome(null);
+
+                // Scans are judged per portion against the carbs left on the day of the scan
+                if (item.source !== 'manual') {
+                  loadScoringContext(item.timestamp)
+                    .then(({ intake }) => {
+                      if (productSaveRef.current?.save === save) setDailyIntake(intake);
+                    })
+                    .catch(err => console.error('[App] Loading scoring context failed:', err));
+                }
+
                 setProductResult({
                   found: true,
-                  barcode: '',
+                  barcode: item.barcode ?? '',
                   name: item.name,
-                  brand: '',
+                  brand: item.brand ?? '',
                   macros: historyMacros,
                   ingredients: [],
                   ketoScore: item.score,
                   ketoVerdict: item.verdict,
-                  swapSuggestion: '',
+                  swapSuggestion: item.swapSuggestion ?? '',
                   source: 'shadow' as const,
+                  // Logged entries hold the portion eaten, not per-100g values
+                  loggedPortion: item.source === 'manual',
                 });
                 setScanType('product');
               }
@@ -513,8 +802,11 @@ export default function App() {
     }
   }
 
-  const showTabBar = ['home', 'profile', 'result', 'history'].includes(currentScreen)
-  const activeTab = currentScreen === 'profile' ? 'profile' : currentScreen === 'history' ? 'history' : 'home'
+  const showTabBar = ['home', 'profile', 'result', 'history', 'food-search'].includes(currentScreen)
+  const activeTab = currentScreen === 'profile' ? 'profile'
+    : currentScreen === 'history' ? 'history'
+    : currentScreen === 'food-search' ? 'scan'
+    : 'home'
 
   return (
     <SafeAreaProvider>
@@ -4,14 +4,16 @@
  * Frame as "Review" / "Adjust", never "Fix the AI".
  */
 
-import React, { useState, useCallback } from 'react'
-import { View, StyleSheet, Pressable, ScrollView, Modal } from 'react-native'
+import React, { useState, useCallback, useMemo, useRef } from 'react'
+import { View, StyleSheet, Pressable, ScrollView, Modal, TextInput } from 'react-native'
 import { Text, Button } from '../atoms'
 import { Colors, Spacing, BorderRadius, Shadows } from '../../constants/theme'
 import { MotiView, AnimatePresence } from 'moti'
 import { haptics } from '../../services/hapticsService'
 import { getConfidenceLevel, DetectedFood } from '../../types'
-import { CheckCircle2, AlertCircle, AlertTriangle, X, Plus, RefreshCw, Trash2 } from 'lucide-react-native'
+import type { MealCorrection } from '../../services/aiService'
+import { searchFoods, getCarbRisk, FoodMetadata, FoodServing } from '../../services/foodDatabase'
+import { CheckCircle2, AlertCircle, AlertTriangle, X, Plus, Minus, RefreshCw, Trash2, Search } from 'lucide-react-native'
 
 interface CorrectionSheetProps {
     visible: boolean
@@ -20,11 +22,7 @@ interface CorrectionSheetProps {
     onCorrect: (corrections: CorrectionResult[]) => void
 }
 
-export interface CorrectionResult {
-    originalFood: DetectedFood
-    action: 'confirmed' | 'removed' | 'replaced'
-    replacementName?: string
-}
+export type CorrectionResult = MealCorrection
 
 // Curated replacement suggestions (not AI guessing)
 const COMMON_REPLACEMENTS: Record<string, string[]> = {
@@ -36,8 +34,15 @@ const COMMON_REPLACEMENTS: Record<string, string[]> = {
     'default': ['Remove item', 'Mark as correct']
 }
 
+// Common misses, as starting searches for the food picker
 const QUICK_ADD_OPTIONS = ['Cheese', 'Bread', 'Potatoes', 'Vegetables', 'Sauce', 'Other']
 
+const PICKER_RESULT_LIMIT = 5
+const QUANTITY_STEP = 0.5
+
+// Added foods share the corrections map with detected ones, under their own keys
+const ADDED_KEY_PREFIX = 'added:'
+
 function getConfidenceIcon(confidence: number) {
     const level = getConfidenceLevel(confidence)
     switch (level) {
@@ -59,27 +64,177 @@ function getConfidenceLabel(confidence: number): string {
     }
 }
 
+interface FoodPickerProps {
+    onAdd: (food: FoodMetadata, serving: FoodServing, quantity: number) => void
+}
+
+/**
+ * Search the food database for something the scan missed, then pick a portion
+ */
+function FoodPicker({ onAdd }: FoodPickerProps) {
+    const inputRef = useRef<TextInput>(null)
+    const [query, setQuery] = useState('')
+    const [picked, setPicked] = useState<FoodMetadata | null>(null)
+    const [serving, setServing] = useState<FoodServing | null>(null)
+    const [quantity, setQuantity] = useState(1)
+
+    const results = useMemo(() => (query.trim() ? searchFoods(query, PICKER_RESULT_LIMIT) : []), [query])
+
+    const pick = (food: FoodMetadata) => {
+        haptics.light()
+        setPicked(food)
+        setServing(food.servings[0])
+        setQuantity(1)
+    }
+
+    if (picked && serving) {
+        const grams = serving.grams * quantity
+        const netCarbs = Math.round(picked.per100g.net_carbs * grams / 10) / 10
+
+        return (
+            <View style={styles.picker}>
+                <View style={styles.pickerHeader}>
+                    <Text variant="body" weight="semibold">{picked.name}</Text>
+                    <Pressable onPress={() => setPicked(null)} hitSlop={8}>
+                        <X size={18} color={Colors.gray500} />
+                    </Pressable>
+                </View>
+                <View style={styles.quickAddContainer}>
+                    {picked.servings.map(s => (
+                        <Pressable
+                            key={s.label}
+                            style={[styles.quickAddOption, s.label === serving.label && styles.quickAddOptionActive]}
+                            onPress={() => setServing(s)}
+                        >
+                            <Text variant="body" size="sm" color={s.label === serving.label ? Colors.white : Colors.gray700}>
+                                {s.label}
+                            </Text>
+                        </Pressable>
+                    ))}
+                </View>
+                <View style={styles.quantityRow}>
+                    <Pressable
+                        style={styles.stepper}
+                        onPress={() => setQuantity(q => Math.max(QUANTITY_STEP, q - QUANTITY_STEP))}
+                    >
+                        <Minus size={16} color={Colors.gray700} />
+                    </Pressable>
+                    <Text variant="heading" size="lg">{quantity}</Text>
+                    <Pressable style={styles.stepper} onPress={() => setQuantity(q => q + QUANTITY_STEP)}>
+                        <Plus size={16} color={Colors.gray700} />
+                    </Pressable>
+                    <Text variant="caption" color={Colors.gray500}>
+                        {Math.round(grams)}g · {netCarbs}g net carbs
+                    </Text>
+                </View>
+                <Button size="sm" onPress={() => onAdd(picked, serving, quantity)}>
+                    Add to plate
+                </Button>
+            </View>
+        )
+    }
+
+    return (
+        <View style={styles.picker}>
+            <View style={styles.searchBox}>
+                <Search size={18} color={Colors.gray400} />
+                <TextInput
+                    ref={inputRef}
+                    style={styles.searchInput}
+                    value={query}
+                    onChangeText={setQuery}
+                    placeholder="Search foods"
+                    placeholderTextColor={Colors.gray400}
+                    autoCorrect={false}
+                />
+            </View>
+
+            {!query.trim() && (
+                <View style={styles.quickAddContainer}>
+                    {QUICK_ADD_OPTIONS.map(option => (
+                        <Pressable
+                            key={option}
+                            style={styles.quickAddOption}
+                            onPress={() => {
+                                haptics.light()
+                                if (option === 'Other') inputRef.current?.focus()
+                                else setQuery(option)
+                            }}
+                        >
+                            <Text variant="body">{option}</Text>
+                        </Pressable>
+                    ))}
+                </View>
+            )}
+
+            {results.map(({ food }) => (
+                <Pressable key={food.id} style={styles.actionOption} onPress={() => pick(food)}>
+                    <Text variant="body">{food.name}</Text>
+                    <Text variant="caption" color={Colors.gray500}>
+                        {food.macros.net_carbs}g net carbs per {food.unit}
+                    </Text>
+                </Pressable>
+            ))}
+
+            {query.trim() !== '' && results.length === 0 && (
+                <Text variant="caption" color={Colors.gray500}>No matching foods</Text>
+            )}
+        </View>
+    )
+}
+
 export function CorrectionSheet({ visible, foods, onClose, onCorrect }: CorrectionSheetProps) {
     const [corrections, setCorrections] = useState<Map<string, CorrectionResult>>(new Map())
-    const [selectedFood, setSelectedFood] = useState<DetectedFood | null>(null)
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
     const [showQuickAdd, setShowQuickAdd] = useState(false)
 
-    const handleFoodPress = useCallback((food: DetectedFood) => {
+    const selectedFood = selectedIndex !== null ? foods[selectedIndex] : null
+
+    const handleFoodPress = useCallback((index: number) => {
         haptics.light()
-        setSelectedFood(food)
+        setSelectedIndex(index)
     }, [])
 
-    const handleAction = useCallback((food: DetectedFood, action: 'confirmed' | 'removed' | 'replaced', replacementName?: string) => {
+    // Detected foods are keyed by position, so two items with the same name stay apart
+    const handleAction = useCallback((index: number, action: 'confirmed' | 'removed' | 'replaced', replacementName?: string) => {
+        haptics.medium()
+        const newCorrections = new Map(corrections)
+        newCorrections.set(String(index), { originalFood: foods[index], foodIndex: index, action, replacementName })
+        setCorrections(newCorrections)
+        setSelectedIndex(null)
+    }, [corrections, foods])
+
+    const handleAdd = useCallback((food: FoodMetadata, serving: FoodServing, quantity: number) => {
         haptics.medium()
+        const grams = serving.grams * quantity
+        const added: DetectedFood = {
+            name: food.name,
+            confidence: 1,
+            estimated_portion: quantity === 1 ? serving.label : `${quantity} × ${serving.label}`,
+            carb_risk: getCarbRisk(food.per100g.net_carbs * grams / 100),
+            is_keto_offender: !food.isKeto,
+        }
+
+        const newCorrections = new Map(corrections)
+        newCorrections.set(`${ADDED_KEY_PREFIX}${food.id}`, { originalFood: added, action: 'added', grams, food })
+        setCorrections(newCorrections)
+        setShowQuickAdd(false)
+    }, [corrections])
+
+    const handleRemoveAdded = useCallback((key: string) => {
+        haptics.light()
         const newCorrections = new Map(corrections)
-        newCorrections.set(food.name, { originalFood: food, action, replacementName })
+        newCorrections.delete(key)
         setCorrections(newCorrections)
-        setSelectedFood(null)
     }, [corrections])
 
+    const addedFoods = Array.from(corrections.entries()).filter(([key]) => key.startsWith(ADDED_KEY_PREFIX))
+
     const handleSubmit = useCallback(() => {
         haptics.success()
         onCorrect(Array.from(corrections.values()))
+        // The corrected foods come back as the new list to review
+        setCorrections(new Map())
         onClose()
     }, [corrections, onCorrect, onClose])
 
@@ -118,7 +273,7 @@ export function CorrectionSheet({ visible, foods, onClose, onCorrect }: Correcti
                     {/* Food List */}
                     <ScrollView style={styles.foodList} showsVerticalScrollIndicator={false}>
                         {foods.map((food, index) => {
-                            const correction = corrections.get(food.name)
+                            const correction = corrections.get(String(index))
                             const isConfirmed = correction?.action === 'confirmed'
                             const isRemoved = correction?.action === 'removed'
                             const isReplaced = correction?.action === 'replaced'
@@ -130,7 +285,7 @@ export function CorrectionSheet({ visible, foods, onClose, onCorrect }: Correcti
                                         styles.foodItem,
                                         isRemoved && styles.foodItemRemoved
                                     ]}
-                                    onPress={() => handleFoodPress(food)}
+                                    onPress={() => handleFoodPress(index)}
                                 >
                                     <View style={styles.foodIcon}>
                                         {getConfidenceIcon(food.confidence)}
@@ -160,6 +315,22 @@ export function CorrectionSheet({ visible, foods, onClose, onCorrect }: Correcti
                             )
                         })}
 
+                        {/* Foods the user added */}
+                        {addedFoods.map(([key, correction]) => (
+                            <Pressable key={key} style={styles.foodItem} onPress={() => handleRemoveAdded(key)}>
+                                <View style={styles.foodIcon}>
+                                    <Plus size={20} color={Colors.ketoSafe} />
+                                </View>
+                                <View style={styles.foodInfo}>
+                                    <Text variant="body" weight="semibold">{correction.originalFood.name}</Text>
+                                    <Text variant="caption" color={Colors.gray500}>
+                                        Added · {correction.originalFood.estimated_portion}
+                                    </Text>
+                                </View>
+                                <Trash2 size={20} color={Colors.gray400} />
+                            </Pressable>
+                        ))}
+
                         {/* Something missing? */}
                         <Pressable
                             style={styles.addMissing}
@@ -176,22 +347,8 @@ export function CorrectionSheet({ visible, foods, onClose, onCorrect }: Correcti
                             <MotiView
                                 from={{ opacity: 0, height: 0 }}
                                 animate={{ opacity: 1, height: 'auto' }}
-                                style={styles.quickAddContainer}
                             >
-                                {QUICK_ADD_OPTIONS.map(option => (
-                                    <Pressable
-                                        key={option}
-                                        style={styles.quickAddOption}
-                                        onPress={() => {
-                                            haptics.medium()
-                                            // In production, this would add to the foods list
-                                            console.log('Add:', option)
-                                            setShowQuickAdd(false)
-                                        }}
-                                    >
-                                        <Text variant="body">{option}</Text>
-                                    </Pressable>
-                                ))}
+                                <FoodPicker onAdd={handleAdd} />
                             </MotiView>
                         )}
                     </ScrollView>
@@ -205,7 +362,7 @@ export function CorrectionSheet({ visible, foods, onClose, onCorrect }: Correcti
 
                     {/* Item Action Sheet */}
                     <AnimatePresence>
-                        {selectedFood && (
+                        {selectedFood && selectedIndex !== null && (
                             <MotiView
                                 from={{ opacity: 0, translateY: 100 }}
                                 animate={{ opacity: 1, translateY: 0 }}
@@ -226,11 +383,11 @@ export function CorrectionSheet({ visible, foods, onClose, onCorrect }: Correcti
                                         style={styles.actionOption}
                                         onPress={() => {
                                             if (option === 'Remove item') {
-                                                handleAction(selectedFood, 'removed')
+                                                handleAction(selectedIndex, 'removed')
                                             } else if (option === 'Mark as correct') {
-                                                handleAction(selectedFood, 'confirmed')
+                                                handleAction(selectedIndex, 'confirmed')
                                             } else {
-                                                handleAction(selectedFood, 'replaced', option)
+                                                handleAction(selectedIndex, 'replaced', option)
                                             }
                                         }}
                                     >
@@ -240,7 +397,7 @@ export function CorrectionSheet({ visible, foods, onClose, onCorrect }: Correcti
 
                                 <Pressable
                                     style={styles.cancelButton}
-                                    onPress={() => setSelectedFood(null)}
+                                    onPress={() => setSelectedIndex(null)}
                                 >
                                     <Text variant="body" color={Colors.gray500}>Cancel</Text>
                                 </Pressable>
@@ -318,6 +475,46 @@ const styles = StyleSheet.create({
         backgroundColor: Colors.gray100,
         borderRadius: BorderRadius.full,
     },
+    quickAddOptionActive: {
+        backgroundColor: Colors.ketoSafe,
+    },
+    picker: {
+        gap: Spacing.md,
+        paddingBottom: Spacing.lg,
+    },
+    pickerHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    searchBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        paddingHorizontal: Spacing.md,
+        borderRadius: BorderRadius.lg,
+        backgroundColor: Colors.gray50,
+        borderWidth: 1,
+        borderColor: Colors.gray200,
+    },
+    searchInput: {
+        flex: 1,
+        minHeight: 44,
+        color: Colors.gray900,
+    },
+    quantityRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.md,
+    },
+    stepper: {
+        width: 32,
+        height: 32,
+        borderRadius: BorderRadius.full,
+        backgroundColor: Colors.gray100,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
     footer: {
         marginTop: Spacing.xl,
     },
@@ -0,0 +1,166 @@
+/**
+ * WeightChart Component
+ * Weigh-ins and their smoothed trend over time
+ */
+
+import React from 'react'
+import { View, StyleSheet } from 'react-native'
+import { Text } from '../atoms/Text'
+import { Colors, Spacing, BorderRadius } from '../../constants/theme'
+import { convertWeight, WeightUnit } from '../../utils/profileValidation'
+import type { TrendPoint } from '../../services/weightLogService'
+
+interface WeightChartProps {
+    points: TrendPoint[]
+    unit: WeightUnit
+    showLabels?: boolean
+}
+
+interface LegendItemProps {
+    label: string
+    value: string
+    color: string
+}
+
+const CHART_HEIGHT = 140
+const DOT_SIZE = 8
+
+// Keep a flat series from filling the whole chart height with noise
+const MIN_RANGE_KG = 2
+
+function LegendItem({ label, value, color }: LegendItemProps) {
+    return (
+        <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: color }]} />
+            <View style={styles.legendInfo}>
+                <Text variant="body" size="sm" weight="medium">
+                    {label}
+                </Text>
+                <Text variant="body" size="sm" weight="semibold" color={Colors.gray900}>
+                    {value}
+                </Text>
+            </View>
+        </View>
+    )
+}
+
+export function WeightChart({ points, unit, showLabels = true }: WeightChartProps) {
+    if (points.length === 0) {
+        return (
+            <View style={[styles.chart, styles.empty]}>
+                <Text variant="body" size="sm" color={Colors.gray500}>
+                    Log your first weigh-in to start a trend
+                </Text>
+            </View>
+        )
+    }
+
+    const values = points.flatMap(p => [p.weight_kg, p.trend_kg])
+    const mid = (Math.max(...values) + Math.min(...values)) / 2
+    const range = Math.max(MIN_RANGE_KG, Math.max(...values) - Math.min(...values))
+    const low = mid - range / 2
+
+    // Distance from the bottom of the chart for a weight
+    const offset = (kg: number) => ((kg - low) / range) * (CHART_HEIGHT - DOT_SIZE)
+
+    const format = (kg: number) => `${convertWeight(kg, 'kg', unit)} ${unit}`
+    const first = points[0]
+    const last = points[points.length - 1]
+    const change = Math.round((convertWeight(last.trend_kg, 'kg', unit) - convertWeight(first.trend_kg, 'kg', unit)) * 10) / 10
+
+    return (
+        <View style={styles.container}>
+            {/* Point visualization: weigh-ins as small dots, the trend as larger ones */}
+            <View style={styles.chart}>
+                {points.map(point => (
+                    <View key={point.recorded_at} style={styles.column}>
+                        <View style={[styles.reading, { bottom: offset(point.weight_kg) }]} />
+                        <View style={[styles.trend, { bottom: offset(point.trend_kg) }]} />
+                    </View>
+                ))}
+            </View>
+
+            {/* Legend */}
+            {showLabels && (
+                <View style={styles.legend}>
+                    <LegendItem label="Trend" value={format(last.trend_kg)} color={Colors.ketoSafe} />
+                    <LegendItem label="Last weigh-in" value={format(last.weight_kg)} color={Colors.gray300} />
+                </View>
+            )}
+
+            {/* Change since the first weigh-in */}
+            {points.length > 1 && (
+                <View style={styles.change}>
+                    <Text variant="heading" size="xl" weight="bold" color={Colors.gray900}>
+                        {change > 0 ? '+' : ''}{change}
+                    </Text>
+                    <Text variant="caption" size="sm" color={Colors.gray500}>
+                        {unit} since {new Date(first.recorded_at).toLocaleDateString()}
+                    </Text>
+                </View>
+            )}
+        </View>
+    )
+}
+
+const styles = StyleSheet.create({
+    container: {
+        gap: Spacing.lg,
+    },
+    chart: {
+        flexDirection: 'row',
+        height: CHART_HEIGHT,
+        borderRadius: BorderRadius.md,
+        backgroundColor: Colors.gray50,
+        overflow: 'hidden',
+    },
+    empty: {
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    column: {
+        flex: 1,
+        alignItems: 'center',
+    },
+    reading: {
+        position: 'absolute',
+        width: DOT_SIZE - 2,
+        height: DOT_SIZE - 2,
+        borderRadius: BorderRadius.full,
+        backgroundColor: Colors.gray300,
+    },
+    trend: {
+        position: 'absolute',
+        width: DOT_SIZE,
+        height: DOT_SIZE,
+        borderRadius: BorderRadius.full,
+        backgroundColor: Colors.ketoSafe,
+    },
+    legend: {
+        gap: Spacing.md,
+    },
+    legendItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.md,
+    },
+    legendDot: {
+        width: 12,
+        height: 12,
+        borderRadius: BorderRadius.full,
+    },
+    legendInfo: {
+        flex: 1,
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'baseline',
+    },
+    change: {
+        flexDirection: 'row',
+        alignItems: 'baseline',
+        gap: Spacing.xs,
+        paddingTop: Spacing.sm,
+        borderTopWidth: 1,
+        borderTopColor: Colors.gray200,
+    },
+})
@@ -7,3 +7,4 @@ export { VerdictPill } from './VerdictPill'
 export { MacroChart } from './MacroChart'
 export { ShareCard } from './ShareCard'
 export { CorrectionSheet } from './CorrectionSheet'
+export { WeightChart } from './WeightChart'
@@ -0,0 +1,493 @@
+/**
+ * Bundled Food Dataset
+ * Offline nutrient reference used for meal verification and manual search.
+ * All macros are per 100g (edible portion; cooked where the food is normally eaten cooked).
+ *
+ * Bump FOOD_DATA_VERSION whenever entries are added or values change, so cached
+ * lookups and logged items can be traced back to the data they were computed from.
+ *
+ * Coverage: about 380 hand-curated common foods. The full dataset of several
+ * thousand entries, imported from USDA FoodData Central (SR Legacy + FNDDS) into
+ * this same record shape, is still an open follow-up; until it lands, foods
+ * missing here fall back to the model's own estimates.
+ */
+
+export const FOOD_DATA_VERSION = 2
+
+export type FoodCategory =
+    | 'meat'
+    | 'poultry'
+    | 'seafood'
+    | 'eggs'
+    | 'dairy'
+    | 'vegetables'
+    | 'fruits'
+    | 'nuts_seeds'
+    | 'fats_oils'
+    | 'grains'
+    | 'legumes'
+    | 'condiments'
+    | 'sweets_snacks'
+    | 'beverages'
+    | 'prepared'
+
+export interface FoodServing {
+    label: string // e.g. "1 large", "1 cup" — parseable by portion parsing
+    grams: number
+}
+
+export interface FoodRecord {
+    id: string
+    name: string
+    aliases: string[]
+    category: FoodCategory
+    per100g: {
+        net_carbs: number
+        fiber: number
+        fat: number
+        protein: number
+        calories: number
+    }
+    servings: FoodServing[] // first entry is the default serving
+    description?: string
+    confidence: number // 0-1, how certain we are about this data
+}
+
+// [net carbs, fiber, fat, protein, kcal] per 100g
+type Per100g = [number, number, number, number, number]
+
+function food(
+    id: string,
+    name: string,
+    aliases: string[],
+    category: FoodCategory,
+    [net_carbs, fiber, fat, protein, calories]: Per100g,
+    servings: [string, number][],
+    extra: { description?: string; confidence?: number } = {}
+): FoodRecord {
+    return {
+        id,
+        name,
+        aliases,
+        category,
+        per100g: { net_carbs, fiber, fat, protein, calories },
+        servings: servings.map(([label, grams]) => ({ label, grams })),
+        description: extra.description,
+        confidence: extra.confidence ?? 0.9,
+    }
+}
+
+export const FOOD_DATA: FoodRecord[] = [
+    // ===== Meat =====
+    food('ribeye-steak', 'Ribeye Steak', ['ribeye', 'rib eye', 'steak', 'beef steak'], 'meat', [0, 0, 22, 24, 290], [['100g', 100], ['1 steak', 280]], { description: 'High-fat cut of beef, ideal for keto.', confidence: 0.92 }),
+    food('sirloin-steak', 'Sirloin Steak', ['sirloin', 'top sirloin'], 'meat', [0, 0, 8, 29, 200], [['100g', 100], ['1 steak', 225]]),
+    food('ny-strip-steak', 'New York Strip Steak', ['strip steak', 'striploin', 'new york strip'], 'meat', [0, 0, 14, 25, 230], [['100g', 100], ['1 steak', 250]]),
+    food('filet-mignon', 'Filet Mignon', ['beef tenderloin', 'tenderloin', 'filet'], 'meat', [0, 0, 12, 28, 227], [['100g', 100], ['1 steak', 170]]),
+    food('ground-beef-80', 'Ground Beef (80/20)', ['ground beef', 'minced beef', 'beef mince', 'burger patty', 'hamburger patty', 'beef patty'], 'meat', [0, 0, 17, 26, 254], [['100g', 100], ['1 patty', 113]]),
+    food('ground-beef-90', 'Lean Ground Beef (90/10)', ['lean ground beef', 'lean beef mince'], 'meat', [0, 0, 10, 26, 217], [['100g', 100], ['1 patty', 113]]),
+    food('beef-brisket', 'Beef Brisket', ['brisket'], 'meat', [0, 0, 21.5, 26, 310], [['100g', 100], ['1 slice', 40]]),
+    food('roast-beef', 'Roast Beef (Deli)', ['roast beef', 'deli roast beef'], 'meat', [0.6, 0, 3.7, 18.6, 115], [['1 slice', 28], ['100g', 100]]),
+    food('beef-jerky', 'Beef Jerky', ['jerky', 'meat stick', 'beef stick'], 'meat', [9.2, 1.8, 25.6, 33.2, 410], [['1 oz', 28], ['100g', 100]]),
+    food('corned-beef', 'Corned Beef', [], 'meat', [0.5, 0, 19, 18, 251], [['100g', 100], ['1 slice', 28]]),
+    food('beef-liver', 'Beef Liver', ['liver'], 'meat', [5.1, 0, 5.3, 29.1, 191], [['100g', 100], ['1 slice', 68]]),
+    food('beef-short-ribs', 'Beef Short Ribs', ['short ribs', 'short rib'], 'meat', [0, 0, 41.9, 21.6, 471], [['100g', 100], ['1 rib', 120]]),
+    food('pot-roast', 'Pot Roast', ['chuck roast', 'beef chuck'], 'meat', [0, 0, 13, 29, 240], [['100g', 100], ['1 cup', 140]]),
+    food('veal', 'Veal', ['veal cutlet'], 'meat', [0, 0, 7, 31, 196], [['100g', 100]]),
+    food('bison', 'Ground Bison', ['bison', 'buffalo meat'], 'meat', [0, 0, 15, 24, 238], [['100g', 100], ['1 patty', 113]]),
+    food('venison', 'Venison', ['deer meat'], 'meat', [0, 0, 3.2, 30, 158], [['100g', 100]]),
+    food('lamb-chop', 'Lamb Chop', ['lamb', 'lamb chops', 'rack of lamb'], 'meat', [0, 0, 21, 25, 294], [['1 chop', 70], ['100g', 100]]),
+    food('ground-lamb', 'Ground Lamb', ['lamb mince', 'minced lamb'], 'meat', [0, 0, 19.7, 24.8, 283], [['100g', 100]]),
+    food('pork-chop', 'Pork Chop', ['pork loin', 'pork chops'], 'meat', [0, 0, 9, 27, 197], [['1 chop', 150], ['100g', 100]]),
+    food('pork-tenderloin', 'Pork Tenderloin', [], 'meat', [0, 0, 3.5, 26, 143], [['100g', 100]]),
+    food('pork-belly', 'Pork Belly', ['samgyeopsal'], 'meat', [0, 0, 53, 9.3, 518], [['100g', 100]]),
+    food('pulled-pork', 'Pulled Pork (No Sauce)', ['pork shoulder', 'carnitas', 'pulled pork'], 'meat', [0, 0, 15, 24, 240], [['1 cup', 140], ['100g', 100]]),
+    food('pork-ribs', 'Pork Ribs', ['spare ribs', 'baby back ribs', 'ribs'], 'meat', [0, 0, 30, 24, 361], [['1 rib', 45], ['100g', 100]]),
+    food('bacon', 'Bacon', ['bacon strip', 'streaky bacon'], 'meat', [1.4, 0, 42, 37, 541], [['1 slice', 8], ['100g', 100]], { description: 'High fat, moderate protein. Check for added sugars.' }),
+    food('canadian-bacon', 'Canadian Bacon', ['back bacon', 'peameal bacon'], 'meat', [1.8, 0, 3.9, 24, 146], [['1 slice', 23], ['100g', 100]]),
+    food('ham', 'Ham', ['deli ham', 'sliced ham', 'smoked ham'], 'meat', [1.5, 0, 5.5, 17, 122], [['1 slice', 28], ['100g', 100]]),
+    food('prosciutto', 'Prosciutto', ['parma ham', 'cured ham'], 'meat', [0.3, 0, 18, 26, 270], [['1 slice', 15], ['100g', 100]]),
+    food('pepperoni', 'Pepperoni', [], 'meat', [1.2, 0, 46.3, 19.3, 504], [['1 slice', 2], ['1 oz', 28]]),
+    food('salami', 'Salami', ['genoa salami', 'hard salami'], 'meat', [1.2, 0, 31, 21, 378], [['1 slice', 10], ['100g', 100]]),
+    food('pork-sausage', 'Pork Sausage', ['sausage', 'breakfast sausage', 'sausage link', 'bratwurst'], 'meat', [1.4, 0, 27, 18.5, 325], [['1 link', 45], ['100g', 100]]),
+    food('italian-sausage', 'Italian Sausage', [], 'meat', [2, 0, 27, 19, 330], [['1 link', 83], ['100g', 100]]),
+    food('chorizo', 'Chorizo', [], 'meat', [1.9, 0, 38, 24, 455], [['1 link', 60], ['100g', 100]]),
+    food('hot-dog', 'Hot Dog (Frank Only)', ['frankfurter', 'frank', 'wiener'], 'meat', [4, 0, 27, 11, 300], [['1 frank', 45], ['100g', 100]]),
+    food('meatballs', 'Meatballs', ['meatball', 'beef meatballs'], 'meat', [7.5, 0.5, 15, 17, 240], [['1 meatball', 30], ['100g', 100]]),
+
+    // ===== Poultry =====
+    food('chicken-breast', 'Chicken Breast', ['chicken', 'grilled chicken', 'chicken fillet', 'chicken breast fillet'], 'poultry', [0, 0, 3.6, 31, 165], [['1 breast', 172], ['100g', 100]]),
+    food('chicken-thigh', 'Chicken Thigh (Skin-On)', ['chicken thigh', 'chicken thighs'], 'poultry', [0, 0, 15.5, 24.8, 229], [['1 thigh', 90], ['100g', 100]]),
+    food('chicken-thigh-skinless', 'Chicken Thigh (Skinless)', ['skinless chicken thigh', 'boneless chicken thigh'], 'poultry', [0, 0, 8.2, 24.8, 179], [['1 thigh', 75], ['100g', 100]]),
+    food('chicken-wings', 'Chicken Wings', ['wings', 'chicken wing', 'buffalo wings', 'hot wings'], 'poultry', [0, 0, 19.5, 26.9, 290], [['1 wing', 32], ['100g', 100]]),
+    food('chicken-drumstick', 'Chicken Drumstick', ['drumstick', 'chicken leg'], 'poultry', [0, 0, 11.2, 27, 216], [['1 drumstick', 75], ['100g', 100]]),
+    food('roast-chicken', 'Roast Chicken', ['rotisserie chicken', 'whole chicken'], 'poultry', [0, 0, 11, 27, 210], [['100g', 100], ['1 cup', 140]]),
+    food('fried-chicken', 'Fried Chicken (Breaded)', ['fried chicken', 'crispy chicken', 'breaded chicken'], 'poultry', [8.5, 0.4, 13.2, 24.8, 260], [['1 piece', 140], ['100g', 100]]),
+    food('chicken-nuggets', 'Chicken Nuggets', ['nuggets', 'chicken nugget'], 'poultry', [14, 0.9, 18.8, 15.3, 296], [['1 nugget', 16], ['100g', 100]]),
+    food('chicken-tenders', 'Chicken Tenders (Breaded)', ['chicken strips', 'chicken fingers', 'chicken tender'], 'poultry', [15, 1, 14, 18, 270], [['1 piece', 45], ['100g', 100]]),
+    food('chicken-liver', 'Chicken Liver', ['chicken livers'], 'poultry', [0.7, 0, 6.5, 24, 167], [['100g', 100]]),
+    food('ground-turkey', 'Ground Turkey', ['turkey mince', 'minced turkey', 'turkey burger'], 'poultry', [0, 0, 10, 27, 203], [['100g', 100], ['1 patty', 113]]),
+    food('turkey-breast-deli', 'Turkey Breast (Deli)', ['deli turkey', 'sliced turkey', 'turkey slices'], 'poultry', [2.5, 0, 1.7, 17, 104], [['1 slice', 28], ['100g', 100]]),
+    food('roast-turkey', 'Roast Turkey', ['turkey', 'turkey breast'], 'poultry', [0, 0, 7, 29, 189], [['100g', 100], ['1 slice', 28]]),
+    food('duck', 'Roast Duck (Skin-On)', ['duck', 'duck breast', 'peking duck'], 'poultry', [0, 0, 28, 19, 337], [['100g', 100]]),
+
+    // ===== Seafood =====
+    food('salmon', 'Salmon', ['salmon fillet', 'grilled salmon', 'baked salmon', 'atlantic salmon'], 'seafood', [0, 0, 13, 20, 208], [['100g', 100], ['1 fillet', 170]], { description: 'Rich in Omega-3 fatty acids and high-quality protein.', confidence: 0.95 }),
+    food('smoked-salmon', 'Smoked Salmon', ['lox', 'nova salmon'], 'seafood', [0, 0, 4.3, 18.3, 117], [['1 oz', 28], ['100g', 100]]),
+    food('tuna-canned-water', 'Canned Tuna (in Water)', ['canned tuna', 'tuna', 'tinned tuna'], 'seafood', [0, 0, 0.8, 25.5, 116], [['1 can', 142], ['100g', 100]]),
+    food('tuna-canned-oil', 'Canned Tuna (in Oil)', ['tuna in oil'], 'seafood', [0, 0, 8.2, 29, 198], [['1 can', 142], ['100g', 100]]),
+    food('tuna-steak', 'Tuna Steak', ['ahi tuna', 'seared tuna', 'yellowfin tuna', 'tuna sashimi'], 'seafood', [0, 0, 1.3, 30, 140], [['100g', 100], ['1 steak', 170]]),
+    food('cod', 'Cod', ['cod fillet', 'white fish', 'haddock'], 'seafood', [0, 0, 0.9, 23, 105], [['1 fillet', 180], ['100g', 100]]),
+    food('tilapia', 'Tilapia', [], 'seafood', [0, 0, 2.7, 26, 128], [['1 fillet', 87], ['100g', 100]]),
+    food('halibut', 'Halibut', [], 'seafood', [0, 0, 2.9, 22.5, 111], [['1 fillet', 160], ['100g', 100]]),
+    food('trout', 'Trout', ['rainbow trout'], 'seafood', [0, 0, 8.5, 26.6, 190], [['1 fillet', 140], ['100g', 100]]),
+    food('mackerel', 'Mackerel', [], 'seafood', [0, 0, 17.8, 23.9, 262], [['1 fillet', 110], ['100g', 100]]),
+    food('sardines', 'Sardines (in Oil)', ['sardine', 'canned sardines'], 'seafood', [0, 0, 11.5, 24.6, 208], [['1 can', 92], ['100g', 100]]),
+    food('anchovies', 'Anchovies', ['anchovy'], 'seafood', [0, 0, 9.7, 28.9, 210], [['1 oz', 28], ['100g', 100]]),
+    food('shrimp', 'Shrimp', ['prawns', 'prawn', 'grilled shrimp', 'shrimp cocktail'], 'seafood', [0.2, 0, 0.3, 24, 99], [['100g', 100], ['1 shrimp', 6]]),
+    food('fried-shrimp', 'Fried Shrimp (Breaded)', ['breaded shrimp', 'tempura shrimp', 'coconut shrimp'], 'seafood', [11.1, 0.4, 12.3, 21.4, 242], [['1 shrimp', 12], ['100g', 100]]),
+    food('crab', 'Crab', ['crab meat', 'king crab', 'crab legs'], 'seafood', [0, 0, 1.5, 19, 97], [['100g', 100], ['1 cup', 135]]),
+    food('lobster', 'Lobster', ['lobster tail'], 'seafood', [0, 0, 0.9, 19, 89], [['1 tail', 145], ['100g', 100]]),
+    food('scallops', 'Scallops', ['scallop'], 'seafood', [5.4, 0, 0.8, 20.5, 111], [['1 scallop', 15], ['100g', 100]]),
+    food('mussels', 'Mussels', ['mussel'], 'seafood', [7.4, 0, 4.5, 24, 172], [['1 cup', 150], ['100g', 100]]),
+    food('oysters', 'Oysters', ['oyster'], 'seafood', [2.7, 0, 1.5, 5.9, 51], [['1 oyster', 14], ['100g', 100]]),
+    food('calamari-fried', 'Fried Calamari', ['calamari', 'fried squid', 'squid'], 'seafood', [7.8, 0, 7.5, 18, 175], [['1 cup', 110], ['100g', 100]]),
+    food('fish-sticks', 'Fish Sticks', ['fish fingers', 'breaded fish'], 'seafood', [21.5, 1.5, 12.4, 11.2, 249], [['1 stick', 28], ['100g', 100]]),
+    food('sushi-roll', 'Sushi Roll', ['sushi', 'california roll', 'maki', 'maki roll'], 'seafood', [17.5, 0.9, 3.7, 4, 129], [['1 piece', 30], ['1 roll', 180]]),
+
+    // ===== Eggs =====
+    food('egg', 'Egg', ['eggs', 'whole egg', 'chicken egg', 'poached egg'], 'eggs', [0.7, 0, 9.5, 12.6, 143], [['1 large', 50], ['1 medium', 44]], { description: 'Nutrient-dense with the perfect ratio of fat and protein.', confidence: 0.98 }),
+    food('egg-white', 'Egg White', ['egg whites'], 'eggs', [0.7, 0, 0.2, 10.9, 52], [['1 large', 33], ['1 cup', 243]]),
+    food('egg-yolk', 'Egg Yolk', ['egg yolks', 'yolk'], 'eggs', [3.6, 0, 26.5, 15.9, 322], [['1 large', 17]]),
+    food('scrambled-eggs', 'Scrambled Eggs', ['scrambled egg'], 'eggs', [1.6, 0, 11, 10, 149], [['1 cup', 220], ['100g', 100]]),
+    food('fried-egg', 'Fried Egg', ['sunny side up', 'over easy egg'], 'eggs', [0.8, 0, 14.8, 13.6, 196], [['1 large', 46], ['100g', 100]]),
+    food('boiled-egg', 'Boiled Egg', ['hard boiled egg', 'soft boiled egg', 'hard-boiled egg'], 'eggs', [1.1, 0, 10.6, 12.6, 155], [['1 large', 50], ['100g', 100]]),
+    food('omelette', 'Omelette', ['omelet', 'cheese omelette'], 'eggs', [0.6, 0, 12, 10.6, 154], [['1 omelette', 120], ['100g', 100]]),
+    food('deviled-eggs', 'Deviled Eggs', ['deviled egg'], 'eggs', [1.2, 0, 17, 9, 200], [['1 half', 30], ['100g', 100]]),
+    food('cloud-bread', 'Cloud Bread', ['oopsie bread', 'keto cloud bread'], 'eggs', [2, 0, 18, 11, 215], [['1 piece', 30], ['100g', 100]]),
+
+    // ===== Dairy =====
+    food('butter', 'Butter', ['salted butter', 'unsalted butter', 'garlic butter'], 'dairy', [0, 0, 81, 0.9, 717], [['1 tbsp', 14], ['1 tsp', 5], ['100g', 100]], { description: 'Pure fat source, zero carbs.', confidence: 0.99 }),
+    food('ghee', 'Ghee', ['clarified butter'], 'dairy', [0, 0, 99.5, 0.3, 876], [['1 tbsp', 13], ['100g', 100]]),
+    food('heavy-cream', 'Heavy Cream', ['heavy whipping cream', 'double cream', 'whipping cream', 'cream'], 'dairy', [2.7, 0, 36.1, 2.8, 340], [['1 tbsp', 15], ['1 cup', 238]]),
+    food('half-and-half', 'Half and Half', ['half & half', 'coffee cream', 'single cream'], 'dairy', [4.3, 0, 11.5, 3.1, 131], [['1 tbsp', 15], ['1 cup', 242]]),
+    food('sour-cream', 'Sour Cream', [], 'dairy', [4.6, 0, 19.4, 2.4, 198], [['1 tbsp', 12], ['1 cup', 230]]),
+    food('cream-cheese', 'Cream Cheese', ['philadelphia'], 'dairy', [4.1, 0, 34.2, 5.9, 342], [['1 tbsp', 14.5], ['1 oz', 28]]),
+    food('whipped-cream', 'Whipped Cream', ['whipped topping', 'cool whip'], 'dairy', [12.5, 0, 22.2, 3.2, 257], [['1 tbsp', 4], ['1 cup', 60]]),
+    food('whole-milk', 'Whole Milk', ['milk', 'full fat milk'], 'dairy', [4.8, 0, 3.3, 3.2, 61], [['1 cup', 244], ['100ml', 103]]),
+    food('skim-milk', 'Skim Milk', ['nonfat milk', 'fat free milk', 'low fat milk'], 'dairy', [5, 0, 0.1, 3.4, 34], [['1 cup', 245]]),
+    food('greek-yogurt', 'Greek Yogurt (Plain, Whole)', ['greek yogurt', 'plain greek yogurt', 'strained yogurt'], 'dairy', [4, 0, 5, 9, 97], [['1 cup', 227], ['100g', 100]]),
+    food('greek-yogurt-nonfat', 'Greek Yogurt (Plain, Nonfat)', ['nonfat greek yogurt', '0% greek yogurt'], 'dairy', [3.6, 0, 0.4, 10.3, 59], [['1 cup', 227], ['100g', 100]]),
+    food('yogurt-plain', 'Yogurt (Plain, Whole)', ['yogurt', 'plain yogurt', 'natural yogurt', 'yoghurt'], 'dairy', [4.7, 0, 3.3, 3.5, 61], [['1 cup', 245], ['100g', 100]]),
+    food('yogurt-fruit', 'Fruit Yogurt', ['flavored yogurt', 'strawberry yogurt', 'vanilla yogurt'], 'dairy', [18.6, 0, 1.4, 4.4, 99], [['1 container', 170], ['100g', 100]]),
+    food('cottage-cheese', 'Cottage Cheese', [], 'dairy', [3.4, 0, 4.3, 11.1, 98], [['1 cup', 226], ['100g', 100]]),
+    food('ricotta', 'Ricotta', ['ricotta cheese'], 'dairy', [3, 0, 13, 11.3, 174], [['1 cup', 246], ['100g', 100]]),
+    food('mascarpone', 'Mascarpone', [], 'dairy', [3, 0, 44, 4.8, 429], [['1 tbsp', 15], ['100g', 100]]),
+    food('cheddar', 'Cheddar Cheese', ['cheddar', 'cheese', 'sharp cheddar', 'shredded cheese'], 'dairy', [1.3, 0, 33.1, 24.9, 403], [['1 oz', 28], ['1 slice', 21], ['1 cup', 113]]),
+    food('mozzarella', 'Mozzarella', ['mozzarella cheese', 'fresh mozzarella', 'burrata'], 'dairy', [2.2, 0, 22.4, 22.2, 300], [['1 oz', 28], ['1 cup', 112]]),
+    food('string-cheese', 'String Cheese', ['cheese stick', 'part skim mozzarella'], 'dairy', [2.8, 0, 16, 24.3, 254], [['1 stick', 28]]),
+    food('parmesan', 'Parmesan', ['parmesan cheese', 'parmigiano', 'parmigiano reggiano', 'grated parmesan'], 'dairy', [3.2, 0, 25.8, 35.8, 392], [['1 tbsp', 5], ['1 oz', 28]]),
+    food('swiss-cheese', 'Swiss Cheese', ['swiss', 'emmental', 'gruyere'], 'dairy', [1.5, 0, 27.8, 27, 380], [['1 slice', 28], ['1 oz', 28]]),
+    food('provolone', 'Provolone', ['provolone cheese'], 'dairy', [2.1, 0, 26.6, 25.6, 351], [['1 slice', 28]]),
+    food('monterey-jack', 'Monterey Jack', ['pepper jack', 'jack cheese', 'colby jack'], 'dairy', [0.7, 0, 30.3, 24.5, 373], [['1 oz', 28], ['1 slice', 21]]),
+    food('american-cheese', 'American Cheese', ['processed cheese', 'cheese slice', 'kraft single'], 'dairy', [4.8, 0, 31, 18, 375], [['1 slice', 21]]),
+    food('brie', 'Brie', ['camembert', 'brie cheese'], 'dairy', [0.5, 0, 27.7, 20.8, 334], [['1 oz', 28]]),
+    food('feta', 'Feta', ['feta cheese'], 'dairy', [4.1, 0, 21.3, 14.2, 264], [['1 oz', 28], ['1 cup', 150]]),
+    food('goat-cheese', 'Goat Cheese', ['chevre', 'goats cheese'], 'dairy', [0.9, 0, 21.1, 18.5, 264], [['1 oz', 28]]),
+    food('blue-cheese', 'Blue Cheese', ['gorgonzola', 'roquefort', 'stilton'], 'dairy', [2.3, 0, 28.7, 21.4, 353], [['1 oz', 28]]),
+    food('halloumi', 'Halloumi', [], 'dairy', [2.2, 0, 25, 21, 321], [['1 slice', 30], ['100g', 100]]),
+    food('ice-cream', 'Ice Cream', ['vanilla ice cream', 'chocolate ice cream', 'gelato'], 'dairy', [23.6, 0.7, 11, 3.5, 207], [['1 scoop', 66], ['1 cup', 132]]),
+    food('milkshake', 'Milkshake', ['shake', 'vanilla milkshake'], 'dairy', [17.8, 0.3, 3, 3.9, 112], [['1 cup', 227]]),
+
+    // ===== Vegetables =====
+    food('spinach', 'Spinach', ['baby spinach', 'raw spinach'], 'vegetables', [1.4, 2.2, 0.4, 2.9, 23], [['1 cup raw', 30], ['100g', 100]], { description: 'Low-carb leafy green, high in potassium and magnesium.', confidence: 0.98 }),
+    food('spinach-cooked', 'Cooked Spinach', ['sauteed spinach', 'creamed spinach base'], 'vegetables', [1.4, 2.4, 0.3, 3, 23], [['1 cup', 180]]),
+    food('kale', 'Kale', ['baby kale'], 'vegetables', [0.3, 4.1, 1.5, 2.9, 35], [['1 cup', 21], ['100g', 100]]),
+    food('broccoli', 'Broccoli', ['broccoli florets', 'steamed broccoli'], 'vegetables', [4, 2.6, 0.4, 2.8, 34], [['1 cup', 91], ['100g', 100]]),
+    food('cauliflower', 'Cauliflower', ['cauliflower florets', 'roasted cauliflower'], 'vegetables', [3, 2, 0.3, 1.9, 25], [['1 cup', 107], ['100g', 100]]),
+    food('cauliflower-rice', 'Cauliflower Rice', ['riced cauliflower', 'cauli rice'], 'vegetables', [2.9, 2, 0.3, 1.9, 25], [['1 cup', 107], ['100g', 100]]),
+    food('riced-broccoli', 'Riced Broccoli', ['broccoli rice'], 'vegetables', [4, 2.6, 0.4, 2.8, 34], [['1 cup', 91]]),
+    food('mashed-cauliflower', 'Mashed Cauliflower', ['cauliflower mash', 'cauliflower puree'], 'vegetables', [3.5, 2, 6, 2, 75], [['1 cup', 200]]),
+    food('zucchini', 'Zucchini', ['courgette', 'summer squash'], 'vegetables', [2.1, 1, 0.3, 1.2, 17], [['1 medium', 196], ['1 cup', 124]]),
+    food('zucchini-noodles', 'Zucchini Noodles', ['zoodles', 'zucchini spaghetti', 'courgetti'], 'vegetables', [2.1, 1, 0.3, 1.2, 17], [['1 cup', 124]]),
+    food('spaghetti-squash', 'Spaghetti Squash', [], 'vegetables', [5.1, 1.4, 0.3, 0.7, 27], [['1 cup', 155]]),
+    food('shirataki', 'Shirataki Noodles', ['konjac noodles', 'miracle noodles', 'shirataki'], 'vegetables', [0, 3, 0, 0, 9], [['1 package', 200], ['100g', 100]]),
+    food('asparagus', 'Asparagus', ['asparagus spears'], 'vegetables', [1.8, 2.1, 0.1, 2.2, 20], [['1 spear', 16], ['1 cup', 134]]),
+    food('green-beans', 'Green Beans', ['string beans', 'french beans', 'haricots verts'], 'vegetables', [4.3, 2.7, 0.2, 1.8, 31], [['1 cup', 110]]),
+    food('brussels-sprouts', 'Brussels Sprouts', ['brussel sprouts', 'sprouts'], 'vegetables', [5.1, 3.8, 0.3, 3.4, 43], [['1 cup', 88], ['1 sprout', 19]]),
+    food('cabbage', 'Cabbage', ['green cabbage', 'white cabbage'], 'vegetables', [3.3, 2.5, 0.1, 1.3, 25], [['1 cup', 89]]),
+    food('red-cabbage', 'Red Cabbage', ['purple cabbage'], 'vegetables', [5.3, 2.1, 0.2, 1.4, 31], [['1 cup', 89]]),
+    food('romaine', 'Romaine Lettuce', ['romaine', 'lettuce', 'cos lettuce'], 'vegetables', [1.2, 2.1, 0.3, 1.2, 17], [['1 cup', 47], ['1 leaf', 6]]),
+    food('iceberg', 'Iceberg Lettuce', ['iceberg'], 'vegetables', [1.8, 1.2, 0.1, 0.9, 14], [['1 cup', 72], ['1 leaf', 8]]),
+    food('lettuce-wrap', 'Lettuce Wrap', ['lettuce wraps', 'lettuce bun'], 'vegetables', [1.2, 2.1, 0.3, 1.2, 17], [['1 wrap', 20]]),
+    food('mixed-greens', 'Mixed Greens', ['salad greens', 'spring mix', 'mesclun', 'leafy greens'], 'vegetables', [1.6, 2, 0.2, 1.5, 17], [['1 cup', 30], ['100g', 100]]),
+    food('arugula', 'Arugula', ['rocket'], 'vegetables', [2.1, 1.6, 0.7, 2.6, 25], [['1 cup', 20]]),
+    food('cucumber', 'Cucumber', ['cucumbers'], 'vegetables', [3.1, 0.5, 0.1, 0.7, 15], [['1 cup', 119], ['1 medium', 201]]),
+    food('celery', 'Celery', ['celery sticks', 'celery stalk'], 'vegetables', [1.4, 1.6, 0.2, 0.7, 16], [['1 stalk', 40], ['1 cup', 101]]),
+    food('green-pepper', 'Green Bell Pepper', ['green pepper', 'bell pepper', 'capsicum'], 'vegetables', [2.9, 1.7, 0.2, 0.9, 20], [['1 medium', 119], ['1 cup', 149]]),
+    food('red-pepper', 'Red Bell Pepper', ['red pepper', 'yellow pepper', 'orange pepper', 'roasted red pepper'], 'vegetables', [3.9, 2.1, 0.3, 1, 31], [['1 medium', 119], ['1 cup', 149]]),
+    food('jalapeno', 'Jalapeño', ['jalapeno', 'chili pepper', 'chilli', 'hot pepper'], 'vegetables', [3.7, 2.8, 0.4, 0.9, 29], [['1 pepper', 14]]),
+    food('tomato', 'Tomato', ['tomatoes', 'sliced tomato', 'roma tomato'], 'vegetables', [2.7, 1.2, 0.2, 0.9, 18], [['1 medium', 123], ['1 slice', 20], ['1 cup', 180]]),
+    food('cherry-tomatoes', 'Cherry Tomatoes', ['grape tomatoes', 'cherry tomato'], 'vegetables', [2.7, 1.2, 0.2, 0.9, 18], [['1 tomato', 17], ['1 cup', 149]]),
+    food('onion', 'Onion', ['onions', 'white onion', 'red onion', 'yellow onion'], 'vegetables', [7.6, 1.7, 0.1, 1.1, 40], [['1 medium', 110], ['1 cup', 160], ['1 slice', 14]]),
+    food('caramelized-onions', 'Caramelized Onions', ['fried onions', 'sauteed onions'], 'vegetables', [12, 2.2, 5, 1.4, 100], [['1 tbsp', 15], ['1 cup', 210]]),
+    food('green-onion', 'Green Onion', ['scallion', 'scallions', 'spring onion'], 'vegetables', [4.7, 2.6, 0.2, 1.8, 32], [['1 tbsp', 6], ['1 cup', 100]]),
+    food('garlic', 'Garlic', ['garlic clove', 'minced garlic'], 'vegetables', [31, 2.1, 0.5, 6.4, 149], [['1 clove', 3], ['1 tsp', 3]]),
+    food('mushrooms', 'Mushrooms', ['mushroom', 'white mushrooms', 'button mushrooms', 'sauteed mushrooms', 'cremini'], 'vegetables', [2.3, 1, 0.3, 3.1, 22], [['1 cup', 70], ['100g', 100]]),
+    food('portobello', 'Portobello Mushroom', ['portobello', 'portabella'], 'vegetables', [2.6, 1.3, 0.4, 2.1, 22], [['1 cap', 85]]),
+    food('eggplant', 'Eggplant', ['aubergine', 'brinjal'], 'vegetables', [2.9, 3, 0.2, 1, 25], [['1 cup', 82], ['100g', 100]]),
+    food('avocado', 'Avocado', ['avocados', 'sliced avocado', 'haas avocado'], 'vegetables', [1.8, 6.7, 14.7, 2, 160], [['1/2 medium', 100], ['1 medium', 200], ['1 slice', 15]], { description: 'Perfect keto superfood, high in healthy monounsaturated fats.', confidence: 0.95 }),
+    food('guacamole', 'Guacamole', ['guac'], 'condiments', [3.3, 6, 14, 2, 157], [['2 tbsp', 30], ['1 cup', 230]]),
+    food('green-olives', 'Green Olives', ['olives', 'green olive', 'castelvetrano'], 'vegetables', [0.5, 3.3, 15.3, 1, 145], [['1 olive', 3], ['100g', 100]]),
+    food('black-olives', 'Black Olives', ['black olive', 'kalamata olives', 'kalamata'], 'vegetables', [3.1, 3.2, 10.7, 0.8, 115], [['1 olive', 4], ['100g', 100]]),
+    food('pickles', 'Dill Pickles', ['pickle', 'gherkin', 'dill pickle'], 'vegetables', [1.4, 1, 0.2, 0.5, 12], [['1 spear', 35], ['1 medium', 65]]),
+    food('sauerkraut', 'Sauerkraut', [], 'vegetables', [1.4, 2.9, 0.1, 0.9, 19], [['1 cup', 142], ['2 tbsp', 30]]),
+    food('kimchi', 'Kimchi', [], 'vegetables', [0.8, 1.6, 0.5, 1.1, 15], [['1 cup', 150]]),
+    food('radish', 'Radish', ['radishes', 'daikon'], 'vegetables', [1.8, 1.6, 0.1, 0.7, 16], [['1 medium', 4.5], ['1 cup', 116]]),
+    food('turnip', 'Turnip', ['turnips', 'mashed turnip'], 'vegetables', [4.6, 1.8, 0.1, 0.9, 28], [['1 medium', 122], ['1 cup', 130]]),
+    food('bok-choy', 'Bok Choy', ['pak choi', 'chinese cabbage'], 'vegetables', [1.2, 1, 0.2, 1.5, 13], [['1 cup', 70]]),
+    food('collard-greens', 'Collard Greens', ['collards'], 'vegetables', [1.4, 4, 0.6, 3, 32], [['1 cup', 36]]),
+    food('swiss-chard', 'Swiss Chard', ['chard'], 'vegetables', [2.1, 1.6, 0.2, 1.8, 19], [['1 cup', 36]]),
+    food('artichoke', 'Artichoke Hearts', ['artichoke', 'artichokes'], 'vegetables', [3.3, 8.6, 0.3, 2.9, 53], [['1 cup', 168], ['1 heart', 30]]),
+    food('okra', 'Okra', ['ladies fingers'], 'vegetables', [4.3, 3.2, 0.2, 1.9, 33], [['1 cup', 100]]),
+    food('leeks', 'Leeks', ['leek'], 'vegetables', [12.4, 1.8, 0.3, 1.5, 61], [['1 cup', 89]]),
+    food('fennel', 'Fennel', ['fennel bulb'], 'vegetables', [4.2, 3.1, 0.2, 1.2, 31], [['1 cup', 87]]),
+    food('bean-sprouts', 'Bean Sprouts', ['mung bean sprouts'], 'vegetables', [4.1, 1.8, 0.2, 3, 30], [['1 cup', 104]]),
+    food('hearts-of-palm', 'Hearts of Palm', ['palm hearts'], 'vegetables', [2.6, 2.4, 0.6, 2.5, 28], [['1 cup', 146]]),
+    food('snow-peas', 'Snow Peas', ['snap peas', 'sugar snap peas', 'mangetout'], 'vegetables', [4.8, 2.6, 0.2, 2.8, 42], [['1 cup', 63]]),
+    food('carrots', 'Carrots', ['carrot', 'baby carrots', 'shredded carrot'], 'vegetables', [6.8, 2.8, 0.2, 0.9, 41], [['1 medium', 61], ['1 cup', 128]]),
+    food('beets', 'Beets', ['beet', 'beetroot'], 'vegetables', [6.8, 2.8, 0.2, 1.6, 43], [['1 medium', 82], ['1 cup', 136]]),
+    food('butternut-squash', 'Butternut Squash', ['squash', 'winter squash'], 'vegetables', [9.7, 2, 0.1, 1, 45], [['1 cup', 140]]),
+    food('pumpkin', 'Pumpkin', ['pumpkin puree'], 'vegetables', [6.5, 0.5, 0.1, 1, 26], [['1 cup', 245]]),
+    food('corn', 'Sweet Corn', ['corn', 'corn on the cob', 'corn kernels', 'maize'], 'vegetables', [18.7, 2.4, 1.5, 3.4, 96], [['1 ear', 103], ['1 cup', 145]]),
+    food('peas', 'Green Peas', ['peas', 'garden peas'], 'vegetables', [10.1, 5.5, 0.2, 5.4, 84], [['1 cup', 160]]),
+    food('potato', 'Potato', ['potatoes', 'baked potato', 'boiled potato', 'jacket potato'], 'vegetables', [19, 2.2, 0.1, 2.5, 93], [['1 medium', 173], ['1 cup', 156]]),
+    food('sweet-potato', 'Sweet Potato', ['sweet potatoes', 'yam', 'baked sweet potato'], 'vegetables', [17.4, 3.3, 0.2, 2, 90], [['1 medium', 114], ['1 cup', 200]]),
+    food('mashed-potatoes', 'Mashed Potatoes', ['mashed potato', 'potato mash'], 'vegetables', [15, 1.5, 4.2, 1.9, 113], [['1 cup', 210]]),
+    food('french-fries', 'French Fries', ['fries', 'chips', 'potato fries', 'hot chips'], 'vegetables', [37.6, 3.8, 15, 3.4, 312], [['1 medium', 117], ['1 large', 154], ['1 small', 71]]),
+    food('hash-browns', 'Hash Browns', ['hash brown', 'potato rosti'], 'vegetables', [31.8, 3.2, 12.5, 3, 265], [['1 patty', 56], ['1 cup', 156]]),
+    food('tofu', 'Tofu (Firm)', ['tofu', 'bean curd', 'firm tofu'], 'legumes', [0.5, 2.3, 8.7, 17.3, 144], [['1 cup', 252], ['100g', 100]]),
+    food('tempeh', 'Tempeh', [], 'legumes', [7.6, 0, 10.8, 20.3, 192], [['1 cup', 166], ['100g', 100]]),
+
+    // ===== Fruits =====
+    food('strawberries', 'Strawberries', ['strawberry'], 'fruits', [5.7, 2, 0.3, 0.7, 32], [['1 cup', 152], ['1 medium', 12]]),
+    food('raspberries', 'Raspberries', ['raspberry'], 'fruits', [5.4, 6.5, 0.7, 1.2, 52], [['1 cup', 123]]),
+    food('blackberries', 'Blackberries', ['blackberry'], 'fruits', [4.3, 5.3, 0.5, 1.4, 43], [['1 cup', 144]]),
+    food('blueberries', 'Blueberries', ['blueberry'], 'fruits', [12.1, 2.4, 0.3, 0.7, 57], [['1 cup', 148]]),
+    food('apple', 'Apple', ['apples', 'apple slices'], 'fruits', [11.4, 2.4, 0.2, 0.3, 52], [['1 medium', 182], ['1 cup', 125]]),
+    food('banana', 'Banana', ['bananas'], 'fruits', [20.2, 2.6, 0.3, 1.1, 89], [['1 medium', 118], ['1 cup', 150]]),
+    food('orange', 'Orange', ['oranges', 'mandarin', 'clementine', 'tangerine'], 'fruits', [9.4, 2.4, 0.1, 0.9, 47], [['1 medium', 131]]),
+    food('grapes', 'Grapes', ['grape'], 'fruits', [16.3, 0.9, 0.2, 0.7, 69], [['1 cup', 151], ['1 grape', 5]]),
+    food('mango', 'Mango', ['mangoes'], 'fruits', [13.4, 1.6, 0.4, 0.8, 60], [['1 cup', 165]]),
+    food('pineapple', 'Pineapple', [], 'fruits', [11.7, 1.4, 0.1, 0.5, 50], [['1 cup', 165], ['1 slice', 84]]),
+    food('watermelon', 'Watermelon', [], 'fruits', [7.2, 0.4, 0.2, 0.6, 30], [['1 cup', 152], ['1 wedge', 286]]),
+    food('cantaloupe', 'Cantaloupe', ['melon', 'honeydew', 'rockmelon'], 'fruits', [7.3, 0.9, 0.2, 0.8, 34], [['1 cup', 160]]),
+    food('peach', 'Peach', ['peaches', 'nectarine'], 'fruits', [8, 1.5, 0.3, 0.9, 39], [['1 medium', 150]]),
+    food('pear', 'Pear', ['pears'], 'fruits', [12.1, 3.1, 0.1, 0.4, 57], [['1 medium', 178]]),
+    food('cherries', 'Cherries', ['cherry'], 'fruits', [14, 2.1, 0.2, 1.1, 63], [['1 cup', 138]]),
+    food('kiwi', 'Kiwi', ['kiwifruit', 'kiwi fruit'], 'fruits', [11.7, 3, 0.5, 1.1, 61], [['1 medium', 69]]),
+    food('grapefruit', 'Grapefruit', [], 'fruits', [9.1, 1.6, 0.1, 0.8, 42], [['1/2 medium', 123]]),
+    food('pomegranate', 'Pomegranate', ['pomegranate seeds', 'pomegranate arils'], 'fruits', [14.7, 4, 1.2, 1.7, 83], [['1/2 cup', 87]]),
+    food('lemon', 'Lemon', ['lemons', 'lemon wedge', 'lemon juice'], 'fruits', [6.5, 2.8, 0.3, 1.1, 29], [['1 wedge', 7], ['1 tbsp', 15]]),
+    food('lime', 'Lime', ['limes', 'lime wedge', 'lime juice'], 'fruits', [7.7, 2.8, 0.2, 0.7, 30], [['1 wedge', 7], ['1 tbsp', 15]]),
+    food('coconut', 'Coconut Meat', ['coconut', 'fresh coconut'], 'fruits', [6.2, 9, 33.5, 3.3, 354], [['1 cup', 80]]),
+    food('dates', 'Dates', ['medjool dates', 'date'], 'fruits', [68.3, 6.7, 0.2, 1.8, 277], [['1 date', 24]]),
+    food('raisins', 'Raisins', ['raisin', 'sultanas'], 'fruits', [75.5, 3.7, 0.5, 3.1, 299], [['1 tbsp', 9], ['1 box', 43]]),
+    food('dried-cranberries', 'Dried Cranberries', ['craisins', 'dried fruit'], 'fruits', [77, 5.3, 1.1, 0.2, 308], [['1 tbsp', 10], ['1/4 cup', 40]]),
+
+    // ===== Nuts & Seeds =====
+    food('almonds', 'Almonds', ['almond', 'roasted almonds'], 'nuts_seeds', [9.1, 12.5, 49.9, 21.2, 579], [['1 oz', 28], ['1 cup', 143]]),
+    food('walnuts', 'Walnuts', ['walnut'], 'nuts_seeds', [7, 6.7, 65.2, 15.2, 654], [['1 oz', 28], ['1 cup', 117]]),
+    food('pecans', 'Pecans', ['pecan'], 'nuts_seeds', [4.3, 9.6, 72, 9.2, 691], [['1 oz', 28], ['1 cup', 99]]),
+    food('macadamia', 'Macadamia Nuts', ['macadamia', 'macadamias'], 'nuts_seeds', [5.2, 8.6, 75.8, 7.9, 718], [['1 oz', 28]]),
+    food('brazil-nuts', 'Brazil Nuts', ['brazil nut'], 'nuts_seeds', [4.2, 7.5, 67.1, 14.3, 659], [['1 nut', 5], ['1 oz', 28]]),
+    food('hazelnuts', 'Hazelnuts', ['hazelnut', 'filberts'], 'nuts_seeds', [7, 9.7, 60.8, 15, 628], [['1 oz', 28]]),
+    food('pine-nuts', 'Pine Nuts', ['pignoli'], 'nuts_seeds', [9.4, 3.7, 68.4, 13.7, 673], [['1 tbsp', 8.6], ['1 oz', 28]]),
+    food('peanuts', 'Peanuts', ['peanut', 'roasted peanuts'], 'nuts_seeds', [7.6, 8.5, 49.2, 25.8, 567], [['1 oz', 28], ['1 cup', 146]]),
+    food('cashews', 'Cashews', ['cashew', 'cashew nuts'], 'nuts_seeds', [26.9, 3.3, 43.9, 18.2, 553], [['1 oz', 28], ['1 cup', 137]]),
+    food('pistachios', 'Pistachios', ['pistachio'], 'nuts_seeds', [16.6, 10.6, 45.3, 20.2, 560], [['1 oz', 28], ['1 cup', 123]]),
+    food('mixed-nuts', 'Mixed Nuts', ['nuts', 'nut mix'], 'nuts_seeds', [12, 9, 54, 20, 607], [['1 oz', 28], ['1 cup', 137]]),
+    food('trail-mix', 'Trail Mix', ['scroggin'], 'sweets_snacks', [40, 5, 29.4, 13.8, 462], [['1/4 cup', 38], ['1 oz', 28]]),
+    food('peanut-butter', 'Peanut Butter', ['pb'], 'nuts_seeds', [14, 6, 50, 25, 588], [['1 tbsp', 16], ['2 tbsp', 32]]),
+    food('almond-butter', 'Almond Butter', [], 'nuts_seeds', [8.5, 10.3, 55.5, 21, 614], [['1 tbsp', 16]]),
+    food('sunflower-seeds', 'Sunflower Seeds', ['sunflower seed'], 'nuts_seeds', [11.4, 8.6, 51.5, 20.8, 584], [['1 oz', 28], ['1 tbsp', 9]]),
+    food('pumpkin-seeds', 'Pumpkin Seeds', ['pepitas', 'pumpkin seed'], 'nuts_seeds', [4.7, 6, 49, 30.2, 559], [['1 oz', 28], ['1 tbsp', 8]]),
+    food('chia-seeds', 'Chia Seeds', ['chia', 'chia pudding base'], 'nuts_seeds', [7.7, 34.4, 30.7, 16.5, 486], [['1 tbsp', 12], ['1 oz', 28]]),
+    food('flaxseed', 'Flaxseed', ['flax seeds', 'ground flax', 'linseed', 'flax meal'], 'nuts_seeds', [1.6, 27.3, 42.2, 18.3, 534], [['1 tbsp', 7], ['1 oz', 28]]),
+    food('hemp-hearts', 'Hemp Hearts', ['hemp seeds', 'hulled hemp'], 'nuts_seeds', [4.7, 4, 48.8, 31.6, 553], [['1 tbsp', 10]]),
+    food('sesame-seeds', 'Sesame Seeds', ['sesame'], 'nuts_seeds', [11.7, 11.8, 49.7, 17.7, 573], [['1 tbsp', 9]]),
+    food('tahini', 'Tahini', ['sesame paste'], 'nuts_seeds', [11.9, 9.3, 53.8, 17, 595], [['1 tbsp', 15]]),
+    food('almond-flour', 'Almond Flour', ['almond meal', 'ground almonds'], 'nuts_seeds', [10.7, 10.7, 53.6, 21.4, 607], [['1/4 cup', 28], ['1 cup', 112]]),
+    food('coconut-flour', 'Coconut Flour', [], 'nuts_seeds', [21, 38.5, 15, 19, 400], [['1 tbsp', 7], ['1/4 cup', 28]]),
+    food('coconut-flakes', 'Unsweetened Coconut Flakes', ['coconut flakes', 'desiccated coconut', 'shredded coconut'], 'nuts_seeds', [7.4, 16.3, 64.5, 6.9, 660], [['1 tbsp', 5], ['1 oz', 28]]),
+
+    // ===== Fats & Oils =====
+    food('olive-oil', 'Olive Oil', ['extra virgin olive oil', 'evoo'], 'fats_oils', [0, 0, 100, 0, 884], [['1 tbsp', 13.5], ['1 tsp', 4.5]], { description: 'Heart-healthy fat, perfect for dressing.', confidence: 1.0 }),
+    food('coconut-oil', 'Coconut Oil', [], 'fats_oils', [0, 0, 99.1, 0, 892], [['1 tbsp', 13.6]]),
+    food('avocado-oil', 'Avocado Oil', [], 'fats_oils', [0, 0, 100, 0, 884], [['1 tbsp', 14]]),
+    food('mct-oil', 'MCT Oil', ['mct'], 'fats_oils', [0, 0, 100, 0, 833], [['1 tbsp', 14]]),
+    food('vegetable-oil', 'Vegetable Oil', ['canola oil', 'sunflower oil', 'soybean oil', 'cooking oil', 'seed oil'], 'fats_oils', [0, 0, 100, 0, 884], [['1 tbsp', 14]]),
+    food('sesame-oil', 'Sesame Oil', [], 'fats_oils', [0, 0, 100, 0, 884], [['1 tbsp', 13.6], ['1 tsp', 4.5]]),
+    food('lard', 'Lard', ['beef tallow', 'tallow', 'duck fat', 'bacon grease'], 'fats_oils', [0, 0, 100, 0, 902], [['1 tbsp', 13]]),
+    food('mayonnaise', 'Mayonnaise', ['mayo', 'aioli'], 'condiments', [0.6, 0, 74.9, 1, 680], [['1 tbsp', 13.8]]),
+
+    // ===== Condiments, Sauces & Dressings =====
+    food('ranch', 'Ranch Dressing', ['ranch'], 'condiments', [5.9, 0, 44.5, 1.3, 430], [['2 tbsp', 30], ['1 tbsp', 15]]),
+    food('caesar-dressing', 'Caesar Dressing', [], 'condiments', [3.3, 0, 57.9, 2.2, 542], [['2 tbsp', 30]]),
+    food('blue-cheese-dressing', 'Blue Cheese Dressing', [], 'condiments', [4.8, 0, 51, 1.4, 484], [['2 tbsp', 30]]),
+    food('italian-dressing', 'Italian Dressing', [], 'condiments', [12, 0, 21, 0.4, 240], [['2 tbsp', 30]]),
+    food('vinaigrette', 'Vinaigrette', ['balsamic vinaigrette', 'salad dressing', 'oil and vinegar'], 'condiments', [11, 0, 28, 0.2, 290], [['2 tbsp', 30]]),
+    food('thousand-island', 'Thousand Island Dressing', ['big mac sauce', 'special sauce'], 'condiments', [13.8, 0.8, 35, 1.1, 379], [['2 tbsp', 32]]),
+    food('ketchup', 'Ketchup', ['catsup', 'tomato ketchup'], 'condiments', [27.1, 0.3, 0.1, 1, 101], [['1 tbsp', 17]]),
+    food('mustard', 'Mustard', ['yellow mustard', 'dijon mustard', 'dijon'], 'condiments', [1.8, 4, 3.3, 3.7, 60], [['1 tsp', 5], ['1 tbsp', 15]]),
+    food('hot-sauce', 'Hot Sauce', ['tabasco', 'buffalo sauce', 'franks red hot'], 'condiments', [1.4, 0.3, 0.4, 0.5, 11], [['1 tsp', 5], ['1 tbsp', 15]]),
+    food('sriracha', 'Sriracha', [], 'condiments', [17, 2.2, 0.9, 1.9, 93], [['1 tsp', 6]]),
+    food('soy-sauce', 'Soy Sauce', ['tamari', 'shoyu'], 'condiments', [4.1, 0.8, 0.6, 8.1, 53], [['1 tbsp', 16]]),
+    food('fish-sauce', 'Fish Sauce', ['nam pla'], 'condiments', [3.6, 0, 0, 5.1, 35], [['1 tbsp', 18]]),
+    food('bbq-sauce', 'BBQ Sauce', ['barbecue sauce', 'barbeque sauce'], 'condiments', [39.9, 0.9, 0.6, 0.8, 172], [['1 tbsp', 17], ['2 tbsp', 34]]),
+    food('teriyaki-sauce', 'Teriyaki Sauce', ['teriyaki glaze', 'teriyaki'], 'condiments', [15.5, 0.1, 0, 5.9, 89], [['1 tbsp', 18]]),
+    food('sweet-chili-sauce', 'Sweet Chili Sauce', ['sweet chilli sauce'], 'condiments', [50, 1, 0.3, 0.4, 210], [['1 tbsp', 19]]),
+    food('salsa', 'Salsa', ['pico de gallo', 'tomato salsa'], 'condiments', [4.7, 1.9, 0.2, 1.5, 36], [['2 tbsp', 32], ['1 cup', 259]]),
+    food('marinara', 'Marinara Sauce', ['tomato sauce', 'pasta sauce', 'spaghetti sauce', 'pizza sauce'], 'condiments', [6.1, 1.9, 1.5, 1.4, 50], [['1/2 cup', 125], ['1 cup', 250]]),
+    food('alfredo-sauce', 'Alfredo Sauce', ['alfredo', 'cream sauce', 'white sauce'], 'condiments', [3, 0.3, 17.5, 2.6, 182], [['1/4 cup', 62], ['1/2 cup', 125]]),
+    food('cheese-sauce', 'Cheese Sauce', ['nacho cheese', 'queso'], 'condiments', [6.5, 0.4, 14, 6.5, 176], [['1/4 cup', 63]]),
+    food('pesto', 'Pesto', ['basil pesto'], 'condiments', [4.2, 1.6, 45.3, 5.1, 458], [['1 tbsp', 16]]),
+    food('gravy', 'Gravy', ['brown gravy', 'beef gravy', 'turkey gravy'], 'condiments', [4.4, 0.4, 2.4, 3.8, 53], [['1/4 cup', 58], ['1 cup', 233]]),
+    food('hummus', 'Hummus', ['houmous', 'hommus'], 'condiments', [8.3, 6, 9.6, 7.9, 166], [['2 tbsp', 30], ['1/4 cup', 62]]),
+    food('tzatziki', 'Tzatziki', ['cucumber yogurt sauce'], 'condiments', [3.6, 0.2, 6.5, 3.5, 92], [['2 tbsp', 30]]),
+    food('honey', 'Honey', [], 'condiments', [82.2, 0.2, 0, 0.3, 304], [['1 tbsp', 21], ['1 tsp', 7]]),
+    food('maple-syrup', 'Maple Syrup', ['syrup', 'pancake syrup'], 'condiments', [67, 0, 0.1, 0, 260], [['1 tbsp', 20]]),
+    food('sugar', 'Sugar', ['white sugar', 'granulated sugar', 'table sugar', 'brown sugar'], 'condiments', [100, 0, 0, 0, 387], [['1 tsp', 4], ['1 tbsp', 12.5]]),
+    food('jam', 'Jam', ['jelly', 'preserves', 'marmalade'], 'condiments', [67.8, 1.1, 0.1, 0.4, 278], [['1 tbsp', 20]]),
+    food('erythritol', 'Erythritol', ['monk fruit sweetener', 'swerve', 'stevia', 'keto sweetener'], 'condiments', [0, 0, 0, 0, 20], [['1 tsp', 4], ['1 tbsp', 12]]),
+    food('vinegar', 'Vinegar', ['apple cider vinegar', 'white vinegar', 'red wine vinegar'], 'condiments', [0.9, 0, 0, 0, 21], [['1 tbsp', 15]]),
+    food('balsamic-vinegar', 'Balsamic Vinegar', ['balsamic glaze', 'balsamic'], 'condiments', [17, 0, 0, 0.5, 88], [['1 tbsp', 16]]),
+
+    // ===== Grains, Bread & Pasta =====
+    food('white-rice', 'White Rice', ['rice', 'steamed rice', 'cooked rice', 'jasmine rice', 'basmati rice', 'sushi rice'], 'grains', [27.8, 0.4, 0.3, 2.7, 130], [['1 cup', 158], ['1/2 cup', 79]]),
+    food('brown-rice', 'Brown Rice', ['wild rice', 'whole grain rice'], 'grains', [24, 1.6, 1, 2.7, 123], [['1 cup', 195]]),
+    food('fried-rice', 'Fried Rice', ['egg fried rice', 'chicken fried rice'], 'prepared', [30, 0.8, 3.6, 4.6, 174], [['1 cup', 137]]),
+    food('quinoa', 'Quinoa', [], 'grains', [18.5, 2.8, 1.9, 4.4, 120], [['1 cup', 185]]),
+    food('couscous', 'Couscous', [], 'grains', [21.8, 1.4, 0.2, 3.8, 112], [['1 cup', 157]]),
+    food('oatmeal', 'Oatmeal', ['porridge', 'cooked oats'], 'grains', [10.3, 1.7, 1.4, 2.4, 68], [['1 cup', 234]]),
+    food('rolled-oats', 'Rolled Oats (Dry)', ['oats', 'overnight oats', 'old fashioned oats'], 'grains', [57.6, 10.1, 6.5, 13.2, 379], [['1/2 cup', 40]]),
+    food('grits', 'Grits', ['polenta', 'cornmeal porridge'], 'grains', [12.5, 0.6, 0.4, 1.4, 59], [['1 cup', 242]]),
+    food('pasta', 'Pasta', ['spaghetti', 'penne', 'macaroni', 'fettuccine', 'linguine', 'noodles'], 'grains', [29.1, 1.8, 0.9, 5.8, 158], [['1 cup', 140], ['100g', 100]]),
+    food('whole-wheat-pasta', 'Whole Wheat Pasta', ['wholemeal pasta'], 'grains', [22, 4.5, 0.5, 5.3, 124], [['1 cup', 140]]),
+    food('egg-noodles', 'Egg Noodles', [], 'grains', [24, 1.2, 2.1, 4.5, 138], [['1 cup', 160]]),
+    food('rice-noodles', 'Rice Noodles', ['vermicelli', 'rice vermicelli', 'pho noodles'], 'grains', [23, 1, 0.2, 1.8, 108], [['1 cup', 176]]),
+    food('white-bread', 'White Bread', ['bread', 'toast', 'sandwich bread', 'bread slice'], 'grains', [47, 2.4, 3.3, 7.6, 266], [['1 slice', 25]]),
+    food('whole-wheat-bread', 'Whole Wheat Bread', ['wholemeal bread', 'brown bread', 'multigrain bread', 'whole grain bread'], 'grains', [37, 6, 3.5, 12.5, 252], [['1 slice', 32]]),
+    food('sourdough', 'Sourdough Bread', ['sourdough'], 'grains', [48.5, 2.4, 2.4, 10.8, 272], [['1 slice', 50]]),
+    food('bagel', 'Bagel', ['plain bagel'], 'grains', [46.8, 2.1, 1.5, 10, 250], [['1 medium', 105]]),
+    food('croissant', 'Croissant', [], 'grains', [43.2, 2.6, 21, 8.2, 406], [['1 medium', 57]]),
+    food('english-muffin', 'English Muffin', [], 'grains', [43.3, 2.7, 1.8, 8.9, 234], [['1 muffin', 57]]),
+    food('hamburger-bun', 'Hamburger Bun', ['bun', 'burger bun', 'hot dog bun', 'brioche bun'], 'grains', [47.7, 2.4, 3.9, 9.5, 279], [['1 bun', 50]]),
+    food('pita', 'Pita Bread', ['pita'], 'grains', [53.5, 2.2, 1.2, 9.1, 275], [['1 pita', 60]]),
+    food('naan', 'Naan', ['naan bread', 'flatbread'], 'grains', [48.4, 2, 5.7, 9.6, 291], [['1 piece', 90]]),
+    food('flour-tortilla', 'Flour Tortilla', ['tortilla', 'wrap', 'burrito wrap'], 'grains', [46.6, 3.5, 8, 8.2, 306], [['1 medium', 45], ['1 large', 70]]),
+    food('corn-tortilla', 'Corn Tortilla', ['taco shell', 'tostada'], 'grains', [38.3, 6.3, 2.9, 5.7, 218], [['1 tortilla', 26]]),
+    food('cornbread', 'Cornbread', [], 'grains', [42, 2.3, 11, 6.6, 330], [['1 piece', 60]]),
+    food('breadcrumbs', 'Breadcrumbs', ['panko', 'bread crumbs', 'breading'], 'grains', [67.5, 4.5, 5.3, 13.4, 395], [['1 tbsp', 7], ['1/4 cup', 27]]),
+    food('flour', 'Wheat Flour', ['flour', 'all purpose flour', 'white flour'], 'grains', [73.6, 2.7, 1, 10.3, 364], [['1 tbsp', 8], ['1 cup', 125]]),
+    food('pancakes', 'Pancakes', ['pancake', 'hotcakes', 'flapjacks'], 'grains', [27.4, 0.9, 9.7, 6.4, 227], [['1 medium', 38]]),
+    food('waffles', 'Waffles', ['waffle'], 'grains', [31.3, 1.7, 14, 7.9, 291], [['1 waffle', 75]]),
+    food('french-toast', 'French Toast', [], 'grains', [24, 1, 11, 7.7, 229], [['1 slice', 65]]),
+    food('cereal', 'Breakfast Cereal', ['cereal', 'corn flakes', 'cornflakes'], 'grains', [80.8, 3.3, 0.4, 7.5, 357], [['1 cup', 28]]),
+    food('granola', 'Granola', ['muesli'], 'grains', [57, 7, 20.3, 10.4, 471], [['1/2 cup', 61]]),
+    food('crackers', 'Crackers', ['saltines', 'saltine crackers', 'water crackers'], 'grains', [71.2, 2.8, 8.6, 9.5, 421], [['1 cracker', 3], ['1 oz', 28]]),
+    food('rice-cakes', 'Rice Cakes', ['rice cake'], 'grains', [77.3, 4.2, 2.8, 8.2, 387], [['1 cake', 9]]),
+    food('croutons', 'Croutons', [], 'grains', [68, 5, 7, 12, 407], [['1/4 cup', 8]]),
+
+    // ===== Legumes =====
+    food('black-beans', 'Black Beans', ['black bean', 'frijoles negros'], 'legumes', [15, 8.7, 0.5, 8.9, 132], [['1/2 cup', 86], ['1 cup', 172]]),
+    food('kidney-beans', 'Kidney Beans', ['red beans', 'kidney bean'], 'legumes', [16.4, 6.4, 0.5, 8.7, 127], [['1/2 cup', 89]]),
+    food('pinto-beans', 'Pinto Beans', ['pinto bean'], 'legumes', [17.2, 9, 0.7, 9, 143], [['1/2 cup', 86]]),
+    food('refried-beans', 'Refried Beans', [], 'legumes', [10.3, 5.2, 1.2, 5.5, 91], [['1/2 cup', 121]]),
+    food('baked-beans', 'Baked Beans', [], 'legumes', [15.6, 5.5, 0.4, 4.8, 94], [['1/2 cup', 127]]),
+    food('chickpeas', 'Chickpeas', ['garbanzo beans', 'chana'], 'legumes', [19.8, 7.6, 2.6, 8.9, 164], [['1/2 cup', 82]]),
+    food('lentils', 'Lentils', ['dal', 'dhal', 'lentil'], 'legumes', [12.2, 7.9, 0.4, 9, 116], [['1/2 cup', 99]]),
+    food('edamame', 'Edamame', ['soybeans', 'soy beans'], 'legumes', [3.7, 5.2, 5.2, 11.9, 121], [['1 cup', 155]]),
+    food('falafel', 'Falafel', [], 'legumes', [28.7, 4.9, 17.8, 13.3, 333], [['1 piece', 17]]),
+
+    // ===== Sweets & Snacks =====
+    food('pork-rinds', 'Pork Rinds', ['chicharrones', 'pork crackling', 'pork skins'], 'sweets_snacks', [0, 0, 31.3, 61.3, 544], [['1 oz', 28]]),
+    food('cheese-crisps', 'Cheese Crisps', ['parmesan crisps', 'cheese chips'], 'sweets_snacks', [3, 0, 36, 38, 500], [['1 oz', 28]]),
+    food('potato-chips', 'Potato Chips', ['crisps', 'chips', 'kettle chips'], 'sweets_snacks', [48.6, 4.4, 34.6, 7, 536], [['1 oz', 28], ['1 bag', 50]]),
+    food('tortilla-chips', 'Tortilla Chips', ['nacho chips', 'corn chips', 'doritos'], 'sweets_snacks', [60, 5.3, 23.4, 7, 489], [['1 oz', 28]]),
+    food('pretzels', 'Pretzels', ['pretzel'], 'sweets_snacks', [77, 3, 2.6, 10, 380], [['1 oz', 28]]),
+    food('popcorn', 'Popcorn', ['air popped popcorn'], 'sweets_snacks', [63.3, 14.5, 4.5, 12.9, 387], [['1 cup', 8]]),
+    food('dark-chocolate', 'Dark Chocolate (70-85%)', ['dark chocolate', '85% chocolate', 'cacao'], 'sweets_snacks', [35, 10.9, 42.6, 7.8, 598], [['1 square', 10], ['1 oz', 28]]),
+    food('milk-chocolate', 'Milk Chocolate', ['chocolate', 'chocolate bar', 'candy bar'], 'sweets_snacks', [56, 3.4, 29.7, 7.6, 535], [['1 bar', 44], ['1 square', 10]]),
+    food('gummy-candy', 'Gummy Candy', ['gummies', 'gummy bears', 'candy', 'sweets', 'jelly beans'], 'sweets_snacks', [77, 0, 0.2, 6.9, 343], [['1 piece', 2.3], ['1 oz', 28]]),
+    food('cookies', 'Chocolate Chip Cookies', ['cookie', 'cookies', 'biscuits'], 'sweets_snacks', [61.9, 2.4, 24, 5, 488], [['1 cookie', 16]]),
+    food('cake', 'Cake', ['chocolate cake', 'birthday cake', 'sponge cake', 'cupcake'], 'sweets_snacks', [53, 1.8, 16, 4, 367], [['1 slice', 95]]),
+    food('cheesecake', 'Cheesecake', [], 'sweets_snacks', [25.1, 0.4, 22.5, 5.5, 321], [['1 slice', 125]]),
+    food('donut', 'Donut', ['doughnut', 'glazed donut'], 'sweets_snacks', [47, 1.5, 22.9, 4.9, 403], [['1 medium', 60]]),
+    food('muffin', 'Muffin', ['blueberry muffin', 'bran muffin'], 'sweets_snacks', [46, 1.5, 18, 5.5, 377], [['1 medium', 113]]),
+    food('brownie', 'Brownie', ['brownies'], 'sweets_snacks', [47.8, 2.4, 29.1, 6.2, 466], [['1 piece', 56]]),
+    food('apple-pie', 'Apple Pie', ['pie', 'fruit pie'], 'sweets_snacks', [32.4, 1.6, 11, 1.9, 237], [['1 slice', 125]]),
+
+    // ===== Beverages =====
+    food('coffee', 'Coffee', ['black coffee', 'americano', 'drip coffee', 'cold brew'], 'beverages', [0, 0, 0, 0.1, 1], [['1 cup', 237]]),
+    food('espresso', 'Espresso', ['shot of espresso'], 'beverages', [1.7, 0, 0.2, 0.1, 9], [['1 shot', 30]]),
+    food('latte', 'Latte', ['cafe latte', 'cappuccino', 'flat white'], 'beverages', [4.5, 0, 3, 3, 56], [['1 cup', 240], ['1 grande', 473]]),
+    food('tea', 'Tea', ['black tea', 'green tea', 'herbal tea', 'iced tea unsweetened'], 'beverages', [0.3, 0, 0, 0, 1], [['1 cup', 237]]),
+    food('orange-juice', 'Orange Juice', ['oj', 'juice', 'fruit juice'], 'beverages', [10.2, 0.2, 0.2, 0.7, 45], [['1 cup', 248]]),
+    food('apple-juice', 'Apple Juice', [], 'beverages', [11.1, 0.2, 0.1, 0.1, 46], [['1 cup', 248]]),
+    food('soda', 'Soda', ['cola', 'coke', 'soft drink', 'pop', 'sprite'], 'beverages', [10.6, 0, 0, 0, 42], [['1 can', 368]]),
+    food('diet-soda', 'Diet Soda', ['diet coke', 'coke zero', 'zero sugar soda'], 'beverages', [0, 0, 0, 0, 0], [['1 can', 355]]),
+    food('sports-drink', 'Sports Drink', ['gatorade', 'powerade'], 'beverages', [6, 0, 0, 0, 24], [['1 bottle', 591]]),
+    food('almond-milk', 'Almond Milk (Unsweetened)', ['almond milk'], 'beverages', [0.3, 0.2, 1.1, 0.6, 15], [['1 cup', 240]]),
+    food('coconut-milk', 'Coconut Milk (Canned)', ['coconut milk', 'coconut cream'], 'beverages', [3.3, 2.2, 23.8, 2.3, 230], [['1/4 cup', 60], ['1 cup', 240]]),
+    food('oat-milk', 'Oat Milk', [], 'beverages', [6.6, 0.8, 1.5, 1, 48], [['1 cup', 240]]),
+    food('soy-milk', 'Soy Milk (Unsweetened)', ['soy milk', 'soya milk'], 'beverages', [1.3, 0.4, 1.8, 2.9, 33], [['1 cup', 243]]),
+    food('beer', 'Beer', ['lager', 'ale', 'ipa'], 'beverages', [3.6, 0, 0, 0.5, 43], [['1 can', 356], ['1 pint', 473]]),
+    food('light-beer', 'Light Beer', ['lite beer'], 'beverages', [1.6, 0, 0, 0.2, 29], [['1 can', 356]]),
+    food('red-wine', 'Red Wine', ['wine', 'merlot', 'cabernet'], 'beverages', [2.6, 0, 0, 0.1, 85], [['1 glass', 148]]),
+    food('white-wine', 'White Wine', ['chardonnay', 'sauvignon blanc', 'prosecco', 'champagne'], 'beverages', [2.6, 0, 0, 0.1, 82], [['1 glass', 148]]),
+    food('spirits', 'Spirits', ['vodka', 'whiskey', 'gin', 'tequila', 'rum', 'liquor'], 'beverages', [0, 0, 0, 0, 231], [['1 shot', 42]]),
+    food('bone-broth', 'Bone Broth', ['broth', 'stock', 'chicken broth', 'beef broth'], 'beverages', [0.4, 0, 0.2, 1.6, 8], [['1 cup', 240]]),
+
+    // ===== Prepared Dishes =====
+    food('cheese-pizza', 'Cheese Pizza', ['pizza', 'margherita pizza', 'pizza slice'], 'prepared', [31, 2.3, 9.7, 11.4, 266], [['1 slice', 107]]),
+    food('pepperoni-pizza', 'Pepperoni Pizza', [], 'prepared', [28, 2.3, 13, 12.5, 298], [['1 slice', 111]]),
+    food('hamburger', 'Hamburger', ['burger', 'beef burger'], 'prepared', [23, 1.5, 11, 13, 254], [['1 burger', 110]]),
+    food('cheeseburger', 'Cheeseburger', ['cheese burger'], 'prepared', [22, 1.5, 13, 14, 263], [['1 burger', 120]]),
+    food('hot-dog-bun', 'Hot Dog with Bun', ['hot dog sandwich'], 'prepared', [18, 1, 14.5, 10, 247], [['1 hot dog', 98]]),
+    food('grilled-cheese', 'Grilled Cheese Sandwich', ['grilled cheese', 'cheese toastie'], 'prepared', [28, 1.5, 18, 12, 330], [['1 sandwich', 120]]),
+    food('sandwich', 'Sandwich', ['sub', 'hoagie', 'deli sandwich', 'club sandwich'], 'prepared', [24, 2, 8, 11, 215], [['1 sandwich', 200]]),
+    food('burrito', 'Burrito', ['beef burrito', 'bean burrito', 'chicken burrito'], 'prepared', [22, 2.5, 7, 9, 196], [['1 burrito', 230]]),
+    food('burrito-bowl', 'Burrito Bowl (No Rice)', ['burrito bowl', 'taco salad'], 'prepared', [5.5, 3, 8, 11, 140], [['1 bowl', 400]]),
+    food('taco', 'Taco', ['tacos', 'beef taco', 'chicken taco', 'fish taco'], 'prepared', [15.5, 2.8, 12, 9, 226], [['1 taco', 78]]),
+    food('quesadilla', 'Quesadilla', [], 'prepared', [23, 1.5, 16, 12, 293], [['1 quesadilla', 180]]),
+    food('nachos', 'Nachos', ['nachos with cheese'], 'prepared', [30, 3, 17, 8, 306], [['1 plate', 250]]),
+    food('fajitas', 'Fajitas (No Tortilla)', ['fajita', 'chicken fajitas', 'steak fajitas'], 'prepared', [4, 1.2, 5.5, 14, 120], [['1 cup', 150]]),
+    food('lasagna', 'Lasagna', ['lasagne', 'meat lasagna'], 'prepared', [13.1, 1.2, 5.1, 8.1, 135], [['1 piece', 250]]),
+    food('spaghetti-bolognese', 'Spaghetti Bolognese', ['spaghetti and meat sauce', 'spaghetti with meatballs', 'bolognese'], 'prepared', [16.5, 1.6, 4.4, 6.5, 132], [['1 cup', 250]]),
+    food('mac-and-cheese', 'Mac and Cheese', ['macaroni and cheese', 'mac n cheese'], 'prepared', [19.2, 1.2, 6.6, 6.6, 164], [['1 cup', 200]]),
+    food('pad-thai', 'Pad Thai', [], 'prepared', [22, 1, 7, 8, 180], [['1 cup', 200]]),
+    food('lo-mein', 'Lo Mein', ['chow mein', 'stir fried noodles'], 'prepared', [20.5, 1.5, 4.5, 6, 148], [['1 cup', 200]]),
+    food('general-tso-chicken', "General Tso's Chicken", ['orange chicken', 'sweet and sour chicken', 'sesame chicken'], 'prepared', [24, 0.6, 14, 12, 275], [['1 cup', 150]]),
+    food('stir-fry', 'Chicken Stir Fry', ['stir fry', 'stir-fry', 'beef and broccoli'], 'prepared', [6, 1.5, 4.5, 10, 110], [['1 cup', 220]]),
+    food('chicken-curry', 'Chicken Curry', ['curry', 'butter chicken', 'tikka masala', 'chicken tikka masala'], 'prepared', [5.6, 1.1, 8, 11, 145], [['1 cup', 240]]),
+    food('chili', 'Chili con Carne', ['chili', 'chilli', 'beef chili'], 'prepared', [8.2, 2.9, 4.1, 7.4, 107], [['1 cup', 253]]),
+    food('beef-stew', 'Beef Stew', ['stew'], 'prepared', [6.5, 1.1, 4.3, 7.1, 95], [['1 cup', 245]]),
+    food('meatloaf', 'Meatloaf', ['meat loaf'], 'prepared', [7.6, 0.5, 11, 14, 195], [['1 slice', 115]]),
+    food('shepherds-pie', "Shepherd's Pie", ['cottage pie'], 'prepared', [10, 1.2, 5.5, 6.5, 115], [['1 cup', 220]]),
+    food('caesar-salad', 'Caesar Salad', ['chicken caesar salad'], 'prepared', [5.6, 1.5, 16, 4, 190], [['1 bowl', 200]]),
+    food('garden-salad', 'Garden Salad', ['salad', 'side salad', 'green salad'], 'prepared', [2.4, 1.5, 0.2, 1.2, 17], [['1 bowl', 150]]),
+    food('cobb-salad', 'Cobb Salad', ['chef salad'], 'prepared', [1.8, 1.2, 10, 9, 150], [['1 bowl', 350]]),
+    food('greek-salad', 'Greek Salad', ['horiatiki'], 'prepared', [3.5, 1.2, 8.5, 3, 100], [['1 bowl', 250]]),
+    food('coleslaw', 'Coleslaw', ['slaw'], 'prepared', [12.5, 1.5, 9, 1, 144], [['1/2 cup', 95]]),
+    food('potato-salad', 'Potato Salad', [], 'prepared', [9.9, 1.3, 8.2, 2.7, 143], [['1/2 cup', 125]]),
+    food('egg-salad', 'Egg Salad', [], 'prepared', [1.8, 0, 19, 9, 222], [['1/2 cup', 110]]),
+    food('tuna-salad', 'Tuna Salad', [], 'prepared', [9.4, 0, 9.3, 16, 187], [['1/2 cup', 102]]),
+    food('chicken-salad', 'Chicken Salad', [], 'prepared', [3, 0.3, 15, 14, 205], [['1/2 cup', 112]]),
+    food('chicken-noodle-soup', 'Chicken Noodle Soup', ['noodle soup'], 'prepared', [7, 0.5, 1.2, 3.2, 52], [['1 cup', 240]]),
+    food('tomato-soup', 'Tomato Soup', ['cream of tomato'], 'prepared', [6.4, 0.5, 0.7, 0.8, 30], [['1 cup', 245]]),
+    food('broccoli-cheddar-soup', 'Broccoli Cheddar Soup', ['broccoli cheese soup'], 'prepared', [5.5, 0.8, 6, 3.3, 91], [['1 cup', 245]]),
+    food('clam-chowder', 'Clam Chowder', ['chowder', 'new england clam chowder'], 'prepared', [7.8, 0.3, 4.3, 3.5, 88], [['1 cup', 245]]),
+    food('miso-soup', 'Miso Soup', ['miso'], 'prepared', [3, 0.7, 1.2, 2.2, 33], [['1 cup', 240]]),
+    food('pho', 'Pho', ['beef pho', 'vietnamese noodle soup'], 'prepared', [8.6, 0.4, 1.1, 4, 60], [['1 bowl', 600]]),
+    food('ramen', 'Ramen', ['ramen noodles', 'instant noodles', 'tonkotsu ramen'], 'prepared', [9.5, 0.5, 3.5, 4, 88], [['1 bowl', 550]]),
+]
@@ -3,7 +3,14 @@
  * Based on MVP PRD ingredient blacklist and scoring rules
  */
 
-import type { KetoVerdict } from '../types'
+import type {
+    ActivityLevel,
+    FitnessGoal,
+    IngredientCategory,
+    KetoExperience,
+    KetoStrictness,
+    KetoVerdict
+} from '../types'
 
 // ===== Score Thresholds =====
 export const SCORE_THRESHOLDS = {
@@ -11,6 +18,12 @@ export const SCORE_THRESHOLDS = {
     BORDERLINE: 60 // 60-79 = Borderline (yellow), <60 = Avoid (red)
 } as const
 
+// ===== Scoring Ruleset =====
+// Bump whenever thresholds, penalties or scoring logic change, so stored
+// verdicts computed under an older ruleset can be told apart and re-scored.
+// Mirrored for edge functions in supabase/functions/_shared/ketoRules.ts
+export const SCORING_RULESET_VERSION = 'v5'
+
 // ===== Free Tier Limits =====
 export const FREE_TIER = {
     MAX_SCANS: 5,
@@ -18,59 +31,213 @@ export const FREE_TIER = {
 } as const
 
 // ===== Default User Settings =====
-export const DEFAULT_CARB_LIMIT = 20 // grams per day
+export const DEFAULT_STRICTNESS: KetoStrictness = 'standard'
+
+// ===== Strictness =====
+// Daily net-carb limit for each level, and how hard carbs over budget count in meal scores
+export const STRICTNESS_CARB_LIMITS: Record<KetoStrictness, number> = {
+    strict: 20,
+    standard: 30,
+    liberal: 50
+}
+
+// Grams per day for users without a profile, matching the strictness they're scored at
+export const DEFAULT_CARB_LIMIT = STRICTNESS_CARB_LIMITS[DEFAULT_STRICTNESS]
+
+export const STRICTNESS_PENALTY_FACTORS: Record<KetoStrictness, number> = {
+    strict: 1.25,
+    standard: 1,
+    liberal: 0.8
+}
+
+// Default keto mode for the quiz's experience answer; newcomers ease in
+export const EXPERIENCE_STRICTNESS: Record<KetoExperience, KetoStrictness> = {
+    beginner: 'liberal',
+    intermediate: 'standard',
+    pro: 'strict'
+}
+
+// ===== Macro Targets =====
+// Protein in g per kg of lean mass by activity level, plus a bonus per goal
+export const PROTEIN_PER_KG_LEAN_MASS: Record<ActivityLevel, number> = {
+    sedentary: 1.2,
+    lightly_active: 1.4,
+    moderately_active: 1.6,
+    very_active: 1.8
+}
+
+export const PROTEIN_GOAL_BONUS: Record<FitnessGoal, number> = {
+    lose_weight: 0.2, // keeps muscle in a deficit
+    maintain: 0,
+    build_muscle: 0.4
+}
+
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+    sedentary: 1.2,
+    lightly_active: 1.375,
+    moderately_active: 1.55,
+    very_active: 1.725
+}
+
+export const GOAL_CALORIE_ADJUSTMENTS: Record<FitnessGoal, number> = {
+    lose_weight: -500,
+    maintain: 0,
+    build_muscle: 300
+}
+
+// Fat never drops below this, however the other targets are set
+export const MIN_FAT_TARGET = 30 // g per day
 
 // ===== Ingredient Blacklist with Penalties =====
-export const INGREDIENT_PENALTIES: Record<string, { penalty: number; reason: string }> = {
+// Bundled fallback; the live list comes from the ingredient_dictionary table
+export const INGREDIENT_PENALTIES: Record<string, { penalty: number; reason: string; category: IngredientCategory }> = {
     // Sugars (severe penalties)
-    'sugar': { penalty: 25, reason: 'Pure sugar' },
-    'cane sugar': { penalty: 25, reason: 'Pure sugar' },
-    'brown sugar': { penalty: 25, reason: 'Pure sugar' },
-    'high fructose corn syrup': { penalty: 30, reason: 'Highly processed sugar' },
-    'corn syrup': { penalty: 25, reason: 'Processed sugar' },
-    'agave nectar': { penalty: 20, reason: 'High fructose content' },
-    'honey': { penalty: 15, reason: 'Natural but high carb' },
-    'maple syrup': { penalty: 15, reason: 'Natural but high carb' },
-    'molasses': { penalty: 20, reason: 'High sugar content' },
-    'dextrose': { penalty: 20, reason: 'Sugar form' },
-    'fructose': { penalty: 20, reason: 'Sugar form' },
-    'glucose': { penalty: 20, reason: 'Sugar form' },
-    'sucrose': { penalty: 25, reason: 'Table sugar' },
-    'maltodextrin': { penalty: 25, reason: 'Higher glycemic than sugar' },
+    'sugar': { penalty: 25, reason: 'Pure sugar', category: 'sugar' },
+    'cane sugar': { penalty: 25, reason: 'Pure sugar', category: 'sugar' },
+    'brown sugar': { penalty: 25, reason: 'Pure sugar', category: 'sugar' },
+    'high fructose corn syrup': { penalty: 30, reason: 'Highly processed sugar', category: 'sugar' },
+    'corn syrup': { penalty: 25, reason: 'Processed sugar', category: 'sugar' },
+    'agave nectar': { penalty: 20, reason: 'High fructose content', category: 'sugar' },
+    'honey': { penalty: 15, reason: 'Natural but high carb', category: 'sugar' },
+    'maple syrup': { penalty: 15, reason: 'Natural but high carb', category: 'sugar' },
+    'molasses': { penalty: 20, reason: 'High sugar content', category: 'sugar' },
+    'dextrose': { penalty: 20, reason: 'Sugar form', category: 'sugar' },
+    'fructose': { penalty: 20, reason: 'Sugar form', category: 'sugar' },
+    'glucose': { penalty: 20, reason: 'Sugar form', category: 'sugar' },
+    'sucrose': { penalty: 25, reason: 'Table sugar', category: 'sugar' },
+    'maltodextrin': { penalty: 25, reason: 'Higher glycemic than sugar', category: 'sugar' },
+    'isomaltooligosaccharide': { penalty: 20, reason: 'Digested like sugar despite fiber labeling', category: 'hidden_sugar' },
 
     // Starches
-    'cornstarch': { penalty: 15, reason: 'Pure starch' },
-    'modified food starch': { penalty: 15, reason: 'Starch filler' },
-    'potato starch': { penalty: 15, reason: 'High starch' },
-    'tapioca starch': { penalty: 15, reason: 'High starch' },
+    'cornstarch': { penalty: 15, reason: 'Pure starch', category: 'starch' },
+    'modified food starch': { penalty: 15, reason: 'Starch filler', category: 'starch' },
+    'potato starch': { penalty: 15, reason: 'High starch', category: 'starch' },
+    'tapioca starch': { penalty: 15, reason: 'High starch', category: 'starch' },
 
     // Wheat/Grains
-    'wheat': { penalty: 15, reason: 'Grain-based carbs' },
-    'wheat flour': { penalty: 18, reason: 'Refined grain' },
-    'enriched wheat flour': { penalty: 18, reason: 'Refined grain' },
-    'bread crumbs': { penalty: 15, reason: 'Wheat-based' },
-    'rice flour': { penalty: 15, reason: 'High carb flour' },
-    'corn flour': { penalty: 15, reason: 'High carb flour' },
-    'oat flour': { penalty: 12, reason: 'Grain flour' },
+    'wheat': { penalty: 15, reason: 'Grain-based carbs', category: 'grain' },
+    'wheat flour': { penalty: 18, reason: 'Refined grain', category: 'grain' },
+    'enriched wheat flour': { penalty: 18, reason: 'Refined grain', category: 'grain' },
+    'bread crumbs': { penalty: 15, reason: 'Wheat-based', category: 'grain' },
+    'rice flour': { penalty: 15, reason: 'High carb flour', category: 'grain' },
+    'corn flour': { penalty: 15, reason: 'High carb flour', category: 'grain' },
+    'oat flour': { penalty: 12, reason: 'Grain flour', category: 'grain' },
 
     // Questionable additives
-    'natural flavors': { penalty: 5, reason: 'Potentially contains hidden carbs' },
-    'artificial flavors': { penalty: 3, reason: 'Minor concern' },
-    'carrageenan': { penalty: 3, reason: 'Controversial additive' },
+    'natural flavors': { penalty: 5, reason: 'Potentially contains hidden carbs', category: 'additive' },
+    'artificial flavors': { penalty: 3, reason: 'Minor concern', category: 'additive' },
+    'carrageenan': { penalty: 3, reason: 'Controversial additive', category: 'additive' },
 
     // Red flag indicators
-    'fruit juice concentrate': { penalty: 15, reason: 'Concentrated sugar' },
-    'evaporated cane juice': { penalty: 20, reason: 'Sugar in disguise' },
-    'rice syrup': { penalty: 20, reason: 'High glycemic' },
-    'barley malt': { penalty: 15, reason: 'Malt sugar' }
+    'fruit juice concentrate': { penalty: 15, reason: 'Concentrated sugar', category: 'hidden_sugar' },
+    'evaporated cane juice': { penalty: 20, reason: 'Sugar in disguise', category: 'hidden_sugar' },
+    'rice syrup': { penalty: 20, reason: 'High glycemic', category: 'hidden_sugar' },
+    'barley malt': { penalty: 15, reason: 'Malt sugar', category: 'hidden_sugar' }
 } as const
 
+// ===== Ingredient Synonyms =====
+// Other names for dictionary terms and sweeteners (label spellings, E-numbers)
+export const INGREDIENT_SYNONYMS: Record<string, string> = {
+    // Modified starches (E1404-E1452)
+    'e1404': 'modified food starch',
+    'e1410': 'modified food starch',
+    'e1412': 'modified food starch',
+    'e1413': 'modified food starch',
+    'e1414': 'modified food starch',
+    'e1420': 'modified food starch',
+    'e1422': 'modified food starch',
+    'e1440': 'modified food starch',
+    'e1442': 'modified food starch',
+    'e1450': 'modified food starch',
+    'e1451': 'modified food starch',
+    'e1452': 'modified food starch',
+    'modified starch': 'modified food starch',
+    'modified corn starch': 'modified food starch',
+    'modified maize starch': 'modified food starch',
+    'e407': 'carrageenan',
+
+    // Sugar alcohols
+    'e420': 'sorbitol',
+    'e421': 'mannitol',
+    'e953': 'isomalt',
+    'e965': 'maltitol',
+    'e966': 'lactitol',
+    'e967': 'xylitol',
+    'e968': 'erythritol',
+    'maltitol syrup': 'maltitol',
+    'psicose': 'allulose',
+    'd-psicose': 'allulose',
+
+    // Sugars
+    'saccharose': 'sucrose',
+    'glucose syrup': 'glucose',
+    'dextrose monohydrate': 'dextrose',
+    'hfcs': 'high fructose corn syrup',
+    'glucose fructose syrup': 'high fructose corn syrup',
+    'isoglucose': 'high fructose corn syrup',
+    'isomalto oligosaccharide': 'isomaltooligosaccharide',
+    'imo': 'isomaltooligosaccharide',
+    'brown rice syrup': 'rice syrup',
+    'malted barley': 'barley malt',
+    'barley malt extract': 'barley malt',
+
+    // Starches and flours
+    'corn starch': 'cornstarch',
+    'maize starch': 'cornstarch',
+    'maize flour': 'corn flour',
+    'tapioca': 'tapioca starch',
+    'breadcrumbs': 'bread crumbs',
+
+    // Flavorings
+    'natural flavour': 'natural flavors',
+    'natural flavoring': 'natural flavors',
+    'artificial flavour': 'artificial flavors',
+}
+
+// ===== Sugar Alcohols =====
+// Share of each polyol's grams that counts toward net carbs (glycemic impact)
+export const SUGAR_ALCOHOLS: Record<string, { netCarbFactor: number }> = {
+    'erythritol': { netCarbFactor: 0 },
+    'xylitol': { netCarbFactor: 0.5 },
+    'maltitol': { netCarbFactor: 0.5 },
+    'sorbitol': { netCarbFactor: 0.5 },
+    'isomalt': { netCarbFactor: 0.5 },
+    'lactitol': { netCarbFactor: 0.5 },
+    'mannitol': { netCarbFactor: 0.5 }
+} as const
+
+// Polyols on the label that the ingredient list doesn't name
+export const DEFAULT_POLYOL_NET_CARB_FACTOR = 0.5
+
+// ===== Alternative Sweeteners =====
+// Allulose is a rare sugar, not a polyol: labels count it in carbohydrates but
+// not in sugars or polyols, and it has next to no glycemic impact
+export const ALLULOSE_NET_CARB_FACTOR = 0
+
 // ===== Ingredient Count Penalty =====
 export const INGREDIENT_COUNT_PENALTY = {
     THRESHOLD: 10,
     PENALTY: 10
 } as const
 
+// ===== Net Carb Penalties (products, per 100g) =====
+// First matching tier applies
+export const NET_CARB_PENALTIES = [
+    { ABOVE: 20, PENALTY: 30 },
+    { ABOVE: 10, PENALTY: 15 },
+    { ABOVE: 5, PENALTY: 5 }
+] as const
+
+// ===== Carb Budget Penalties (products, per portion) =====
+// Share of the user's remaining daily net carbs one portion uses; first matching tier applies.
+// Replaces the per-100g tiers when a portion is picked. App only: stored scores stay per 100g.
+export const CARB_BUDGET_PENALTIES = [
+    { ABOVE: 1, PENALTY: 45 },
+    { ABOVE: 0.5, PENALTY: 30 },
+    { ABOVE: 0.25, PENALTY: 15 },
+    { ABOVE: 0.1, PENALTY: 5 }
+] as const
+
 // ===== High-Risk Foods =====
 export const HIGH_RISK_FOODS = [
     'rice', 'bread', 'pasta', 'noodles', 'potato', 'french fries',
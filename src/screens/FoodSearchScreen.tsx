@@ -0,0 +1,454 @@
+/**
+ * FoodSearchScreen
+ * Search foods and products by name and log a portion without scanning
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { View, StyleSheet, Pressable, ScrollView, TextInput } from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { MotiView } from 'moti'
+import { Camera, ScanBarcode, Search, Minus, Plus, X } from 'lucide-react-native'
+import { Text, Button, Badge } from '../components/atoms'
+import { Colors, Spacing, BorderRadius, Shadows, FontSize } from '../constants/theme'
+import { haptics } from '../services/hapticsService'
+import { ProfileService } from '../services/profileService'
+import { FoodLogService, LoggableItem, macrosForGrams, scoreForPortion } from '../services/foodLogService'
+import type { FoodServing } from '../services/foodDatabase'
+
+// Wait for a pause in typing before hitting the network
+const PRODUCT_SEARCH_DEBOUNCE_MS = 300
+const QUANTITY_STEP = 0.5
+
+interface FoodSearchScreenProps {
+    userId?: string
+    onScanMeal: () => void
+    onScanProduct: () => void
+    onLogged: () => void
+}
+
+export function FoodSearchScreen({ userId, onScanMeal, onScanProduct, onLogged }: FoodSearchScreenProps) {
+    const [query, setQuery] = useState('')
+    const [products, setProducts] = useState<LoggableItem[]>([])
+    const [searchingProducts, setSearchingProducts] = useState(false)
+    const [selected, setSelected] = useState<LoggableItem | null>(null)
+    const [carbLimit, setCarbLimit] = useState<number | undefined>(undefined)
+    const latestSearch = useRef(0)
+
+    // Local matches are instant, so they follow every keystroke
+    const foods = useMemo(() => FoodLogService.searchLocal(query), [query])
+
+    useEffect(() => {
+        const loadCarbLimit = async () => {
+            const targets = userId
+                ? await ProfileService.getProfile(userId)
+                : (await ProfileService.getGuestData())?.targets
+            setCarbLimit(targets?.carb_limit || undefined)
+        }
+        loadCarbLimit()
+    }, [userId])
+
+    useEffect(() => {
+        const searchId = ++latestSearch.current
+        if (query.trim().length < 2) {
+            setProducts([])
+            setSearchingProducts(false)
+            return
+        }
+
+        setSearchingProducts(true)
+        const timer = setTimeout(async () => {
+            const results = await FoodLogService.searchProducts(query)
+            // Ignore responses for queries the user has already typed past
+            if (searchId !== latestSearch.current) return
+            setProducts(results)
+            setSearchingProducts(false)
+        }, PRODUCT_SEARCH_DEBOUNCE_MS)
+
+        return () => clearTimeout(timer)
+    }, [query])
+
+    const hasQuery = query.trim().length > 0
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <View style={styles.header}>
+                <Text variant="heading" size="2xl">Log Food</Text>
+                <Text variant="body" size="sm" color={Colors.gray500}>
+                    Search for what you ate, or scan it
+                </Text>
+            </View>
+
+            <View style={styles.scanRow}>
+                <Pressable
+                    style={styles.scanButton}
+                    onPress={() => {
+                        haptics.light()
+                        onScanMeal()
+                    }}
+                >
+                    <Camera size={18} color={Colors.ketoSafe} />
+                    <Text variant="body" size="sm" weight="semibold">Scan Meal</Text>
+                </Pressable>
+                <Pressable
+                    style={styles.scanButton}
+                    onPress={() => {
+                        haptics.light()
+                        onScanProduct()
+                    }}
+                >
+                    <ScanBarcode size={18} color={Colors.accentBlue} />
+                    <Text variant="body" size="sm" weight="semibold">Scan Barcode</Text>
+                </Pressable>
+            </View>
+
+            <View style={styles.searchBox}>
+                <Search size={18} color={Colors.gray400} />
+                <TextInput
+                    value={query}
+                    onChangeText={setQuery}
+                    placeholder="Search foods, e.g. avocado"
+                    placeholderTextColor={Colors.gray400}
+                    autoCorrect={false}
+                    autoCapitalize="none"
+                    returnKeyType="search"
+                    style={styles.searchInput}
+                />
+                {hasQuery && (
+                    <Pressable onPress={() => setQuery('')} hitSlop={8}>
+                        <X size={18} color={Colors.gray400} />
+                    </Pressable>
+                )}
+            </View>
+
+            <ScrollView contentContainerStyle={styles.results} keyboardShouldPersistTaps="handled">
+                {!hasQuery ? (
+                    <View style={styles.empty}>
+                        <Text variant="body" size="3xl">🔎</Text>
+                        <Text variant="body" size="sm" color={Colors.gray500} align="center">
+                            Food search works offline. Packaged products need a connection.
+                        </Text>
+                    </View>
+                ) : (
+                    <>
+                        {foods.map(item => (
+                            <ResultRow key={item.key} item={item} carbLimit={carbLimit} onPress={() => setSelected(item)} />
+                        ))}
+
+                        {(products.length > 0 || searchingProducts) && (
+                            <Text variant="caption" weight="bold" color={Colors.gray500} style={styles.sectionLabel}>
+                                {searchingProducts ? 'SEARCHING PRODUCTS…' : 'PRODUCTS'}
+                            </Text>
+                        )}
+                        {products.map(item => (
+                            <ResultRow key={item.key} item={item} carbLimit={carbLimit} onPress={() => setSelected(item)} />
+                        ))}
+
+                        {foods.length === 0 && products.length === 0 && !searchingProducts && (
+                            <View style={styles.empty}>
+                                <Text variant="body" size="sm" color={Colors.gray500} align="center">
+                                    No matches for "{query.trim()}". Try a simpler name or scan it instead.
+                                </Text>
+                            </View>
+                        )}
+                    </>
+                )}
+            </ScrollView>
+
+            {selected && (
+                <PortionSheet
+                    item={selected}
+                    userId={userId}
+                    carbLimit={carbLimit}
+                    onClose={() => setSelected(null)}
+                    onLogged={() => {
+                        setSelected(null)
+                        onLogged()
+                    }}
+                />
+            )}
+        </SafeAreaView>
+    )
+}
+
+function ResultRow({ item, carbLimit, onPress }: { item: LoggableItem, carbLimit?: number, onPress: () => void }) {
+    const [serving] = item.servings
+    const macros = macrosForGrams(item, serving.grams)
+    const score = scoreForPortion(item, macros, carbLimit)
+
+    return (
+        <Pressable style={styles.row} onPress={onPress}>
+            <View style={styles.rowText}>
+                <Text variant="body" weight="semibold">{item.name}</Text>
+                <Text variant="caption" color={Colors.gray500}>
+                    {item.per100g
+                        ? `${serving.label} · ${macros.net_carbs}g net carbs · ${macros.calories} kcal`
+                        : item.brand || 'Nutrition info not available'}
+                </Text>
+            </View>
+            {score.verdict !== 'unknown' && (
+                <Badge label={String(score.score)} verdict={score.verdict} />
+            )}
+        </Pressable>
+    )
+}
+
+interface PortionSheetProps {
+    item: LoggableItem
+    userId?: string
+    carbLimit?: number
+    onClose: () => void
+    onLogged: () => void
+}
+
+function PortionSheet({ item, userId, carbLimit, onClose, onLogged }: PortionSheetProps) {
+    const [serving, setServing] = useState<FoodServing>(item.servings[0])
+    const [quantity, setQuantity] = useState(1)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const macros = macrosForGrams(item, serving.grams * quantity)
+    const score = scoreForPortion(item, macros, carbLimit)
+
+    const handleLog = async () => {
+        setSaving(true)
+        setError(null)
+        const entry = await FoodLogService.logItem(userId, item, serving, quantity, carbLimit)
+        setSaving(false)
+
+        if (!entry) {
+            setError('Could not save this entry. Please try again.')
+            return
+        }
+        haptics.success()
+        onLogged()
+    }
+
+    return (
+        <MotiView
+            from={{ translateY: 400 }}
+            animate={{ translateY: 0 }}
+            transition={{ type: 'spring', damping: 20 }}
+            style={styles.sheet}
+        >
+            <View style={styles.sheetHeader}>
+                <View style={styles.rowText}>
+                    <Text variant="heading" size="lg">{item.name}</Text>
+                    {item.brand && <Text variant="caption" color={Colors.gray500}>{item.brand}</Text>}
+                </View>
+                <Pressable onPress={onClose} hitSlop={8}>
+                    <X size={22} color={Colors.gray500} />
+                </Pressable>
+            </View>
+
+            <Text variant="caption" weight="bold" color={Colors.gray500} style={styles.sectionLabel}>SERVING</Text>
+            <View style={styles.chips}>
+                {item.servings.map(s => (
+                    <Pressable
+                        key={s.label}
+                        style={[styles.chip, s.label === serving.label && styles.chipActive]}
+                        onPress={() => setServing(s)}
+                    >
+                        <Text variant="body" size="sm" color={s.label === serving.label ? Colors.white : Colors.gray700}>
+                            {s.label}
+                        </Text>
+                    </Pressable>
+                ))}
+            </View>
+
+            <View style={styles.quantityRow}>
+                <Pressable
+                    style={styles.stepper}
+                    onPress={() => setQuantity(q => Math.max(QUANTITY_STEP, q - QUANTITY_STEP))}
+                >
+                    <Minus size={18} color={Colors.gray700} />
+                </Pressable>
+                <Text variant="heading" size="xl">{quantity}</Text>
+                <Pressable style={styles.stepper} onPress={() => setQuantity(q => q + QUANTITY_STEP)}>
+                    <Plus size={18} color={Colors.gray700} />
+                </Pressable>
+                <Text variant="body" size="sm" color={Colors.gray500}>
+                    {Math.round(serving.grams * quantity)}g
+                </Text>
+            </View>
+
+            {item.per100g ? (
+                <View style={styles.macroRow}>
+                    <MacroCell label="Net Carbs" value={`${macros.net_carbs}g`} />
+                    <MacroCell label="Protein" value={`${macros.protein}g`} />
+                    <MacroCell label="Fat" value={`${macros.fat}g`} />
+                    <MacroCell label="Calories" value={`${macros.calories}`} />
+                </View>
+            ) : (
+                <Text variant="body" size="sm" color={Colors.gray500} style={styles.notice}>
+                    No nutrition data for this product yet. Only its keto score will be logged.
+                </Text>
+            )}
+
+            {score.verdict !== 'unknown' && (
+                <View style={styles.scoreRow}>
+                    <Text variant="body" size="sm" color={Colors.gray600}>Keto score</Text>
+                    <Badge label={`${score.score} · ${score.verdict.toUpperCase()}`} verdict={score.verdict} />
+                </View>
+            )}
+
+            {error && (
+                <Text variant="caption" color={Colors.ketoAvoid} style={styles.notice}>{error}</Text>
+            )}
+
+            <Button onPress={handleLog} loading={saving} fullWidth>
+                Log to Today
+            </Button>
+        </MotiView>
+    )
+}
+
+function MacroCell({ label, value }: { label: string, value: string }) {
+    return (
+        <View style={styles.macroCell}>
+            <Text variant="heading" size="base">{value}</Text>
+            <Text variant="caption" color={Colors.gray500}>{label}</Text>
+        </View>
+    )
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: Colors.white,
+    },
+    header: {
+        paddingHorizontal: Spacing['2xl'],
+        paddingTop: Spacing.xl,
+        gap: Spacing.xs,
+    },
+    scanRow: {
+        flexDirection: 'row',
+        gap: Spacing.md,
+        paddingHorizontal: Spacing['2xl'],
+        marginTop: Spacing.lg,
+    },
+    scanButton: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.sm,
+        paddingVertical: Spacing.md,
+        borderRadius: BorderRadius.xl,
+        backgroundColor: Colors.gray50,
+        borderWidth: 1,
+        borderColor: Colors.gray100,
+    },
+    searchBox: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        marginHorizontal: Spacing['2xl'],
+        marginTop: Spacing.lg,
+        paddingHorizontal: Spacing.lg,
+        borderRadius: BorderRadius.xl,
+        backgroundColor: Colors.gray50,
+        borderWidth: 1,
+        borderColor: Colors.gray200,
+        minHeight: 48,
+    },
+    searchInput: {
+        flex: 1,
+        fontSize: FontSize.base,
+        color: Colors.gray900,
+        paddingVertical: Spacing.md,
+    },
+    results: {
+        paddingHorizontal: Spacing['2xl'],
+        paddingTop: Spacing.md,
+        paddingBottom: 120,
+    },
+    sectionLabel: {
+        marginTop: Spacing.lg,
+        marginBottom: Spacing.sm,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.md,
+        paddingVertical: Spacing.md,
+        borderBottomWidth: 1,
+        borderBottomColor: Colors.gray100,
+    },
+    rowText: {
+        flex: 1,
+        gap: 2,
+    },
+    empty: {
+        alignItems: 'center',
+        gap: Spacing.md,
+        paddingVertical: Spacing['4xl'],
+        paddingHorizontal: Spacing.xl,
+    },
+    sheet: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: Colors.white,
+        borderTopLeftRadius: BorderRadius['2xl'],
+        borderTopRightRadius: BorderRadius['2xl'],
+        padding: Spacing['2xl'],
+        ...Shadows.xl,
+    },
+    sheetHeader: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: Spacing.md,
+    },
+    chips: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: Spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderRadius: BorderRadius.full,
+        backgroundColor: Colors.gray100,
+    },
+    chipActive: {
+        backgroundColor: Colors.ketoSafe,
+    },
+    quantityRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.lg,
+        marginTop: Spacing.lg,
+    },
+    stepper: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        backgroundColor: Colors.gray100,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    macroRow: {
+        flexDirection: 'row',
+        marginTop: Spacing.lg,
+        paddingVertical: Spacing.md,
+        borderRadius: BorderRadius.lg,
+        backgroundColor: Colors.gray50,
+    },
+    macroCell: {
+        flex: 1,
+        alignItems: 'center',
+    },
+    scoreRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginTop: Spacing.lg,
+        marginBottom: Spacing.lg,
+    },
+    notice: {
+        marginTop: Spacing.md,
+        marginBottom: Spacing.md,
+    },
+})
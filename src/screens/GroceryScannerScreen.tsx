@@ -18,6 +18,7 @@ import { Barcode, CheckCircle } from 'lucide-react-native'
 interface GroceryScannerScreenProps {
     onBack: () => void
     onProductScanned: (product: ProductData) => void
+    onProductRevalidated?: (product: ProductData) => void
 }
 
 const { width } = Dimensions.get('window')
@@ -25,6 +26,7 @@ const { width } = Dimensions.get('window')
 export function GroceryScannerScreen({
     onBack,
     onProductScanned,
+    onProductRevalidated,
 }: GroceryScannerScreenProps) {
     const [permission, requestPermission] = useCameraPermissions()
     const [scanned, setScanned] = useState(false)
@@ -40,7 +42,7 @@ export function GroceryScannerScreen({
 
         try {
             setIsLookingUp(true)
-            const product = await lookupProduct(result.data)
+            const product = await lookupProduct(result.data, undefined, onProductRevalidated)
 
             if (!product.found) {
                 haptics.warning()
@@ -56,7 +58,7 @@ export function GroceryScannerScreen({
         } finally {
             setIsLookingUp(false)
         }
-    }, [scanned, isLookingUp, onProductScanned])
+    }, [scanned, isLookingUp, onProductScanned, onProductRevalidated])
 
     const handleRescan = useCallback(() => {
         setScanned(false)
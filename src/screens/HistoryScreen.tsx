@@ -2,11 +2,13 @@ import React, { useEffect, useState, useCallback } from 'react';
 import { View, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Image } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Text, Loader, Badge } from '../components/atoms';
-import { Colors, Spacing, BorderRadius, Shadows } from '../constants/theme';
+import { Colors, Spacing, BorderRadius, Shadows, getVerdictColor } from '../constants/theme';
 import { supabase } from '../services/supabase';
+import { ScanQueueService, QueuedScan } from '../services/scanQueueService';
 import { MotiView } from 'moti';
-import { Calendar, ChevronRight, Info, Filter } from 'lucide-react-native';
+import { Calendar, ChevronRight, Info, Filter, Clock } from 'lucide-react-native';
 import { format } from 'date-fns';
+import type { DetectedFood, EntrySource, Macros } from '../types';
 
 export interface HistoryItem {
     id: string;
@@ -16,6 +18,14 @@ export interface HistoryItem {
     score: number;
     verdict: 'safe' | 'borderline' | 'avoid';
     imageUrl?: string;
+    macros?: Macros;
+    foods?: DetectedFood[];
+    swapSuggestion?: string;
+    barcode?: string;
+    brand?: string;
+    source?: EntrySource;
+    scanEventId?: string;
+    pending?: boolean; // captured offline, waiting for analysis
 }
 
 interface HistoryScreenProps {
@@ -23,16 +33,34 @@ interface HistoryScreenProps {
     onItemPress: (item: HistoryItem) => void;
 }
 
+function fromQueuedScan(scan: QueuedScan): HistoryItem {
+    return {
+        id: `queued:${scan.id}`,
+        type: 'meal',
+        name: 'Meal Scan',
+        timestamp: new Date(scan.createdAt),
+        score: 0,
+        verdict: 'borderline',
+        imageUrl: scan.imageUri,
+        source: 'scan',
+        pending: true
+    };
+}
+
 export function HistoryScreen({ userId, onItemPress }: HistoryScreenProps) {
     const [items, setItems] = useState<HistoryItem[]>([]);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
 
     const fetchHistory = useCallback(async () => {
+        // Offline scans are kept on device, so guests see theirs too
+        const pending = (await ScanQueueService.getPending(userId || undefined)).map(fromQueuedScan);
+
         // Guard: Skip for guest users (no valid userId)
         if (!userId) {
-            setItems([]);
+            setItems(pending.reverse());
             setLoading(false);
+            setRefreshing(false);
             return;
         }
 
@@ -59,11 +87,17 @@ export function HistoryScreen({ userId, onItemPress }: HistoryScreenProps) {
             const formattedMeals: HistoryItem[] = (meals || []).map(m => ({
                 id: m.id,
                 type: 'meal',
-                name: 'Meal Scan',
+                // Manually logged foods are stored as single-item meals
+                name: m.source === 'manual' ? (m.foods?.[0]?.name || 'Logged Food') : 'Meal Scan',
                 timestamp: new Date(m.created_at),
                 score: m.keto_score?.score || 0,
                 verdict: m.keto_score?.verdict || 'avoid',
-                imageUrl: m.image_url
+                imageUrl: m.image_url,
+                macros: m.macros || undefined,
+                foods: m.foods || undefined,
+                swapSuggestion: m.swap_suggestion || undefined,
+                source: m.source || 'scan',
+                scanEventId: m.scan_event_id || undefined
             }));
 
             const formattedProducts: HistoryItem[] = (products || []).map(p => ({
@@ -73,10 +107,15 @@ export function HistoryScreen({ userId, onItemPress }: HistoryScreenProps) {
                 timestamp: new Date(p.created_at),
                 score: p.keto_score?.score || 0,
                 verdict: p.keto_score?.verdict || 'avoid',
-                imageUrl: p.image_url
+                imageUrl: p.image_url,
+                macros: p.macros || undefined,
+                swapSuggestion: p.alternative_suggestion || undefined,
+                barcode: p.barcode || undefined,
+                brand: p.brand || undefined,
+                source: p.source || 'scan'
             }));
 
-            const merged = [...formattedMeals, ...formattedProducts].sort(
+            const merged = [...pending, ...formattedMeals, ...formattedProducts].sort(
                 (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
             );
 
@@ -93,6 +132,11 @@ export function HistoryScreen({ userId, onItemPress }: HistoryScreenProps) {
         fetchHistory();
     }, [userId]);
 
+    // Refresh when queued scans are analyzed in the background
+    useEffect(() => ScanQueueService.subscribe(() => {
+        fetchHistory();
+    }), [fetchHistory]);
+
     const onRefresh = () => {
         setRefreshing(true);
         fetchHistory();
@@ -106,6 +150,7 @@ export function HistoryScreen({ userId, onItemPress }: HistoryScreenProps) {
         >
             <TouchableOpacity
                 style={styles.card}
+                disabled={item.pending}
                 onPress={() => onItemPress(item)}
             >
                 <View style={styles.imageContainer}>
@@ -113,7 +158,7 @@ export function HistoryScreen({ userId, onItemPress }: HistoryScreenProps) {
                         <Image source={{ uri: item.imageUrl }} style={styles.image} />
                     ) : (
                         <View style={[styles.imagePlaceholder, { backgroundColor: item.type === 'meal' ? Colors.ketoSafeDim : Colors.gray100 }]}>
-                            <Text variant="body" size="lg">{item.type === 'meal' ? '🍽️' : '🏷️'}</Text>
+                            <Text variant="body" size="lg">{item.source === 'manual' ? '✍️' : item.type === 'meal' ? '🍽️' : '🏷️'}</Text>
                         </View>
                     )}
                 </View>
@@ -123,20 +168,27 @@ export function HistoryScreen({ userId, onItemPress }: HistoryScreenProps) {
                         <Text variant="heading" size="base" numberOfLines={1}>
                             {item.name}
                         </Text>
-                        <View style={[
-                            styles.scoreBadge,
-                            { backgroundColor: item.score >= 80 ? Colors.ketoSafe : item.score >= 50 ? Colors.ketoBorderline : Colors.ketoAvoid }
-                        ]}>
-                            <Text variant="caption" color={Colors.white} weight="bold">{item.score}</Text>
-                        </View>
+                        {item.pending ? (
+                            <View style={[styles.scoreBadge, { backgroundColor: Colors.gray100 }]}>
+                                <Clock size={14} color={Colors.gray500} />
+                            </View>
+                        ) : (
+                            <View style={[
+                                styles.scoreBadge,
+                                { backgroundColor: getVerdictColor(item.verdict) }
+                            ]}>
+                                <Text variant="caption" color={Colors.white} weight="bold">{item.score}</Text>
+                            </View>
+                        )}
                     </View>
 
                     <Text variant="caption" color={Colors.gray400}>
                         {format(item.timestamp, 'MMM d, h:mm a')}
+                        {item.pending ? ' · Pending analysis' : item.source === 'manual' ? ' · Logged' : ''}
                     </Text>
                 </View>
 
-                <ChevronRight size={20} color={Colors.gray300} />
+                {!item.pending && <ChevronRight size={20} color={Colors.gray300} />}
             </TouchableOpacity>
         </MotiView>
     );
@@ -3,40 +3,75 @@
  * Main screen with two primary CTAs
  */
 
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import { View, StyleSheet, Pressable, TouchableOpacity } from 'react-native'
 import { Crown } from 'lucide-react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
-import { Text } from '../components/atoms'
+import { Text, Skeleton } from '../components/atoms'
 import { Colors, Spacing, BorderRadius, Shadows } from '../constants/theme'
 import { AnimatedView } from '../components/layout/AnimatedView'
 import { haptics } from '../services/hapticsService'
 import { MacroSummary } from '../components/ui/MacroSummary'
 import { LinearGradient } from 'expo-linear-gradient'
+import { ProfileService } from '../services/profileService'
+import { IntakeLedgerService, DailyIntake } from '../services/intakeLedgerService'
+
+type DailyMacro = { label: string, current: number, target: number, unit: string, icon: string, color: string }
 
 interface HomeScreenProps {
+    userId?: string
     userName?: string
     scansRemaining?: number
     isPro?: boolean
-    dailyMacros?: { label: string, current: number, target: number, unit: string, icon: string, color: string }[]
+    dailyMacros?: DailyMacro[]
     onScanMeal: () => void
     onScanProduct: () => void
     onViewHistory: () => void
 }
 
+function toDailyMacros(intake: DailyIntake): DailyMacro[] {
+    return [
+        { label: 'Net Carbs', current: intake.consumed.net_carbs, target: intake.carbLimit, unit: 'g', icon: '🥑', color: Colors.ketoSafe },
+        { label: 'Protein', current: intake.consumed.protein, target: intake.proteinTarget, unit: 'g', icon: '🍗', color: Colors.accentPurple },
+        { label: 'Fat', current: intake.consumed.fat, target: intake.fatTarget, unit: 'g', icon: '🧈', color: '#F59E0B' },
+    ]
+}
+
 export function HomeScreen({
+    userId,
     userName = 'Keto Warrior',
     scansRemaining = 5,
     isPro = false,
-    dailyMacros = [
-        { label: 'Net Carbs', current: 12, target: 20, unit: 'g', icon: '🥑', color: Colors.ketoSafe },
-        { label: 'Protein', current: 45, target: 90, unit: 'g', icon: '🍗', color: Colors.accentPurple },
-        { label: 'Fat', current: 65, target: 120, unit: 'g', icon: '🧈', color: '#F59E0B' },
-    ],
+    dailyMacros,
     onScanMeal,
     onScanProduct,
     onViewHistory,
 }: HomeScreenProps) {
+    const [intake, setIntake] = useState<DailyIntake | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+
+        const loadIntake = async () => {
+            // Targets come from the saved profile, or local quiz results for guests
+            const targets = userId
+                ? await ProfileService.getProfile(userId)
+                : (await ProfileService.getGuestData())?.targets
+            const data = await IntakeLedgerService.getDailyIntake(userId, targets)
+            if (!cancelled) setIntake(data)
+        }
+        loadIntake().catch(err => {
+            console.error('[Home] Loading intake failed:', err)
+            if (!cancelled) setIntake(IntakeLedgerService.getEmptyIntake())
+        })
+
+        return () => {
+            cancelled = true
+        }
+    }, [userId])
+
+    const macros = dailyMacros ?? (intake ? toDailyMacros(intake) : null)
+
     return (
         <SafeAreaView style={styles.container}>
             <LinearGradient
@@ -60,8 +95,10 @@ export function HomeScreen({
                                 </View>
                             )}
                         </View>
-                        <Text variant="body" size="base" color={Colors.gray500}>
-                            Ready to stay in ketosis?
+                        <Text variant="body" size="base" color={intake && intake.remainingNetCarbs === 0 ? Colors.ketoAvoid : Colors.gray500}>
+                            {intake
+                                ? `${intake.remainingNetCarbs}g net carbs left today`
+                                : 'Ready to stay in ketosis?'}
                         </Text>
                     </View>
                     <View style={[styles.scansBadge, isPro && styles.scansBadgePro]}>
@@ -76,7 +113,11 @@ export function HomeScreen({
 
                 {/* Daily Progress */}
                 <AnimatedView animation="slideUp" delay={100}>
-                    <MacroSummary macros={dailyMacros} />
+                    {macros ? (
+                        <MacroSummary macros={macros} />
+                    ) : (
+                        <Skeleton height={180} borderRadius={BorderRadius['2xl']} style={styles.summarySkeleton} />
+                    )}
                 </AnimatedView>
 
                 {/* Main CTAs */}
@@ -198,6 +239,9 @@ const styles = StyleSheet.create({
         borderRadius: BorderRadius.full,
         marginLeft: Spacing.sm,
     },
+    summarySkeleton: {
+        marginBottom: Spacing['3xl'],
+    },
     ctas: {
         gap: Spacing.lg,
         marginBottom: Spacing['3xl'],
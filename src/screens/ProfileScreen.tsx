@@ -3,46 +3,245 @@
  * User settings and profile information
  */
 
-import React, { useCallback } from 'react'
-import { View, StyleSheet, TouchableOpacity, ScrollView } from 'react-native'
+import React, { useCallback, useState } from 'react'
+import { View, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
-import { Text, Button, Loader } from '../components/atoms'
+import { Text, Button, Loader, Input } from '../components/atoms'
 import { Colors, Spacing, BorderRadius, Shadows, FontSize } from '../constants/theme'
 import { supabase } from '../services/supabase'
 import { ProfileService, UserProfile } from '../services/profileService'
+import { resolveStrictness } from '../services/macroTargets'
+import {
+    convertHeight,
+    convertWeight,
+    HeightUnit,
+    validateAge,
+    validateHeight,
+    validateWeight,
+    WeightUnit,
+} from '../utils/profileValidation'
+import type { ActivityLevel, FitnessGoal, KetoStrictness, MacroTargets } from '../types'
+
+type TargetKey = keyof MacroTargets
+
+const TARGET_FIELDS: { key: TargetKey, label: string, unit: string, min: number, max: number }[] = [
+    { key: 'calorie_target', label: 'CALORIES', unit: 'kcal / day', min: 1000, max: 6000 },
+    { key: 'carb_limit', label: 'NET CARBS', unit: 'g daily limit', min: 5, max: 150 },
+    { key: 'protein_target', label: 'PROTEIN', unit: 'g / day', min: 20, max: 400 },
+    { key: 'fat_target', label: 'FAT', unit: 'g / day', min: 20, max: 400 },
+]
+
+const KETO_MODES: { value: KetoStrictness, label: string }[] = [
+    { value: 'strict', label: 'Strict' },
+    { value: 'standard', label: 'Standard' },
+    { value: 'liberal', label: 'Liberal' },
+]
+
+interface ChipOption<T extends string> {
+    value: T
+    label: string
+}
+
+const ACTIVITY_LEVELS: ChipOption<ActivityLevel>[] = [
+    { value: 'sedentary', label: 'Sedentary' },
+    { value: 'lightly_active', label: 'Lightly active' },
+    { value: 'moderately_active', label: 'Moderately active' },
+    { value: 'very_active', label: 'Very active' },
+]
+
+const GOALS: ChipOption<FitnessGoal>[] = [
+    { value: 'lose_weight', label: 'Lose weight' },
+    { value: 'maintain', label: 'Maintain' },
+    { value: 'build_muscle', label: 'Build muscle' },
+]
+
+function ChipRow<T extends string>({ options, selected, onSelect }: {
+    options: ChipOption<T>[]
+    selected?: T
+    onSelect: (value: T) => void
+}) {
+    return (
+        <View style={styles.modeRow}>
+            {options.map(option => (
+                <TouchableOpacity
+                    key={option.value}
+                    style={[styles.modeChip, selected === option.value && styles.modeChipActive]}
+                    onPress={() => onSelect(option.value)}
+                >
+                    <Text variant="body" size="sm" color={selected === option.value ? Colors.white : Colors.gray700}>
+                        {option.label}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    )
+}
+
+interface BodyMetricsEditorProps {
+    profile: UserProfile
+    saving: boolean
+    onSave: (changes: Partial<UserProfile>) => void
+    onCancel: () => void
+}
+
+/**
+ * Edit form for body metrics, units, activity and goal.
+ * Switching units converts the entered value so nothing has to be retyped.
+ */
+function BodyMetricsEditor({ profile, saving, onSave, onCancel }: BodyMetricsEditorProps) {
+    const [age, setAge] = useState(String(profile.age ?? ''))
+    const [weight, setWeight] = useState(String(profile.weight ?? ''))
+    const [weightUnit, setWeightUnit] = useState<WeightUnit>(profile.weight_unit ?? 'kg')
+    const [height, setHeight] = useState(String(profile.height ?? ''))
+    const [heightUnit, setHeightUnit] = useState<HeightUnit>(profile.height_unit ?? 'cm')
+    const [activity, setActivity] = useState<ActivityLevel>(profile.activity_level ?? 'sedentary')
+    const [goal, setGoal] = useState<FitnessGoal>(profile.goal ?? 'maintain')
+    const [errors, setErrors] = useState<{ age?: string, weight?: string, height?: string }>({})
+
+    const changeWeightUnit = (unit: WeightUnit) => {
+        const value = parseFloat(weight)
+        if (Number.isFinite(value)) setWeight(String(convertWeight(value, weightUnit, unit)))
+        setWeightUnit(unit)
+    }
+
+    const changeHeightUnit = (unit: HeightUnit) => {
+        const value = parseFloat(height)
+        if (Number.isFinite(value)) setHeight(String(convertHeight(value, heightUnit, unit)))
+        setHeightUnit(unit)
+    }
+
+    const save = () => {
+        const values = { age: parseInt(age, 10), weight: parseFloat(weight), height: parseFloat(height) }
+        const nextErrors = {
+            age: validateAge(values.age) ?? undefined,
+            weight: validateWeight(values.weight, weightUnit) ?? undefined,
+            height: validateHeight(values.height, heightUnit) ?? undefined,
+        }
+        setErrors(nextErrors)
+        if (nextErrors.age || nextErrors.weight || nextErrors.height) return
+
+        onSave({
+            ...values,
+            weight_unit: weightUnit,
+            height_unit: heightUnit,
+            activity_level: activity,
+            goal,
+        })
+    }
+
+    return (
+        <View style={styles.metricsEditor}>
+            <Input
+                label="Age"
+                value={age}
+                onChangeText={setAge}
+                keyboardType="number-pad"
+                error={errors.age}
+            />
+            <Input
+                label={`Weight (${weightUnit})`}
+                value={weight}
+                onChangeText={setWeight}
+                keyboardType="decimal-pad"
+                error={errors.weight}
+            />
+            <ChipRow
+                options={[{ value: 'kg', label: 'kg' }, { value: 'lbs', label: 'lbs' }]}
+                selected={weightUnit}
+                onSelect={changeWeightUnit}
+            />
+            <Input
+                label={`Height (${heightUnit})`}
+                value={height}
+                onChangeText={setHeight}
+                keyboardType="decimal-pad"
+                error={errors.height}
+            />
+            <ChipRow
+                options={[{ value: 'cm', label: 'cm' }, { value: 'ft', label: 'ft' }]}
+                selected={heightUnit}
+                onSelect={changeHeightUnit}
+            />
+            <Text variant="caption" weight="medium" color={Colors.gray600} style={styles.editorLabel}>
+                Activity level
+            </Text>
+            <ChipRow options={ACTIVITY_LEVELS} selected={activity} onSelect={setActivity} />
+            <Text variant="caption" weight="medium" color={Colors.gray600} style={styles.editorLabel}>
+                Goal
+            </Text>
+            <ChipRow options={GOALS} selected={goal} onSelect={setGoal} />
+            <View style={styles.editorActions}>
+                <Button size="sm" onPress={save} loading={saving}>Save</Button>
+                <Button size="sm" variant="ghost" onPress={onCancel}>Cancel</Button>
+            </View>
+        </View>
+    )
+}
 
 interface ProfileScreenProps {
     session: any
     onLogout: () => void
+    onOpenWeightLog: () => void
 }
 
-export function ProfileScreen({ session, onLogout }: ProfileScreenProps) {
+export function ProfileScreen({ session, onLogout, onOpenWeightLog }: ProfileScreenProps) {
     const [profile, setProfile] = React.useState<UserProfile | null>(null)
     const [loading, setLoading] = React.useState(true)
 
     React.useEffect(() => {
         const loadProfile = async () => {
-            if (session?.user?.id) {
-                // Logged in user: fetch from Supabase
-                const data = await ProfileService.getProfile(session.user.id);
-                setProfile(data);
-            } else {
-                // Guest user: try to load from local storage
-                const guestData = await ProfileService.getGuestData();
-                if (guestData) {
-                    setProfile({
-                        id: 'guest',
-                        ...guestData.profileData,
-                        ...guestData.targets,
-                    } as UserProfile);
-                }
-            }
+            // Signed in: from Supabase; guest: from local storage
+            setProfile(await ProfileService.getCurrentProfile(session?.user?.id));
             setLoading(false);
         };
         loadProfile();
     }, [session]);
 
     const userEmail = session?.user?.email || 'User'
+    const [editingTarget, setEditingTarget] = useState<TargetKey | null>(null)
+    const [draft, setDraft] = useState('')
+    const [saving, setSaving] = useState(false)
+    const [editingMetrics, setEditingMetrics] = useState(false)
+
+    const saveChanges = useCallback(async (changes: Partial<UserProfile>) => {
+        if (!profile) return
+        setSaving(true)
+        const updated = await ProfileService.updateProfile(session?.user?.id, profile, changes)
+        setSaving(false)
+
+        if (!updated) {
+            Alert.alert('Could not save', 'Your changes were not saved. Please try again.')
+            return
+        }
+        setProfile(updated)
+        setEditingTarget(null)
+        setEditingMetrics(false)
+    }, [profile, session])
+
+    const startEditing = useCallback((key: TargetKey) => {
+        setEditingTarget(key)
+        setDraft(String(profile?.[key] ?? ''))
+    }, [profile])
+
+    const saveTarget = useCallback(() => {
+        const field = TARGET_FIELDS.find(f => f.key === editingTarget)
+        if (!field) return
+
+        const value = Math.round(Number(draft))
+        if (!Number.isFinite(value) || value < field.min || value > field.max) {
+            Alert.alert('Invalid target', `Enter a value between ${field.min} and ${field.max}.`)
+            return
+        }
+        saveChanges({ target_overrides: { ...profile?.target_overrides, [field.key]: value } })
+    }, [editingTarget, draft, profile, saveChanges])
+
+    const resetTarget = useCallback(() => {
+        if (!editingTarget) return
+        const { [editingTarget]: _removed, ...rest } = profile?.target_overrides ?? {}
+        saveChanges({ target_overrides: rest })
+    }, [editingTarget, profile, saveChanges])
+
+    const ketoMode = profile ? resolveStrictness(profile) : 'standard'
 
     if (loading) {
         return <Loader fullScreen message="Loading profile..." />
@@ -73,59 +272,117 @@ export function ProfileScreen({ session, onLogout }: ProfileScreenProps) {
                     <Text variant="heading" size="lg" style={styles.sectionTitle}>
                         Keto Targets
                     </Text>
+                    <View style={styles.modeRow}>
+                        {KETO_MODES.map(mode => (
+                            <TouchableOpacity
+                                key={mode.value}
+                                style={[styles.modeChip, ketoMode === mode.value && styles.modeChipActive]}
+                                disabled={!profile || saving}
+                                onPress={() => saveChanges({ strictness: mode.value })}
+                            >
+                                <Text variant="body" size="sm" color={ketoMode === mode.value ? Colors.white : Colors.gray700}>
+                                    {mode.label}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
                     <View style={styles.targetGrid}>
-                        <View style={styles.targetCard}>
-                            <Text variant="caption" color={Colors.gray500} weight="bold">CALORIES</Text>
-                            <Text variant="heading" size="xl" color={Colors.ketoSafe}>
-                                {profile?.calorie_target || 2000}
-                            </Text>
-                            <Text variant="caption" color={Colors.gray400}>kcal / day</Text>
-                        </View>
-                        <View style={[styles.targetCard, { borderLeftWidth: 1, borderLeftColor: Colors.gray100 }]}>
-                            <Text variant="caption" color={Colors.gray500} weight="bold">NET CARBS</Text>
-                            <Text variant="heading" size="xl" color={Colors.ketoSafe}>
-                                {profile?.carb_limit || 50}g
-                            </Text>
-                            <Text variant="caption" color={Colors.gray400}>daily limit</Text>
-                        </View>
+                        {TARGET_FIELDS.map(field => (
+                            <TouchableOpacity
+                                key={field.key}
+                                style={styles.targetCard}
+                                disabled={!profile}
+                                onPress={() => startEditing(field.key)}
+                            >
+                                <Text variant="caption" color={Colors.gray500} weight="bold">{field.label}</Text>
+                                <Text variant="heading" size="xl" color={Colors.ketoSafe}>
+                                    {profile?.[field.key] ?? '--'}
+                                </Text>
+                                <Text variant="caption" color={Colors.gray400}>
+                                    {profile?.target_overrides?.[field.key] !== undefined ? `custom · ${field.unit}` : field.unit}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
                     </View>
+                    {editingTarget && (
+                        <View style={styles.targetEditor}>
+                            <TextInput
+                                style={styles.targetInput}
+                                value={draft}
+                                onChangeText={setDraft}
+                                keyboardType="number-pad"
+                                autoFocus
+                            />
+                            <Button size="sm" onPress={saveTarget} loading={saving}>Save</Button>
+                            {profile?.target_overrides?.[editingTarget] !== undefined && (
+                                <Button size="sm" variant="ghost" onPress={resetTarget}>Use calculated</Button>
+                            )}
+                            <Button size="sm" variant="ghost" onPress={() => setEditingTarget(null)}>Cancel</Button>
+                        </View>
+                    )}
                 </View>
 
                 <View style={styles.section}>
-                    <Text variant="heading" size="lg" style={styles.sectionTitle}>
-                        Body Metrics
-                    </Text>
-                    <View style={styles.metricsList}>
-                        <View style={styles.metricItem}>
-                            <Text variant="body" color={Colors.gray600}>Age</Text>
-                            <Text variant="body" weight="bold">{profile?.age || '--'} years</Text>
-                        </View>
-                        <View style={styles.metricItem}>
-                            <Text variant="body" color={Colors.gray600}>Weight</Text>
-                            <Text variant="body" weight="bold">
-                                {profile?.weight || '--'} {profile?.weight_unit}
-                            </Text>
-                        </View>
-                        <View style={styles.metricItem}>
-                            <Text variant="body" color={Colors.gray600}>Height</Text>
-                            <Text variant="body" weight="bold">
-                                {profile?.height || '--'} {profile?.height_unit}
-                            </Text>
-                        </View>
+                    <View style={styles.sectionHeader}>
+                        <Text variant="heading" size="lg" style={styles.sectionTitle}>
+                            Body Metrics
+                        </Text>
+                        {profile && !editingMetrics && (
+                            <TouchableOpacity onPress={() => setEditingMetrics(true)}>
+                                <Text variant="body" color={Colors.ketoSafe} weight="bold">Edit</Text>
+                            </TouchableOpacity>
+                        )}
                     </View>
+                    {profile && editingMetrics ? (
+                        <BodyMetricsEditor
+                            profile={profile}
+                            saving={saving}
+                            onSave={saveChanges}
+                            onCancel={() => setEditingMetrics(false)}
+                        />
+                    ) : (
+                        <View style={styles.metricsList}>
+                            <View style={styles.metricItem}>
+                                <Text variant="body" color={Colors.gray600}>Age</Text>
+                                <Text variant="body" weight="bold">{profile?.age || '--'} years</Text>
+                            </View>
+                            <View style={styles.metricItem}>
+                                <Text variant="body" color={Colors.gray600}>Weight</Text>
+                                <Text variant="body" weight="bold">
+                                    {profile?.weight || '--'} {profile?.weight_unit}
+                                </Text>
+                            </View>
+                            <View style={styles.metricItem}>
+                                <Text variant="body" color={Colors.gray600}>Height</Text>
+                                <Text variant="body" weight="bold">
+                                    {profile?.height || '--'} {profile?.height_unit}
+                                </Text>
+                            </View>
+                            <View style={styles.metricItem}>
+                                <Text variant="body" color={Colors.gray600}>Goal</Text>
+                                <Text variant="body" weight="bold">
+                                    {GOALS.find(g => g.value === profile?.goal)?.label ?? '--'}
+                                </Text>
+                            </View>
+                        </View>
+                    )}
+                    <TouchableOpacity style={styles.menuItem} onPress={onOpenWeightLog}>
+                        <Text variant="body">Weight & Measurements</Text>
+                        <Text variant="body" color={Colors.gray400}>Log weigh-in ›</Text>
+                    </TouchableOpacity>
                 </View>
 
                 <View style={styles.section}>
                     <Text variant="heading" size="lg" style={styles.sectionTitle}>
                         App Preferences
                     </Text>
-                    <TouchableOpacity style={styles.menuItem}>
+                    <TouchableOpacity style={styles.menuItem} disabled={!profile} onPress={() => setEditingMetrics(true)}>
                         <Text variant="body">Measurement Units</Text>
                         <Text variant="body" color={Colors.gray400}>
                             {profile?.weight_unit === 'kg' ? 'Metric' : 'Imperial'}
                         </Text>
                     </TouchableOpacity>
-                    <TouchableOpacity style={styles.menuItem}>
+                    <TouchableOpacity style={styles.menuItem} disabled={!profile} onPress={() => setEditingMetrics(true)}>
                         <Text variant="body">Activity Level</Text>
                         <Text variant="body" color={Colors.gray400}>
                             {profile?.activity_level?.replace('_', ' ') || 'Sedentary'}
@@ -191,6 +448,11 @@ const styles = StyleSheet.create({
     section: {
         marginBottom: Spacing['3xl'],
     },
+    sectionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
     sectionTitle: {
         marginBottom: Spacing.md,
         color: Colors.gray900,
@@ -207,8 +469,39 @@ const styles = StyleSheet.create({
         marginTop: Spacing.xl,
         borderColor: Colors.ketoAvoid,
     },
+    modeRow: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        marginBottom: Spacing.md,
+    },
+    modeChip: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderRadius: BorderRadius.full,
+        backgroundColor: Colors.gray100,
+    },
+    modeChipActive: {
+        backgroundColor: Colors.ketoSafe,
+    },
+    targetEditor: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        marginTop: Spacing.md,
+    },
+    targetInput: {
+        flex: 1,
+        minHeight: 44,
+        paddingHorizontal: Spacing.md,
+        borderRadius: BorderRadius.lg,
+        borderWidth: 1,
+        borderColor: Colors.gray200,
+        fontSize: FontSize.lg,
+        color: Colors.gray900,
+    },
     targetGrid: {
         flexDirection: 'row',
+        flexWrap: 'wrap',
         backgroundColor: Colors.gray50,
         borderRadius: BorderRadius.xl,
         padding: Spacing.lg,
@@ -216,7 +509,7 @@ const styles = StyleSheet.create({
         borderColor: Colors.gray100,
     },
     targetCard: {
-        flex: 1,
+        width: '50%',
         alignItems: 'center',
         paddingVertical: Spacing.sm,
     },
@@ -227,6 +520,21 @@ const styles = StyleSheet.create({
         borderColor: Colors.gray100,
         overflow: 'hidden',
     },
+    metricsEditor: {
+        backgroundColor: Colors.gray50,
+        borderRadius: BorderRadius.xl,
+        padding: Spacing.lg,
+        borderWidth: 1,
+        borderColor: Colors.gray100,
+    },
+    editorLabel: {
+        marginBottom: Spacing.xs,
+    },
+    editorActions: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        marginTop: Spacing.sm,
+    },
     metricItem: {
         flexDirection: 'row',
         alignItems: 'center',
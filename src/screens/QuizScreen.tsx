@@ -11,6 +11,7 @@ import { Button, Text, Input } from '../components/atoms'
 import { Colors, Spacing, BorderRadius } from '../constants/theme'
 import { MotiView } from 'moti'
 import { haptics } from '../services/hapticsService'
+import { PROFILE_VALIDATION } from '../utils/profileValidation'
 
 const { width } = Dimensions.get('window')
 
@@ -76,15 +77,9 @@ interface QuizScreenProps {
 
 // Validation rules per question
 const VALIDATION = {
-    2: { min: 13, max: 120, error: 'Age must be 13-120' }, // Age
-    3: { // Weight
-        kg: { min: 30, max: 300, error: 'Weight must be 30-300 kg' },
-        lbs: { min: 66, max: 660, error: 'Weight must be 66-660 lbs' }
-    },
-    4: { // Height
-        cm: { min: 100, max: 250, error: 'Height must be 100-250 cm' },
-        ft: { min: 3, max: 8, error: 'Height must be 3-8 ft' }
-    }
+    2: PROFILE_VALIDATION.age, // Age
+    3: PROFILE_VALIDATION.weight, // Weight
+    4: PROFILE_VALIDATION.height, // Height
 }
 
 export function QuizScreen({ onComplete }: QuizScreenProps) {
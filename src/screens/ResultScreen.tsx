@@ -2,26 +2,33 @@
  * ResultScreen
  * Displays keto score, verdict, macros, and share option
  * Includes confidence-based "Tap to Review" flow and share card capture
+ * Failed and not-food analyses get their own recovery state instead of a score
  */
 
-import React, { useState, useCallback, useRef } from 'react'
+import React, { useState, useCallback, useRef, useMemo } from 'react'
+import { format, parseISO } from 'date-fns'
 import { View, StyleSheet, Pressable, ScrollView } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Button, Text, Loader } from '../components/atoms'
 import { ScoreCircle, VerdictPill, MacroChart, CorrectionSheet, ShareCard } from '../components/ui'
 import type { CorrectionResult } from '../components/ui/CorrectionSheet'
 import { Colors, Spacing, BorderRadius } from '../constants/theme'
+import { getVerdictLabel, SCORE_THRESHOLDS } from '../constants/keto'
 import { AnimatedView } from '../components/layout/AnimatedView'
 import ConfettiCannon from 'react-native-confetti-cannon'
-import type { KetoVerdict, Macros, ScanType, DetectedFood } from '../types'
+import type { KetoVerdict, Macros, ScanType, DetectedFood, SweetenerAdjustment } from '../types'
 import { haptics } from '../services/hapticsService'
-import { logCorrection } from '../services/logService'
-import { ShadowDbService } from '../services/shadowDbService'
 import { shareResult } from '../services/shareService'
 import { AnalyticsService, EVENTS } from '../services/analyticsService'
-import { AlertTriangle, Share2, Flame } from 'lucide-react-native'
+import type { AnalysisOutcome, AnalysisFailureCategory } from '../services/aiService'
+import { getProductPortions, scaleMacros } from '../services/barcodeService'
+import type { ProductData, VerdictChange } from '../services/barcodeService'
+import { calculateProductScore } from '../services/ketoScoring'
+import type { DailyIntake } from '../services/intakeLedgerService'
+import { AlertTriangle, Share2, Flame, History, WifiOff, ServerCrash, ImageOff, SearchX, CircleAlert, Minus, Plus } from 'lucide-react-native'
 
 interface ResultScreenProps {
+    outcome?: AnalysisOutcome
     score: number
     verdict: KetoVerdict
     macros?: Macros
@@ -31,14 +38,115 @@ interface ResultScreenProps {
     plateConfidence?: number
     scanId?: string
     productName?: string
+    verdictChange?: VerdictChange
+    sweeteners?: SweetenerAdjustment[]
+    scoreExplanation?: string
+    product?: ProductData
+    intake?: DailyIntake // the scan day's budget, read before this scan was recorded
     userId?: string
     onBack: () => void
     onScanAgain: () => void
-    onRecalculate?: (foods: DetectedFood[]) => void
+    onRecalculate?: (corrections: CorrectionResult[]) => void
+    onRetry?: () => void
+    onManualEntry?: () => void
+    onRescan?: () => void
+}
+
+const QUANTITY_STEP = 0.5
+
+const FAILURE_COPY: Record<AnalysisFailureCategory, { title: string, body: string, canRetry: boolean }> = {
+    network: {
+        title: "You're offline",
+        body: "We couldn't reach the analysis service. Check your connection and try again.",
+        canRetry: true,
+    },
+    server: {
+        title: 'Analysis unavailable',
+        body: 'Our analysis service ran into a problem. Give it a moment and try again.',
+        canRetry: true,
+    },
+    invalid_response: {
+        title: "Couldn't read the results",
+        body: 'The analysis came back incomplete. Trying again usually fixes this.',
+        canRetry: true,
+    },
+    invalid_image: {
+        title: "Photo couldn't be processed",
+        body: 'Take another photo with the food or label clearly in frame and good lighting.',
+        canRetry: false,
+    },
+    not_food: {
+        title: 'No food detected',
+        body: "We couldn't find any food in this photo. Frame your plate or the label and scan again.",
+        canRetry: false,
+    },
+}
+
+const FAILURE_ICONS: Record<AnalysisFailureCategory, typeof WifiOff> = {
+    network: WifiOff,
+    server: ServerCrash,
+    invalid_response: CircleAlert,
+    invalid_image: ImageOff,
+    not_food: SearchX,
+}
+
+interface AnalysisFailedStateProps {
+    category: AnalysisFailureCategory
+    title: string
+    onBack: () => void
+    onRetry?: () => void
+    onManualEntry?: () => void
+    onRescan?: () => void
+}
+
+function AnalysisFailedState({ category, title, onBack, onRetry, onManualEntry, onRescan }: AnalysisFailedStateProps) {
+    const copy = FAILURE_COPY[category]
+    const Icon = FAILURE_ICONS[category]
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <View style={styles.header}>
+                <Pressable onPress={onBack} style={styles.backButton}>
+                    <Text variant="body" size="2xl">←</Text>
+                </Pressable>
+                <Text variant="heading" size="lg">{title}</Text>
+                <View style={styles.placeholder} />
+            </View>
+
+            <AnimatedView animation="scaleIn" delay={100} style={styles.failure}>
+                <View style={styles.failureIcon}>
+                    <Icon size={36} color={Colors.gray500} />
+                </View>
+                <Text variant="heading" size="xl" align="center">{copy.title}</Text>
+                <Text variant="body" size="base" color={Colors.gray500} align="center">
+                    {copy.body}
+                </Text>
+            </AnimatedView>
+
+            <AnimatedView animation="slideUp" delay={300} style={styles.actions}>
+                {copy.canRetry && onRetry && (
+                    <Button variant="primary" fullWidth onPress={onRetry} containerStyle={styles.button}>
+                        Try Again
+                    </Button>
+                )}
+                {onManualEntry && (
+                    <Button variant="secondary" fullWidth onPress={onManualEntry} containerStyle={styles.button}>
+                        Enter Manually
+                    </Button>
+                )}
+                {onRescan && (
+                    <Button variant="ghost" fullWidth onPress={onRescan} containerStyle={styles.button}>
+                        Scan Again
+                    </Button>
+                )}
+            </AnimatedView>
+        </SafeAreaView>
+    )
 }
 
 export function ResultScreen(props: ResultScreenProps) {
     const {
+        outcome,
         score,
         verdict,
         macros,
@@ -48,10 +156,18 @@ export function ResultScreen(props: ResultScreenProps) {
         plateConfidence = 1.0,
         scanId = 'unknown',
         productName,
+        verdictChange,
+        sweeteners = [],
+        scoreExplanation,
+        product,
+        intake,
         userId,
         onBack,
         onScanAgain,
         onRecalculate,
+        onRetry,
+        onManualEntry,
+        onRescan,
     } = props
 
     // Debug logging
@@ -63,12 +179,40 @@ export function ResultScreen(props: ResultScreenProps) {
 
     const shareCardRef = useRef<View>(null)
     const [showCorrectionSheet, setShowCorrectionSheet] = useState(false)
-    const [currentScore, setCurrentScore] = useState(score)
-    const [currentVerdict, setCurrentVerdict] = useState(verdict)
     const [isSharing, setIsSharing] = useState(false)
 
+    // Products are judged per portion against what's left of today's carb limit
+    const portions = useMemo(() => (product ? getProductPortions(product) : []), [product])
+    const [portionIndex, setPortionIndex] = useState(0)
+    const [quantity, setQuantity] = useState(1)
+    const portion = portions[portionIndex] ?? portions[0]
+    const portionMacros = portion ? scaleMacros(portion.macros, quantity) : undefined
+    const portionScore = product && portionMacros && intake
+        ? calculateProductScore(product.ingredients, product.macros, {
+            netCarbs: portionMacros.net_carbs,
+            remainingNetCarbs: intake.remainingNetCarbs,
+        })
+        : null
+
+    // Products reopened from History are judged against the day they were scanned
+    const intakeDay = intake && intake.date !== format(new Date(), 'yyyy-MM-dd')
+        ? `${format(parseISO(intake.date), 'MMM d')}'s`
+        : "today's"
+
+    const shownScore = portionScore?.score ?? score
+    const shownVerdict = portionScore?.verdict ?? verdict
+    const shownMacros = portionMacros ?? macros
+
+    // Sweeteners are known per 100g; scale them to the portion on screen
+    const shownGrams = portion ? Math.round(portion.grams * quantity) : 100
+    const shownSweeteners = sweeteners.map(sweetener => ({
+        ...sweetener,
+        grams: Math.round(sweetener.grams * shownGrams / 10) / 10,
+        excluded_grams: Math.round(sweetener.excluded_grams * shownGrams / 10) / 10,
+    }))
+
     const title = scanType === 'meal' ? 'Meal Analysis' : 'Product Analysis'
-    const isHighScore = currentScore >= 80
+    const isHighScore = shownScore >= SCORE_THRESHOLDS.SAFE
 
     const offenders = foods.filter(f => f.is_keto_offender)
     const hasOffenders = offenders.length > 0
@@ -80,49 +224,15 @@ export function ResultScreen(props: ResultScreenProps) {
     const handleCorrections = useCallback(async (corrections: CorrectionResult[]) => {
         haptics.success()
 
-        // Log corrections to Shadow DB
-        for (const c of corrections) {
-            await ShadowDbService.submitCorrection({
-                product_id: scanId, // In this context, scanId should be product_id from Shadow DB if available
-                scan_event_id: scanId, // Need to handle IDs mapping carefully
-                action: c.action,
-                original_label: c.originalFood.name,
-                corrected_label: c.replacementName,
-            })
-        }
-
-        // Apply corrections to foods list
-        const updatedFoods = foods.map(food => {
-            const correction = corrections.find(c => c.originalFood.name === food.name)
-            if (!correction) return food
-
-            if (correction.action === 'removed') {
-                return null
-            }
-            if (correction.action === 'replaced' && correction.replacementName) {
-                return { ...food, name: correction.replacementName }
-            }
-            return food
-        }).filter(Boolean) as DetectedFood[]
-
-        if (onRecalculate) {
-            onRecalculate(updatedFoods)
-        }
-
-        const removedCount = corrections.filter(c => c.action === 'removed').length
-        const newScore = Math.min(100, currentScore + (removedCount * 5))
-        setCurrentScore(newScore)
-
-        if (newScore >= 75 && currentVerdict === 'borderline') {
-            setCurrentVerdict('safe')
-        }
+        // Macros and score are recomputed, and the corrections logged, against the saved scan
+        onRecalculate?.(corrections)
 
         AnalyticsService.track('corrections_made', {
             scanId,
             correctionCount: corrections.length,
             userId
         })
-    }, [foods, scanId, currentScore, currentVerdict, onRecalculate])
+    }, [scanId, userId, onRecalculate])
 
     const handleShare = useCallback(async () => {
         haptics.light()
@@ -130,18 +240,31 @@ export function ResultScreen(props: ResultScreenProps) {
 
         try {
             await shareResult(shareCardRef, {
-                score: currentScore,
-                verdict: currentVerdict,
+                score: shownScore,
+                verdict: shownVerdict,
                 userId,
                 productName,
             })
-            AnalyticsService.track(EVENTS.SHARE_CLICKED, { userId, verdict: currentVerdict })
+            AnalyticsService.track(EVENTS.SHARE_CLICKED, { userId, verdict: shownVerdict })
         } catch (error) {
             console.error('Share failed:', error)
         } finally {
             setIsSharing(false)
         }
-    }, [currentScore, currentVerdict, userId, productName])
+    }, [shownScore, shownVerdict, userId, productName])
+
+    if (outcome?.status === 'failed' || outcome?.status === 'not-food') {
+        return (
+            <AnalysisFailedState
+                category={outcome.category}
+                title={title}
+                onBack={onBack}
+                onRetry={onRetry}
+                onManualEntry={onManualEntry}
+                onRescan={onRescan}
+            />
+        )
+    }
 
     if (isSharing) {
         return <Loader fullScreen message="Preparing share card..." />
@@ -153,9 +276,9 @@ export function ResultScreen(props: ResultScreenProps) {
             <View style={styles.hiddenCardContainer}>
                 <ShareCard
                     ref={shareCardRef}
-                    score={currentScore}
-                    verdict={currentVerdict}
-                    macros={macros}
+                    score={shownScore}
+                    verdict={shownVerdict}
+                    macros={shownMacros}
                     productName={productName}
                 />
             </View>
@@ -172,8 +295,13 @@ export function ResultScreen(props: ResultScreenProps) {
             <ScrollView style={styles.scrollContent} contentContainerStyle={styles.content}>
                 {/* Score Section */}
                 <AnimatedView animation="scaleIn" delay={200} style={styles.scoreSection}>
-                    <ScoreCircle score={currentScore} verdict={currentVerdict} animated={true} />
-                    <VerdictPill verdict={currentVerdict} size="lg" />
+                    <ScoreCircle score={shownScore} verdict={shownVerdict} animated={true} />
+                    <VerdictPill verdict={shownVerdict} size="lg" />
+                    {scoreExplanation && (
+                        <Text variant="body" size="sm" color={Colors.gray600} align="center">
+                            {scoreExplanation}
+                        </Text>
+                    )}
                 </AnimatedView>
 
                 {/* Product Name */}
@@ -183,6 +311,43 @@ export function ResultScreen(props: ResultScreenProps) {
                     </Text>
                 )}
 
+                {/* Verdict changed under the current scoring rules */}
+                {verdictChange && (
+                    <AnimatedView animation="slideUp" delay={400} style={styles.verdictChange}>
+                        <History size={18} color={Colors.gray600} />
+                        <Text variant="body" size="sm" color={Colors.gray600} style={styles.verdictChangeText}>
+                            Our keto rules have changed since you last scanned this. It was {getVerdictLabel(verdictChange.previousVerdict)} ({verdictChange.previousScore}), now {getVerdictLabel(verdict)}.
+                        </Text>
+                    </AnimatedView>
+                )}
+
+                {/* Partial Analysis Notice */}
+                {outcome?.status === 'partial' && (
+                    <AnimatedView animation="slideUp" delay={400} style={styles.partialNotice}>
+                        <View style={styles.offendersHeader}>
+                            <AlertTriangle size={18} color={Colors.ketoBorderline} />
+                            <Text variant="heading" size="base">Partial analysis</Text>
+                        </View>
+                        {outcome.issues.map(issue => (
+                            <Text key={issue} variant="body" size="sm" color={Colors.gray600}>
+                                {issue}
+                            </Text>
+                        ))}
+                        <View style={styles.partialActions}>
+                            {onRetry && (
+                                <Pressable onPress={onRetry}>
+                                    <Text variant="caption" color={Colors.ketoSafe}>Try again</Text>
+                                </Pressable>
+                            )}
+                            {onManualEntry && (
+                                <Pressable onPress={onManualEntry}>
+                                    <Text variant="caption" color={Colors.ketoSafe}>Enter manually</Text>
+                                </Pressable>
+                            )}
+                        </View>
+                    </AnimatedView>
+                )}
+
                 {/* Tap to Review Prompt */}
                 {shouldShowReviewPrompt && foods.length > 0 && (
                     <AnimatedView animation="slideUp" delay={600}>
@@ -202,19 +367,73 @@ export function ResultScreen(props: ResultScreenProps) {
                     </AnimatedView>
                 )}
 
+                {/* Portion Picker */}
+                {portion && portionMacros && (
+                    <AnimatedView animation="slideUp" delay={300} style={styles.portion}>
+                        <Text variant="caption" weight="bold" color={Colors.gray500}>PORTION</Text>
+                        <View style={styles.chips}>
+                            {portions.map((option, index) => (
+                                <Pressable
+                                    key={option.label}
+                                    style={[styles.chip, option === portion && styles.chipActive]}
+                                    onPress={() => setPortionIndex(index)}
+                                >
+                                    <Text variant="body" size="sm" color={option === portion ? Colors.white : Colors.gray700}>
+                                        {option.label}
+                                    </Text>
+                                </Pressable>
+                            ))}
+                        </View>
+                        <View style={styles.quantityRow}>
+                            <Pressable
+                                style={styles.stepper}
+                                onPress={() => setQuantity(q => Math.max(QUANTITY_STEP, q - QUANTITY_STEP))}
+                            >
+                                <Minus size={18} color={Colors.gray700} />
+                            </Pressable>
+                            <Text variant="heading" size="xl">{quantity}</Text>
+                            <Pressable style={styles.stepper} onPress={() => setQuantity(q => q + QUANTITY_STEP)}>
+                                <Plus size={18} color={Colors.gray700} />
+                            </Pressable>
+                            <Text variant="body" size="sm" color={Colors.gray500}>
+                                {Math.round(portion.grams * quantity)}g
+                            </Text>
+                        </View>
+                        {intake && (
+                            <Text variant="body" size="sm" color={Colors.gray600}>
+                                {intake.remainingNetCarbs > 0
+                                    ? `${portionMacros.net_carbs}g net carbs, ${Math.round((portionMacros.net_carbs / intake.remainingNetCarbs) * 100)}% of the ${intake.remainingNetCarbs}g left of ${intakeDay} ${intake.carbLimit}g limit`
+                                    : `${portionMacros.net_carbs}g net carbs, and ${intakeDay} ${intake.carbLimit}g limit is already used up`}
+                            </Text>
+                        )}
+                    </AnimatedView>
+                )}
+
                 {/* Macros Section */}
-                {macros && (
+                {shownMacros && (
                     <AnimatedView animation="slideUp" delay={800} style={styles.macrosSection}>
                         <Text variant="heading" size="lg">Nutritional Breakdown</Text>
-                        <MacroChart macros={macros} showLabels={true} />
+                        <MacroChart macros={shownMacros} showLabels={true} />
+                        {shownSweeteners.length > 0 && (
+                            <View style={styles.sweeteners}>
+                                <Text variant="body" size="sm" color={Colors.gray600}>
+                                    Net carbs for {shownGrams}g leave out sweeteners with little effect on blood sugar:
+                                </Text>
+                                {shownSweeteners.map(sweetener => (
+                                    <Text key={sweetener.name} variant="body" size="sm" color={Colors.gray600}>
+                                        • {sweetener.name.charAt(0).toUpperCase() + sweetener.name.slice(1)}: {sweetener.excluded_grams}g of {sweetener.grams}g not counted
+                                    </Text>
+                                ))}
+                            </View>
+                        )}
                     </AnimatedView>
                 )}
 
                 {/* Swap Suggestion */}
                 {swapSuggestion && (
-                    <AnimatedView animation="slideUp" delay={1000} style={[styles.swap, styles[`swap_${currentVerdict}`] || styles.swap_unknown]}>
+                    <AnimatedView animation="slideUp" delay={1000} style={[styles.swap, styles[`swap_${shownVerdict}`] || styles.swap_unknown]}>
                         <Text variant="heading" size="base">
-                            {currentVerdict === 'safe' ? '✅ Great choice!' : '💡 Keto-friendly swap'}
+                            {shownVerdict === 'safe' ? '✅ Great choice!' : '💡 Keto-friendly swap'}
                         </Text>
                         <Text variant="body" size="base">
                             {swapSuggestion}
@@ -331,6 +550,86 @@ const styles = StyleSheet.create({
         borderRadius: BorderRadius.lg,
         marginBottom: Spacing.xl,
     },
+    verdictChange: {
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        gap: Spacing.sm,
+        padding: Spacing.lg,
+        backgroundColor: Colors.gray100,
+        borderRadius: BorderRadius.lg,
+        marginBottom: Spacing.xl,
+    },
+    verdictChangeText: {
+        flex: 1,
+    },
+    partialNotice: {
+        gap: Spacing.xs,
+        padding: Spacing.lg,
+        backgroundColor: Colors.ketoBorderlineDim,
+        borderRadius: BorderRadius.lg,
+        marginBottom: Spacing.xl,
+    },
+    partialActions: {
+        flexDirection: 'row',
+        gap: Spacing.lg,
+        marginTop: Spacing.sm,
+    },
+    failure: {
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.md,
+        paddingHorizontal: Spacing['3xl'],
+    },
+    failureIcon: {
+        width: 80,
+        height: 80,
+        borderRadius: 40,
+        backgroundColor: Colors.gray100,
+        alignItems: 'center',
+        justifyContent: 'center',
+        marginBottom: Spacing.md,
+    },
+    portion: {
+        gap: Spacing.md,
+        padding: Spacing.xl,
+        backgroundColor: Colors.gray50,
+        borderRadius: BorderRadius.xl,
+        marginBottom: Spacing['2xl'],
+    },
+    chips: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: Spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderRadius: BorderRadius.full,
+        backgroundColor: Colors.gray100,
+    },
+    chipActive: {
+        backgroundColor: Colors.ketoSafe,
+    },
+    quantityRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.lg,
+    },
+    stepper: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        backgroundColor: Colors.gray100,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    sweeteners: {
+        gap: Spacing.xs,
+        paddingTop: Spacing.md,
+        borderTopWidth: 1,
+        borderTopColor: Colors.gray200,
+    },
     macrosSection: {
         gap: Spacing.lg,
         padding: Spacing['2xl'],
@@ -0,0 +1,222 @@
+/**
+ * WeightLogScreen
+ * Log weigh-ins and body measurements, and follow the weight trend
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { View, StyleSheet, TouchableOpacity, Alert } from 'react-native'
+import { Screen, Navbar } from '../components/layout'
+import { Text, Button, Input, Loader } from '../components/atoms'
+import { WeightChart } from '../components/ui'
+import { Colors, Spacing, BorderRadius } from '../constants/theme'
+import { ProfileService, UserProfile } from '../services/profileService'
+import { WeightLogService, WeighIn, calculateWeightTrend } from '../services/weightLogService'
+import {
+    convertWaist,
+    convertWeight,
+    validateBodyFat,
+    validateWaist,
+    validateWeight,
+    WaistUnit,
+} from '../utils/profileValidation'
+import { format } from 'date-fns'
+
+const RECENT_LIMIT = 10
+
+interface WeightLogScreenProps {
+    userId?: string
+    onBack: () => void
+}
+
+export function WeightLogScreen({ userId, onBack }: WeightLogScreenProps) {
+    const [profile, setProfile] = useState<UserProfile | null>(null)
+    const [entries, setEntries] = useState<WeighIn[]>([])
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+
+    const [weight, setWeight] = useState('')
+    const [waist, setWaist] = useState('')
+    const [bodyFat, setBodyFat] = useState('')
+    const [errors, setErrors] = useState<{ weight?: string, waist?: string, bodyFat?: string }>({})
+
+    const weightUnit = profile?.weight_unit ?? 'kg'
+    const waistUnit: WaistUnit = profile?.height_unit === 'ft' ? 'in' : 'cm'
+
+    useEffect(() => {
+        const load = async () => {
+            const [current, weighIns] = await Promise.all([
+                ProfileService.getCurrentProfile(userId),
+                WeightLogService.getWeighIns(userId),
+            ])
+            setProfile(current)
+            setEntries(weighIns)
+            setLoading(false)
+        }
+        load()
+    }, [userId])
+
+    const trend = useMemo(() => calculateWeightTrend(entries), [entries])
+
+    const handleSave = useCallback(async () => {
+        const values = {
+            weight: parseFloat(weight),
+            waist: waist.trim() ? parseFloat(waist) : null,
+            bodyFat: bodyFat.trim() ? parseFloat(bodyFat) : null,
+        }
+        const nextErrors = {
+            weight: validateWeight(values.weight, weightUnit) ?? undefined,
+            waist: values.waist !== null ? validateWaist(values.waist, waistUnit) ?? undefined : undefined,
+            bodyFat: values.bodyFat !== null ? validateBodyFat(values.bodyFat) ?? undefined : undefined,
+        }
+        setErrors(nextErrors)
+        if (nextErrors.weight || nextErrors.waist || nextErrors.bodyFat) return
+
+        setSaving(true)
+        const result = await WeightLogService.logWeighIn(userId, profile, {
+            weight_kg: convertWeight(values.weight, weightUnit, 'kg'),
+            waist_cm: values.waist !== null ? convertWaist(values.waist, waistUnit, 'cm') : null,
+            body_fat_percent: values.bodyFat,
+        })
+        setSaving(false)
+
+        if (!result) {
+            Alert.alert('Could not save', 'Your weigh-in was not saved. Please try again.')
+            return
+        }
+
+        setEntries(prev => [...prev, result.entry])
+        setWeight('')
+        setWaist('')
+        setBodyFat('')
+
+        if (result.profile) {
+            setProfile(result.profile)
+            Alert.alert('Targets updated', `Your daily calorie target is now ${result.profile.calorie_target} kcal.`)
+        }
+    }, [weight, waist, bodyFat, weightUnit, waistUnit, userId, profile])
+
+    const handleDelete = useCallback((entry: WeighIn) => {
+        Alert.alert('Delete weigh-in?', format(new Date(entry.recorded_at), 'MMM d, yyyy'), [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                    const deleted = await WeightLogService.deleteWeighIn(userId, entry.id)
+                    if (deleted) setEntries(prev => prev.filter(e => e.id !== entry.id))
+                },
+            },
+        ])
+    }, [userId])
+
+    if (loading) {
+        return <Loader fullScreen message="Loading weigh-ins..." />
+    }
+
+    return (
+        <Screen header={<Navbar title="Weight & Measurements" showBack onBack={onBack} />}>
+            <View style={styles.section}>
+                <WeightChart points={trend} unit={weightUnit} />
+            </View>
+
+            <View style={styles.section}>
+                <Text variant="heading" size="lg" style={styles.sectionTitle}>
+                    New Weigh-in
+                </Text>
+                <Input
+                    label={`Weight (${weightUnit})`}
+                    value={weight}
+                    onChangeText={setWeight}
+                    keyboardType="decimal-pad"
+                    error={errors.weight}
+                />
+                <View style={styles.row}>
+                    <Input
+                        label={`Waist (${waistUnit}, optional)`}
+                        value={waist}
+                        onChangeText={setWaist}
+                        keyboardType="decimal-pad"
+                        error={errors.waist}
+                        containerStyle={styles.rowInput}
+                    />
+                    <Input
+                        label="Body fat (%, optional)"
+                        value={bodyFat}
+                        onChangeText={setBodyFat}
+                        keyboardType="decimal-pad"
+                        error={errors.bodyFat}
+                        containerStyle={styles.rowInput}
+                    />
+                </View>
+                <Button onPress={handleSave} loading={saving} disabled={!weight.trim()}>
+                    Save Weigh-in
+                </Button>
+            </View>
+
+            {entries.length > 0 && (
+                <View style={styles.section}>
+                    <Text variant="heading" size="lg" style={styles.sectionTitle}>
+                        Recent
+                    </Text>
+                    <View style={styles.list}>
+                        {[...entries].reverse().slice(0, RECENT_LIMIT).map(entry => (
+                            <TouchableOpacity
+                                key={entry.id}
+                                style={styles.listItem}
+                                onLongPress={() => handleDelete(entry)}
+                            >
+                                <Text variant="body" color={Colors.gray600}>
+                                    {format(new Date(entry.recorded_at), 'MMM d')}
+                                </Text>
+                                <Text variant="body" weight="bold">
+                                    {convertWeight(entry.weight_kg, 'kg', weightUnit)} {weightUnit}
+                                    {entry.waist_cm != null && ` · ${convertWaist(entry.waist_cm, 'cm', waistUnit)} ${waistUnit}`}
+                                    {entry.body_fat_percent != null && ` · ${entry.body_fat_percent}%`}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <Text variant="caption" color={Colors.gray400} style={styles.hint}>
+                        Long-press a weigh-in to delete it
+                    </Text>
+                </View>
+            )}
+        </Screen>
+    )
+}
+
+const styles = StyleSheet.create({
+    section: {
+        marginBottom: Spacing['3xl'],
+    },
+    sectionTitle: {
+        marginBottom: Spacing.md,
+        color: Colors.gray900,
+    },
+    row: {
+        flexDirection: 'row',
+        gap: Spacing.md,
+    },
+    rowInput: {
+        flex: 1,
+        width: undefined,
+    },
+    list: {
+        backgroundColor: Colors.white,
+        borderRadius: BorderRadius.xl,
+        borderWidth: 1,
+        borderColor: Colors.gray100,
+        overflow: 'hidden',
+    },
+    listItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        padding: Spacing.lg,
+        borderBottomWidth: 1,
+        borderBottomColor: Colors.gray50,
+    },
+    hint: {
+        marginTop: Spacing.sm,
+    },
+})
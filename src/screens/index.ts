@@ -12,3 +12,5 @@ export { ProfileScreen } from './ProfileScreen'
 export { GroceryScannerScreen } from './GroceryScannerScreen'
 export { PaywallScreen } from './PaywallScreen'
 export { HistoryScreen, type HistoryItem } from './HistoryScreen'
+export { FoodSearchScreen } from './FoodSearchScreen'
+export { WeightLogScreen } from './WeightLogScreen'
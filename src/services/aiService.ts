@@ -6,9 +6,25 @@
 
 import { supabase } from './supabase';
 import type { KetoVerdict, Macros, DetectedFood } from '../types';
-import { lookupFood } from './foodDatabase';
+import {
+    addedBreakdownFood,
+    enrichMacrosWithDatabase,
+    fitBreakdownToTotal,
+    getCarbRisk,
+    replaceBreakdownFood,
+    splitMealMacros,
+    sumBreakdown,
+    FoodMacroBreakdown,
+    FoodMetadata,
+} from './foodDatabase';
+import {
+    calculateMealScore,
+    calculateProductScore,
+    normalizeModelScore,
+    MealScoringContext,
+} from './ketoScoring';
 import { preprocessRemoteImage } from '../utils/imageUtils';
-import { withRetry } from '../utils/retry';
+import { withRetry, isRetryableError } from '../utils/retry';
 
 export interface AnalysisResult {
     score: number;
@@ -18,6 +34,98 @@ export interface AnalysisResult {
     swapSuggestion: string;
     foods: DetectedFood[];
     plateConfidence: number;
+    breakdown?: FoodMacroBreakdown[];
+    isFood?: boolean;
+    rulesetVersion?: string;
+    scoreExplanation?: string; // set once the score is personalized
+}
+
+// A user's review of one detected food, or a food the model missed
+export interface MealCorrection {
+    originalFood: DetectedFood; // for 'added', the food the user added
+    foodIndex?: number; // position of a detected food in the meal's foods; names can repeat
+    action: 'confirmed' | 'removed' | 'replaced' | 'added';
+    replacementName?: string;
+    grams?: number; // weight of an added food's portion
+    food?: FoodMetadata; // the database food an added item was picked from
+}
+
+export type AnalysisFailureCategory =
+    | 'network' // couldn't reach the edge function
+    | 'server' // the edge function or model errored
+    | 'invalid_image' // the photo couldn't be preprocessed
+    | 'invalid_response' // the model answered with something unusable
+    | 'not_food';
+
+/**
+ * What a scan produced, so the UI never has to guess from a bare result.
+ * `partial` results are usable but incomplete; `issues` says what's missing.
+ */
+export type AnalysisOutcome =
+    | { status: 'success'; result: AnalysisResult }
+    | { status: 'partial'; result: AnalysisResult; issues: string[] }
+    | { status: 'failed'; category: Exclude<AnalysisFailureCategory, 'not_food'>; message: string }
+    | { status: 'not-food'; category: 'not_food'; message: string };
+
+// The edge function already tried every provider it has; retrying would run the whole chain again
+const PROVIDERS_EXHAUSTED_PATTERN = /All AI providers failed|No AI provider configured/;
+
+function hasMacros(macros: Macros | undefined): boolean {
+    if (!macros) return false;
+    return [macros.net_carbs, macros.fat, macros.protein, macros.calories]
+        .every(value => typeof value === 'number' && Number.isFinite(value))
+        && macros.calories > 0;
+}
+
+/**
+ * Classify a response from analyzePhoto
+ */
+export function classifyAnalysis(result: AnalysisResult | null | undefined): AnalysisOutcome {
+    if (!result || typeof result.score !== 'number' || !result.verdict) {
+        return { status: 'failed', category: 'invalid_response', message: 'The analysis came back empty.' };
+    }
+
+    const foods = result.foods || [];
+    if (result.isFood === false || (result.verdict === 'unknown' && foods.length === 0)) {
+        return { status: 'not-food', category: 'not_food', message: result.reasoning || 'No food detected.' };
+    }
+
+    const issues: string[] = [];
+    if (result.verdict === 'unknown') issues.push("We couldn't score this confidently.");
+    if (!hasMacros(result.macros)) issues.push("Macros couldn't be estimated.");
+    if (foods.length === 0) issues.push('No individual foods were identified.');
+
+    return issues.length > 0
+        ? { status: 'partial', result, issues }
+        : { status: 'success', result };
+}
+
+/**
+ * Classify an error thrown while analyzing
+ */
+export function classifyAnalysisError(error: unknown): AnalysisOutcome {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // Provider errors quoted in the message mustn't pass for our own connection failing
+    if (PROVIDERS_EXHAUSTED_PATTERN.test(message)) {
+        return { status: 'failed', category: 'server', message };
+    }
+
+    if (isRetryableError(error)) {
+        const isNetwork = /network|timeout|fetch failed|failed to send a request/i.test(message);
+        return { status: 'failed', category: isNetwork ? 'network' : 'server', message };
+    }
+    if (error instanceof SyntaxError) {
+        return { status: 'failed', category: 'invalid_response', message };
+    }
+    return { status: 'failed', category: 'server', message };
+}
+
+/**
+ * Analytics category for an outcome; null when nothing failed
+ */
+export function getFailureCategory(outcome: AnalysisOutcome): AnalysisFailureCategory | null {
+    return outcome.status === 'failed' || outcome.status === 'not-food' ? outcome.category : null;
 }
 
 /**
@@ -58,7 +166,9 @@ export async function analyzePhoto(
             });
 
             if (error) {
-                throw new Error(error.message || 'Analysis failed');
+                // Non-2xx answers carry the function's own error in the body
+                const body = error.context instanceof Response ? await error.context.json().catch(() => null) : null;
+                throw new Error(body?.error || error.message || 'Analysis failed');
             }
 
             if (data.error) {
@@ -70,21 +180,136 @@ export async function analyzePhoto(
         {
             maxRetries: 3,
             delayMs: 1000,
+            shouldRetry: error => !PROVIDERS_EXHAUSTED_PATTERN.test(error.message),
             onRetry: (attempt, error) => {
                 console.log(`[AIService] Retry attempt ${attempt}: ${error.message}`);
             },
         }
     );
 
-    // Hybrid database verification
-    if (result.foods && result.foods.length > 0) {
-        for (const food of result.foods) {
-            const verifiedMatch = lookupFood(food.name);
-            if (verifiedMatch && verifiedMatch.confidence > 0.9) {
-                result.reasoning = `${result.reasoning || ''} (Verified: ${verifiedMatch.name})`;
-            }
+    // Hybrid database verification: verified foods replace the model's guessed macros
+    if (result.foods && result.foods.length > 0 && type === 'meal') {
+        const { enrichedMacros, breakdown, verificationFlags } = enrichMacrosWithDatabase(result.foods, result.macros);
+        if (breakdown.length > 0) {
+            result.macros = enrichedMacros;
+            result.breakdown = breakdown;
+            result.reasoning = `${result.reasoning || ''} (${verificationFlags.join(', ')})`.trim();
         }
     }
 
-    return result;
+    return applyScoringRuleset(result, type);
+}
+
+/**
+ * Re-score a model response with the app's scoring engine.
+ * Label scans are scored from their ingredients and per-100g macros exactly
+ * like barcode lookups; meal scores keep the model's number but take their
+ * verdict from our thresholds.
+ */
+function applyScoringRuleset(result: AnalysisResult, type: 'meal' | 'product'): AnalysisResult {
+    if (typeof result.score !== 'number') return result; // unusable, classifyAnalysis reports it
+
+    const ingredients = (result.foods || []).map(f => f.name);
+    const scored = type === 'product' && ingredients.length > 0 && result.verdict !== 'unknown'
+        ? calculateProductScore(ingredients, hasMacros(result.macros) ? result.macros : null)
+        : normalizeModelScore(result.score, result.verdict);
+
+    return {
+        ...result,
+        score: scored.score,
+        verdict: scored.verdict,
+        rulesetVersion: scored.ruleset_version,
+    };
+}
+
+/**
+ * Replace a meal's model score with one computed on device from the user's
+ * carb limit, what's left of it today, goal and strictness.
+ * Analyses with nothing to score keep their verdict.
+ */
+export function personalizeMealAnalysis(result: AnalysisResult, context: MealScoringContext): AnalysisResult {
+    if (result.verdict === 'unknown' || !hasMacros(result.macros)) return result;
+
+    const scored = calculateMealScore(result.macros, context);
+    return {
+        ...result,
+        score: scored.score,
+        verdict: scored.verdict,
+        rulesetVersion: scored.ruleset_version,
+        scoreExplanation: scored.explanation,
+    };
+}
+
+// "No rice", "No sauce": replaced with nothing at all
+const NOTHING_PATTERN = /^no\s+/i;
+
+/**
+ * Apply the user's review to a meal: removed foods drop their share of the
+ * macros, swapped foods take the replacement's database macros at the same
+ * weight, added foods contribute their portion, and the meal is re-scored
+ * (personally when a context is given). A replacement missing from the
+ * database keeps the original food's share.
+ */
+export function applyMealCorrections(
+    result: AnalysisResult,
+    corrections: MealCorrection[],
+    context?: MealScoringContext | null
+): AnalysisResult {
+    // A meal reopened from History has only its stored total, so the estimated split is held to it
+    const breakdown = result.breakdown && result.breakdown.length === result.foods.length
+        ? result.breakdown
+        : fitBreakdownToTotal(splitMealMacros(result.foods, result.macros), result.macros);
+
+    const foods: DetectedFood[] = [];
+    const items: FoodMacroBreakdown[] = [];
+
+    result.foods.forEach((food, i) => {
+        const correction = corrections.find(c => c.action !== 'added' && c.foodIndex === i);
+
+        if (correction?.action === 'removed') return;
+
+        if (correction?.action === 'replaced' && correction.replacementName) {
+            const name = correction.replacementName;
+            if (NOTHING_PATTERN.test(name)) return;
+
+            const item = replaceBreakdownFood(breakdown[i], name) ?? { ...breakdown[i], name, matchedFood: undefined };
+            const carbRisk = getCarbRisk(item.macros.net_carbs);
+            foods.push({ ...food, name, confidence: 1, raw_confidence: undefined, carb_risk: carbRisk, is_keto_offender: carbRisk === 'high', reviewed: true });
+            items.push(item);
+            return;
+        }
+
+        // Confirmed by the user, so no longer in doubt; left alone, it was still reviewed
+        foods.push(correction?.action === 'confirmed' ? { ...food, confidence: 1, reviewed: true } : { ...food, reviewed: true });
+        items.push(breakdown[i]);
+    });
+
+    for (const correction of corrections) {
+        if (correction.action !== 'added') continue;
+
+        const food = correction.originalFood;
+        if (!correction.food || !correction.grams || correction.grams <= 0) {
+            console.error('[AIService] Added food has no database entry or weight:', food.name);
+            continue;
+        }
+        const item = addedBreakdownFood(correction.food, correction.grams, food.estimated_portion);
+
+        const carbRisk = getCarbRisk(item.macros.net_carbs);
+        foods.push({ ...food, confidence: 1, carb_risk: carbRisk, is_keto_offender: carbRisk === 'high', reviewed: true });
+        items.push(item);
+    }
+
+    const macros = sumBreakdown(items);
+    const scored = calculateMealScore(macros, context ?? undefined);
+
+    return {
+        ...result,
+        foods,
+        macros,
+        breakdown: items,
+        score: scored.score,
+        verdict: scored.verdict,
+        rulesetVersion: scored.ruleset_version,
+        scoreExplanation: scored.explanation,
+    };
 }
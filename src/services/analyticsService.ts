@@ -48,6 +48,7 @@ export const EVENTS = {
     SCAN_STARTED: 'scan_started',
     SCAN_COMPLETED: 'scan_completed',
     SCAN_FAILED: 'scan_failed',
+    SCAN_QUEUED: 'scan_queued',
     PAYWALL_VIEWED: 'paywall_viewed',
     PURCHASE_STARTED: 'purchase_started',
     PURCHASE_COMPLETED: 'purchase_completed',
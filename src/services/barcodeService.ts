@@ -4,9 +4,12 @@
  * Free, open-source database with no authentication required
  */
 
-import { calculateProductScore } from './ketoScoring';
-import { ShadowDbService } from './shadowDbService';
-import type { Macros, KetoVerdict } from '../types';
+import { calculateProductScore, calculateNetCarbs, getProductRulesetVersion, getSweetenerAdjustments } from './ketoScoring';
+import { SCORE_THRESHOLDS } from '../constants/keto';
+import { ShadowDbService, ShadowNutrition } from './shadowDbService';
+import { ProductCacheService } from './productCacheService';
+import { parseIngredientList, formatIngredient } from '../utils/ingredientParser';
+import type { Macros, KetoVerdict, SweetenerAdjustment } from '../types';
 
 const API_BASE = 'https://world.openfoodfacts.org/api/v0/product';
 
@@ -16,16 +19,42 @@ export interface ProductData {
     barcode: string;
     name: string;
     brand: string;
-    macros: Macros;
-    ingredients: string[];
+    macros: Macros; // per 100g
+    macrosPerServing?: Macros;
+    servingSize?: string; // label text, e.g. "2 tbsp (30 g)"
+    servingGrams?: number;
+    sweeteners?: SweetenerAdjustment[]; // sugar alcohols and allulose that lowered net carbs, per 100g
+    ingredients: string[]; // normalized, one entry per label ingredient, e.g. "chocolate (sugar, cocoa butter)"
+    ingredientsText?: string; // label text as printed
     ketoScore: number;
     ketoVerdict: KetoVerdict;
+    rulesetVersion?: string;
+    verdictChange?: VerdictChange;
     swapSuggestion: string;
     imageUrl?: string;
     imageIngredientsUrl?: string;
     imageNutritionUrl?: string;
     source: 'shadow' | 'api' | 'ocr' | 'manual';
     needsOCR?: boolean;
+    loggedPortion?: boolean; // reopened from a food-search log: `macros` are that portion, not per 100g
+}
+
+/**
+ * An amount of a product the user might eat, with its macros
+ */
+export interface ProductPortion {
+    label: string;
+    grams: number;
+    macros: Macros;
+}
+
+/**
+ * Set when a product was re-scored under the current ruleset and its verdict moved
+ */
+export interface VerdictChange {
+    previousVerdict: KetoVerdict;
+    previousScore: number;
+    previousRulesetVersion?: string;
 }
 
 const BARCODE_REGEX = /^[0-9]{8,14}$/;
@@ -37,12 +66,22 @@ interface OpenFoodFactsNutriments {
     'energy-kcal_100g'?: number;
     'fiber_100g'?: number;
     'sugars_100g'?: number;
+    'polyols_100g'?: number;
+    'carbohydrates_serving'?: number;
+    'fat_serving'?: number;
+    'proteins_serving'?: number;
+    'energy-kcal_serving'?: number;
+    'fiber_serving'?: number;
+    'sugars_serving'?: number;
+    'polyols_serving'?: number;
 }
 
 interface OpenFoodFactsProduct {
     product_name?: string;
     brands?: string;
     nutriments?: OpenFoodFactsNutriments;
+    serving_size?: string;
+    serving_quantity?: number | string;
     ingredients_text?: string;
     image_url?: string;
 }
@@ -53,9 +92,15 @@ interface OpenFoodFactsResponse {
 }
 
 /**
- * Lookup a product by barcode with multi-layer fallback
+ * Lookup a product by barcode with multi-layer fallback.
+ * Products already on device are returned straight from the cache; stale ones
+ * are refreshed in the background and handed to `onRevalidated` if found.
  */
-export async function lookupProduct(barcode: string, countryCode: string = 'US'): Promise<ProductData> {
+export async function lookupProduct(
+    barcode: string,
+    countryCode: string = 'US',
+    onRevalidated?: (product: ProductData) => void
+): Promise<ProductData> {
     console.log('[BarcodeService] Multi-layer lookup for:', barcode);
 
     // 0. Layer 0: Barcode Validation
@@ -75,30 +120,96 @@ export async function lookupProduct(barcode: string, countryCode: string = 'US')
         };
     }
 
-    // 1. Layer 1: Check Shadow DB
+    // 1. Layer 1: On-device cache
+    const local = await ProductCacheService.get(barcode, countryCode);
+    if (local) {
+        console.log('[BarcodeService] Found in device cache', local.isStale ? '(stale)' : '');
+        // Re-scored on device so the verdict follows today's rules even with no reception
+        const product = rescoreIfOutdated(local.product);
+        if (local.isStale) {
+            fetchRemoteProduct(barcode, countryCode)
+                .then(fresh => {
+                    if (!fresh.found) return;
+                    const changed = !fresh.verdictChange && fresh.ketoVerdict !== local.product.ketoVerdict
+                        && local.product.rulesetVersion !== fresh.rulesetVersion;
+                    onRevalidated?.(changed ? { ...fresh, verdictChange: toVerdictChange(local.product) } : fresh);
+                })
+                .catch(err => console.error('[BarcodeService] Revalidation failed:', err));
+        }
+        return product;
+    }
+
+    return fetchRemoteProduct(barcode, countryCode);
+}
+
+/**
+ * Portions to judge a product by: its label serving when known, then 100g.
+ * Empty when there's no nutrition to scale.
+ */
+export function getProductPortions(product: ProductData): ProductPortion[] {
+    if (product.loggedPortion || !hasNutrition(product.macros)) return [];
+
+    const portions: ProductPortion[] = [];
+    if (product.servingGrams) {
+        portions.push({
+            label: product.servingSize || `${product.servingGrams}g`,
+            grams: product.servingGrams,
+            macros: product.macrosPerServing ?? scaleMacros(product.macros, product.servingGrams / 100),
+        });
+    }
+    portions.push({ label: '100g', grams: 100, macros: product.macros });
+
+    return portions;
+}
+
+/**
+ * Shadow DB, then Open Food Facts. Found products are written to the device cache.
+ */
+async function fetchRemoteProduct(barcode: string, countryCode: string): Promise<ProductData> {
+    const product = await lookupRemote(barcode, countryCode);
+    if (product.found) {
+        await ProductCacheService.set(product, countryCode);
+    }
+    return product;
+}
+
+async function lookupRemote(barcode: string, countryCode: string): Promise<ProductData> {
+    // 2. Layer 2: Check Shadow DB
     try {
         const cached = await ShadowDbService.lookupByBarcode(barcode, countryCode);
         if (cached && cached.keto_analysis) {
             console.log('[BarcodeService] Found in Shadow DB');
-            return {
+            const nutrition = cached.product_nutrition;
+            const macros = nutrition?.per_100g ?? { net_carbs: 0, fat: 0, protein: 0, calories: 0 };
+            const ingredients = cached.ingredients_normalized || [];
+            const stored = cached.keto_analysis;
+
+            // Re-scored on device for display only; the stored analysis is shared,
+            // so rewriting it is left to the rescore-products job
+            return rescoreIfOutdated({
                 id: cached.id,
                 found: true,
                 barcode: cached.barcode || barcode,
                 name: cached.product_name || `Product #${barcode.slice(-4)}`,
                 brand: cached.brand || '',
-                macros: { net_carbs: 0, fat: 0, protein: 0, calories: 0 }, // Macros might need separate table in future
-                ingredients: cached.ingredients_normalized || [],
-                ketoScore: cached.keto_analysis.keto_score,
-                ketoVerdict: cached.keto_analysis.verdict as KetoVerdict,
-                swapSuggestion: generateSwapSuggestion(cached.keto_analysis.keto_score, 0, cached.ingredients_normalized || []),
+                macros,
+                macrosPerServing: nutrition?.per_serving ?? undefined,
+                servingSize: nutrition?.serving_size ?? undefined,
+                servingGrams: nutrition?.serving_grams ?? undefined,
+                sweeteners: getSweetenerAdjustments(macros, ingredients),
+                ingredients,
+                ketoScore: stored.keto_score,
+                ketoVerdict: stored.verdict as KetoVerdict,
+                rulesetVersion: stored.ruleset_version,
+                swapSuggestion: generateSwapSuggestion(stored.keto_score, macros.net_carbs, ingredients),
                 source: 'shadow'
-            };
+            });
         }
     } catch (err) {
         console.error('[BarcodeService] Shadow DB lookup failed:', err);
     }
 
-    // 2. Layer 2: API Lookup (Open Food Facts)
+    // 3. Layer 3: API Lookup (Open Food Facts)
     const apiResult = await lookupProductFromAPI(barcode);
 
     if (apiResult.found) {
@@ -108,23 +219,24 @@ export async function lookupProduct(barcode: string, countryCode: string = 'US')
         }
 
         // Save to Shadow DB for future hits
+        const analysis = calculateProductScore(apiResult.ingredients, apiResult.macros);
         try {
             await ShadowDbService.saveProduct({
                 barcode: apiResult.barcode,
                 country_code: countryCode,
                 product_name: apiResult.name === 'Scanned product' ? null : apiResult.name,
                 brand: apiResult.brand,
-                ingredients_raw: apiResult.ingredients.join(', '),
+                ingredients_raw: apiResult.ingredientsText || apiResult.ingredients.join(', '),
                 ingredients_normalized: apiResult.ingredients,
                 source: apiResult.needsOCR ? 'ocr' : 'api',
                 confidence_level: apiResult.needsOCR ? 'low' : 'high'
             }, {
                 keto_score: apiResult.ketoScore,
                 verdict: mapVerdict(apiResult.ketoVerdict),
-                offenders: [],
-                structural_penalties: [],
-                ruleset_version: 'v1'
-            });
+                offenders: analysis.offenders,
+                structural_penalties: analysis.structural_penalties,
+                ruleset_version: analysis.ruleset_version
+            }, toShadowNutrition(apiResult));
         } catch (err) {
             console.error('[BarcodeService] Failed to save to Shadow DB:', err);
         }
@@ -202,7 +314,7 @@ async function lookupProductFromAPI(barcode: string): Promise<ProductData> {
                 brand: product.brands || '',
                 macros: { net_carbs: 0, fat: 0, protein: 0, calories: 0 },
                 ingredients: [],
-                ketoScore: 50, // Neutral score for incomplete data
+                ketoScore: SCORE_THRESHOLDS.BORDERLINE, // Neutral score for incomplete data
                 ketoVerdict: 'borderline',
                 swapSuggestion: 'Analyzing label images for better accuracy...',
                 imageUrl: imageFrontUrl,
@@ -213,41 +325,26 @@ async function lookupProductFromAPI(barcode: string): Promise<ProductData> {
             };
         }
 
-        // Calculate net carbs (carbs - fiber)
-        const totalCarbs = nutriments['carbohydrates_100g'] || 0;
-        const fiber = nutriments['fiber_100g'] || 0;
-        const netCarbs = Math.max(0, totalCarbs - fiber);
-
-        const macros: Macros = {
-            net_carbs: Math.round(netCarbs * 10) / 10,
-            fat: Math.round((nutriments['fat_100g'] || 0) * 10) / 10,
-            protein: Math.round((nutriments['proteins_100g'] || 0) * 10) / 10,
-            calories: Math.round(nutriments['energy-kcal_100g'] || 0),
-            fiber: Math.round(fiber * 10) / 10,
-        };
-
-        // Parse ingredients
+        // Parse ingredients, keeping compound ingredients with their components
         const ingredientsText = product.ingredients_text || '';
-        const ingredients = ingredientsText
-            .split(/[,;]/)
-            .map(i => i.trim().toLowerCase())
-            .filter(i => i.length > 0);
-
-        // Calculate keto score
-        const ketoResult = calculateProductScore(ingredients);
-
-        // Adjust score based on net carbs (per 100g)
-        let adjustedScore = ketoResult.score;
-        if (netCarbs > 20) {
-            adjustedScore = Math.max(0, adjustedScore - 30);
-        } else if (netCarbs > 10) {
-            adjustedScore = Math.max(0, adjustedScore - 15);
-        } else if (netCarbs > 5) {
-            adjustedScore = Math.max(0, adjustedScore - 5);
-        }
+        const ingredients = parseIngredientList(ingredientsText).map(formatIngredient);
+
+        // Net carbs count sugar alcohols by glycemic impact, which needs the ingredient list
+        const macros = toMacros(nutriments, '100g', ingredients);
+        const { sweeteners } = netCarbsOf(nutriments, '100g', ingredients);
+        const netCarbs = macros.net_carbs;
+
+        // Per-serving facts: from the label when given, otherwise scaled from per 100g
+        const servingGrams = Number(product.serving_quantity) || undefined;
+        const macrosPerServing = nutriments['carbohydrates_serving'] !== undefined
+            ? toMacros(nutriments, 'serving', ingredients)
+            : servingGrams ? scaleMacros(macros, servingGrams / 100) : undefined;
+
+        // Calculate keto score (ingredients + net carbs per 100g)
+        const ketoResult = calculateProductScore(ingredients, macros);
 
         // Generate swap suggestion
-        const swapSuggestion = generateSwapSuggestion(adjustedScore, netCarbs, ingredients);
+        const swapSuggestion = generateSwapSuggestion(ketoResult.score, netCarbs, ingredients);
 
         // Use product name, brand, or barcode as fallback
         let productName = product.product_name;
@@ -264,9 +361,15 @@ async function lookupProductFromAPI(barcode: string): Promise<ProductData> {
             name: productName || 'Scanned product',
             brand: product.brands || '',
             macros,
+            macrosPerServing,
+            servingSize: product.serving_size || undefined,
+            servingGrams,
+            sweeteners: sweeteners.length > 0 ? sweeteners : undefined,
             ingredients,
-            ketoScore: adjustedScore,
-            ketoVerdict: adjustedScore >= 75 ? 'safe' : adjustedScore >= 50 ? 'borderline' : 'avoid',
+            ingredientsText: ingredientsText || undefined,
+            ketoScore: ketoResult.score,
+            ketoVerdict: ketoResult.verdict,
+            rulesetVersion: ketoResult.ruleset_version,
             swapSuggestion,
             imageUrl: imageFrontUrl,
             imageIngredientsUrl,
@@ -293,6 +396,98 @@ async function lookupProductFromAPI(barcode: string): Promise<ProductData> {
     }
 }
 
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function netCarbsOf(nutriments: OpenFoodFactsNutriments, basis: '100g' | 'serving', ingredients: string[]) {
+    const value = (name: string) => nutriments[`${name}_${basis}` as keyof OpenFoodFactsNutriments] || 0;
+    return calculateNetCarbs({
+        carbohydrates: value('carbohydrates'),
+        fiber: value('fiber'),
+        polyols: value('polyols'),
+        // Missing sugars can't be told from zero sugars; allulose is only estimated when given
+        sugars: nutriments[`sugars_${basis}` as keyof OpenFoodFactsNutriments] ?? null,
+    }, ingredients);
+}
+
+/**
+ * Macros from Open Food Facts nutriments on a per-100g or per-serving basis.
+ * Net carbs are total carbs minus fiber, with sugar alcohols and allulose discounted
+ * by glycemic impact; their raw grams are kept separately.
+ */
+function toMacros(nutriments: OpenFoodFactsNutriments, basis: '100g' | 'serving', ingredients: string[]): Macros {
+    const value = (name: string) => nutriments[`${name}_${basis}` as keyof OpenFoodFactsNutriments] || 0;
+    const { net_carbs, allulose } = netCarbsOf(nutriments, basis, ingredients);
+
+    return {
+        net_carbs,
+        fat: round1(value('fat')),
+        protein: round1(value('proteins')),
+        calories: Math.round(value('energy-kcal')),
+        fiber: round1(value('fiber')),
+        sugar_alcohols: round1(value('polyols')),
+        allulose: allulose || undefined,
+    };
+}
+
+export function scaleMacros(macros: Macros, factor: number): Macros {
+    return {
+        net_carbs: round1(macros.net_carbs * factor),
+        fat: round1(macros.fat * factor),
+        protein: round1(macros.protein * factor),
+        calories: Math.round(macros.calories * factor),
+        fiber: round1((macros.fiber || 0) * factor),
+        sugar_alcohols: round1((macros.sugar_alcohols || 0) * factor),
+        allulose: macros.allulose ? round1(macros.allulose * factor) : undefined,
+    };
+}
+
+function hasNutrition(macros: Macros): boolean {
+    return !!(macros.net_carbs || macros.fat || macros.protein || macros.calories);
+}
+
+function toVerdictChange(previous: ProductData): VerdictChange {
+    return {
+        previousVerdict: previous.ketoVerdict,
+        previousScore: previous.ketoScore,
+        previousRulesetVersion: previous.rulesetVersion,
+    };
+}
+
+/**
+ * Re-score a product computed under an older ruleset or dictionary from its
+ * own ingredients and nutrition. Products with nothing to score from are returned unchanged.
+ */
+function rescoreIfOutdated(product: ProductData): ProductData {
+    if (product.rulesetVersion === getProductRulesetVersion()) return product;
+    if (product.ingredients.length === 0 && !hasNutrition(product.macros)) return product;
+
+    const analysis = calculateProductScore(product.ingredients, product.macros);
+    return {
+        ...product,
+        ketoScore: analysis.score,
+        ketoVerdict: analysis.verdict,
+        rulesetVersion: analysis.ruleset_version,
+        swapSuggestion: generateSwapSuggestion(analysis.score, product.macros.net_carbs, product.ingredients),
+        verdictChange: analysis.verdict !== product.ketoVerdict ? toVerdictChange(product) : undefined,
+    };
+}
+
+/**
+ * Nutrition row for the shadow DB; null when the lookup had no nutrition facts
+ */
+function toShadowNutrition(product: ProductData): Omit<ShadowNutrition, 'id' | 'product_id'> | null {
+    if (!hasNutrition(product.macros)) return null;
+
+    return {
+        per_100g: product.macros,
+        per_serving: product.macrosPerServing ?? null,
+        serving_size: product.servingSize ?? null,
+        serving_grams: product.servingGrams ?? null,
+    };
+}
+
 function mapVerdict(v: KetoVerdict): 'safe' | 'borderline' | 'avoid' {
     if (v === 'safe') return 'safe';
     if (v === 'avoid') return 'avoid';
@@ -307,7 +502,7 @@ function generateSwapSuggestion(score: number, netCarbs: number, ingredients: st
         return 'Excellent keto choice! This product fits well within your daily carb limit.';
     }
 
-    if (score >= 75) {
+    if (score >= SCORE_THRESHOLDS.SAFE) {
         return 'Good pick! Watch your portion size to stay within your carb budget.';
     }
 
@@ -1,170 +1,610 @@
 /**
  * Food Database Service
- * A curated, high-integrity database of keto-friendly foods and their verified macros.
- * This is used to "sanitize" AI hallucinations and provide reliable data.
+ * Offline nutrient lookup over the bundled food dataset (see constants/foodData).
+ * This is used to "sanitize" AI hallucinations and provide reliable data,
+ * and to power manual food search.
  */
 
-import type { Macros } from '../types';
+import { FOOD_DATA, FOOD_DATA_VERSION } from '../constants/foodData';
+import type { FoodCategory, FoodRecord, FoodServing } from '../constants/foodData';
+import type { Macros, DetectedFood } from '../types';
+
+export { FOOD_DATA_VERSION };
+export type { FoodCategory, FoodServing };
 
 export interface FoodMetadata {
+    id: string;
     name: string;
     description: string;
-    macros: Macros;
+    category: FoodCategory;
+    aliases: string[];
+    per100g: Macros;
+    servings: FoodServing[];
+    macros: Macros; // per default serving (`unit`)
     unit: string; // e.g., "1 medium", "100g", "1 cup"
+    servingGrams: number; // weight of one `unit` serving
     isKeto: boolean;
     confidence: number; // 0-1, how certain we are about this data
 }
 
-// Curated database of high-frequency foods
-const KETO_FOOD_DB: Record<string, FoodMetadata> = {
-    'avocado': {
-        name: 'Avocado',
-        description: 'Perfect keto superfood, high in healthy monounsaturated fats.',
-        macros: {
-            net_carbs: 2,
-            fat: 15,
-            protein: 2,
-            calories: 160
-        },
-        unit: '1/2 medium',
-        isKeto: true,
-        confidence: 0.95
-    },
-    'egg': {
-        name: 'Egg',
-        description: 'Nutrient-dense with the perfect ratio of fat and protein.',
-        macros: {
-            net_carbs: 0.6,
-            fat: 5,
-            protein: 6,
-            calories: 70
-        },
-        unit: '1 large',
-        isKeto: true,
-        confidence: 0.98
-    },
-    'ribeye steak': {
-        name: 'Ribeye Steak',
-        description: 'High-fat cut of beef, ideal for keto.',
-        macros: {
-            net_carbs: 0,
-            fat: 22,
-            protein: 24,
-            calories: 290
-        },
-        unit: '100g',
-        isKeto: true,
-        confidence: 0.92
-    },
-    'salmon': {
-        name: 'Salmon',
-        description: 'Rich in Omega-3 fatty acids and high-quality protein.',
-        macros: {
-            net_carbs: 0,
-            fat: 13,
-            protein: 20,
-            calories: 208
-        },
-        unit: '100g',
-        isKeto: true,
-        confidence: 0.95
-    },
-    'spinach': {
-        name: 'Spinach',
-        description: 'Low-carb leafy green, high in potassium and magnesium.',
-        macros: {
-            net_carbs: 0.4,
-            fat: 0,
-            protein: 0.9,
-            calories: 7
-        },
-        unit: '1 cup raw',
-        isKeto: true,
-        confidence: 0.98
-    },
-    'butter': {
-        name: 'Butter',
-        description: 'Pure fat source, zero carbs.',
-        macros: {
-            net_carbs: 0,
-            fat: 12,
-            protein: 0,
-            calories: 100
-        },
-        unit: '1 tbsp',
-        isKeto: true,
-        confidence: 0.99
-    },
-    'olive oil': {
-        name: 'Olive Oil',
-        description: 'Heart-healthy fat, perfect for dressing.',
-        macros: {
-            net_carbs: 0,
-            fat: 14,
-            protein: 0,
-            calories: 120
-        },
-        unit: '1 tbsp',
-        isKeto: true,
-        confidence: 1.0
-    },
-    'bacon': {
-        name: 'Bacon',
-        description: 'High fat, moderate protein. Check for added sugars.',
-        macros: {
-            net_carbs: 0.1,
-            fat: 3.3,
-            protein: 3,
-            calories: 43
-        },
-        unit: '1 slice',
-        isKeto: true,
-        confidence: 0.9
+export interface FoodSearchResult {
+    food: FoodMetadata;
+    score: number; // 0-1, 1 = exact name/alias match
+    matchedName: string;
+}
+
+// Foods at or under this many net carbs per 100g are flagged keto-friendly
+const KETO_NET_CARBS_PER_100G = 6;
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+// Match weights for query tokens that aren't an exact token hit
+const PREFIX_MATCH_WEIGHT = 0.8;
+const FUZZY_MATCH_WEIGHT = 0.7;
+// A complete word is probably finished, so longer words starting with it rank lower ("egg" vs "eggplant")
+const WORD_PREFIX_MATCH_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'of', 'the', 'with', 'in', 'on', 'or', 'side', 'some', 'plate', 'bowl']);
+
+function describe(record: FoodRecord): string {
+    const { net_carbs, fat, protein } = record.per100g;
+    return record.description || `Per 100g: ${net_carbs}g net carbs, ${fat}g fat, ${protein}g protein.`;
+}
+
+function toMetadata(record: FoodRecord): FoodMetadata {
+    const [serving] = record.servings;
+    const per100g: Macros = { ...record.per100g };
+
+    return {
+        id: record.id,
+        name: record.name,
+        description: describe(record),
+        category: record.category,
+        aliases: record.aliases,
+        per100g,
+        servings: record.servings,
+        macros: roundMacros(scaleMacros(per100g, serving.grams / 100)),
+        unit: serving.label,
+        servingGrams: serving.grams,
+        isKeto: per100g.net_carbs <= KETO_NET_CARBS_PER_100G,
+        confidence: record.confidence,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Search index
+// ---------------------------------------------------------------------------
+
+/**
+ * Crude plural folding so "eggs" finds "egg" and "berries" finds "berry".
+ * Applied to both the index and queries, so it only has to be consistent.
+ */
+function stem(token: string): string {
+    if (token.length <= 3) return token;
+    if (token.endsWith('ies') && token.length > 4) return token.slice(0, -3) + 'y';
+    if (token.endsWith('ie') && token.length > 4) return token.slice(0, -2) + 'y';
+    if (token.endsWith('oes')) return token.slice(0, -2);
+    if (token.endsWith('ches') || token.endsWith('shes')) return token.slice(0, -2);
+    if (token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) return token.slice(0, -1);
+    return token;
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '') // jalapeño -> jalapeno
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(t => t && !STOP_WORDS.has(t))
+        .map(stem);
+}
+
+/**
+ * Levenshtein distance, bailing out once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+            rowMin = Math.min(rowMin, row[j]);
+        }
+        if (rowMin > max) return max + 1;
+        prev = row;
     }
-};
+    return prev[b.length];
+}
+
+function allowedTypos(token: string): number {
+    if (token.length >= 8) return 2;
+    if (token.length >= 5) return 1;
+    return 0;
+}
+
+interface IndexedName {
+    food: number; // index into foods
+    label: string;
+    tokens: string[];
+    key: string; // tokens joined, for exact matching
+    isAlias: boolean;
+}
+
+interface SearchIndex {
+    foods: FoodMetadata[];
+    byId: Map<string, FoodMetadata>;
+    names: IndexedName[];
+    postings: Map<string, number[]>; // token -> indices into names
+}
+
+let searchIndex: SearchIndex | null = null;
 
 /**
- * Searches the database for a food item.
- * Uses simple string matching for now.
+ * Built on first use rather than at import, so app start-up
+ * doesn't pay for it until something actually searches.
  */
-export function lookupFood(name: string): FoodMetadata | null {
-    const normalized = name.toLowerCase().trim();
+function getIndex(): SearchIndex {
+    if (searchIndex) return searchIndex;
+
+    const foods = FOOD_DATA.map(toMetadata);
+    const names: IndexedName[] = [];
+    const postings = new Map<string, number[]>();
+
+    foods.forEach((food, foodIdx) => {
+        // Parenthetical qualifiers ("(80/20)", "(Skinless)") aren't required to match
+        const labels = [food.name.replace(/\(.*?\)/g, ' '), ...food.aliases];
+
+        labels.forEach((label, i) => {
+            const tokens = tokenize(label);
+            if (tokens.length === 0) return;
+
+            const nameIdx = names.length;
+            names.push({ food: foodIdx, label: i === 0 ? food.name : label, tokens, key: tokens.join(' '), isAlias: i > 0 });
+
+            new Set(tokens).forEach(token => {
+                const list = postings.get(token);
+                if (list) list.push(nameIdx);
+                else postings.set(token, [nameIdx]);
+            });
+        });
+    });
+
+    searchIndex = { foods, byId: new Map(foods.map(f => [f.id, f])), names, postings };
+    return searchIndex;
+}
 
-    // Check for exact match or contains
-    for (const [key, metadata] of Object.entries(KETO_FOOD_DB)) {
-        if (normalized.includes(key) || key.includes(normalized)) {
-            return metadata;
+/**
+ * Expands each query token to the index tokens it matches, with a weight:
+ * exact hits always; prefixes and small typos only when `loose` is set.
+ */
+function expandQuery(queryTokens: string[], index: SearchIndex, loose: boolean): Map<string, number>[] {
+    return queryTokens.map((q, i) => {
+        const matches = new Map<string, number>();
+        if (index.postings.has(q)) matches.set(q, 1);
+        if (!loose) return matches;
+
+        const isLast = i === queryTokens.length - 1;
+        const prefixWeight = matches.has(q) ? WORD_PREFIX_MATCH_WEIGHT : PREFIX_MATCH_WEIGHT;
+        const typos = allowedTypos(q);
+
+        index.postings.forEach((_, token) => {
+            if (matches.has(token)) return;
+            // Prefix matching is for search-as-you-type, so only the last word counts
+            if (isLast && q.length >= 2 && token.startsWith(q)) {
+                matches.set(token, prefixWeight);
+            } else if (typos > 0 && editDistance(q, token, typos) <= typos) {
+                matches.set(token, FUZZY_MATCH_WEIGHT);
+            }
+        });
+        return matches;
+    });
+}
+
+/**
+ * Scores one name against the query.
+ * Mostly "how much of the food's name is in the query", partly
+ * "how much of the query is explained by this food".
+ */
+function scoreName(name: IndexedName, queryKey: string, expanded: Map<string, number>[]): { score: number; exact: boolean } {
+    if (name.key === queryKey) {
+        return { score: name.isAlias ? 0.99 : 1, exact: true };
+    }
+
+    let nameWeight = 0;
+    let exact = true;
+    for (const token of name.tokens) {
+        const best = Math.max(0, ...expanded.map(m => m.get(token) ?? 0));
+        nameWeight += best;
+        if (best < 1) exact = false;
+    }
+
+    const queryMatched = expanded.filter(m => name.tokens.some(t => m.has(t))).length;
+    const nameCoverage = nameWeight / name.tokens.length;
+    const queryCoverage = queryMatched / expanded.length;
+
+    let score = 0.6 * nameCoverage + 0.4 * queryCoverage;
+    if (name.isAlias) score *= 0.98;
+
+    return { score: Math.min(score, 0.95), exact };
+}
+
+function rankFoods(query: string, loose: boolean): (FoodSearchResult & { exact: boolean })[] {
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+
+    const index = getIndex();
+    const expanded = expandQuery(queryTokens, index, loose);
+    const queryKey = queryTokens.join(' ');
+
+    const candidates = new Set<number>();
+    expanded.forEach(matches => matches.forEach((_, token) => {
+        index.postings.get(token)?.forEach(n => candidates.add(n));
+    }));
+
+    // Best-scoring name per food
+    const best = new Map<number, FoodSearchResult & { exact: boolean }>();
+    candidates.forEach(nameIdx => {
+        const name = index.names[nameIdx];
+        const { score, exact } = scoreName(name, queryKey, expanded);
+        const current = best.get(name.food);
+        if (!current || score > current.score) {
+            best.set(name.food, { food: index.foods[name.food], score, matchedName: name.label, exact });
         }
+    });
+
+    // Ties keep dataset order, which lists the most common variant first
+    return Array.from(best.entries())
+        .sort(([aIdx, a], [bIdx, b]) => b.score - a.score || aIdx - bIdx)
+        .map(([, result]) => result);
+}
+
+/**
+ * Ranked search for the manual food picker.
+ * Tolerates partial words ("chick") and small typos ("brocoli").
+ */
+export function searchFoods(query: string, limit: number = DEFAULT_SEARCH_LIMIT): FoodSearchResult[] {
+    return rankFoods(query, true)
+        .slice(0, limit)
+        .map(({ food, score, matchedName }) => ({ food, score: Math.round(score * 100) / 100, matchedName }));
+}
+
+/**
+ * Finds the food a detected name refers to, for macro verification.
+ * Strict: every word of the food's name (or an alias) must appear in the
+ * query as a whole word, so "egg" never matches "eggplant".
+ */
+export function lookupFood(name: string): FoodMetadata | null {
+    const match = rankFoods(name, false).find(r => r.exact);
+    return match ? match.food : null;
+}
+
+export function getFoodById(id: string): FoodMetadata | null {
+    return getIndex().byId.get(id) ?? null;
+}
+
+// Grams per unit for weight and (approximate, water-density) volume units
+const MASS_UNITS: Record<string, number> = {
+    g: 1, gram: 1, grams: 1, gr: 1,
+    kg: 1000,
+    oz: 28.35, ounce: 28.35, ounces: 28.35,
+    lb: 453.6, lbs: 453.6, pound: 453.6, pounds: 453.6,
+};
+
+const VOLUME_UNITS: Record<string, number> = {
+    ml: 1, milliliter: 1, milliliters: 1,
+    l: 1000, liter: 1000, liters: 1000,
+    cup: 240, cups: 240,
+    tbsp: 15, tablespoon: 15, tablespoons: 15,
+    tsp: 5, teaspoon: 5, teaspoons: 5,
+};
+
+export interface ParsedPortion {
+    quantity: number;
+    unit: string; // normalized, '' for bare counts ("2 eggs")
+}
+
+export interface FoodMacroBreakdown {
+    name: string;
+    portion?: string;
+    grams: number | null;
+    macros: Macros;
+    source: 'database' | 'ai';
+    matchedFood?: string;
+}
+
+/**
+ * Parses the leading quantity of a portion string.
+ * Handles "2", "1.5", "1/2", "1 1/2" and unicode fractions like "½".
+ */
+function parseQuantity(text: string): { quantity: number; rest: string } | null {
+    const unicode: Record<string, string> = { '¼': ' 1/4', '½': ' 1/2', '¾': ' 3/4', '⅓': ' 1/3', '⅔': ' 2/3' };
+    const normalized = text.replace(/[¼½¾⅓⅔]/g, c => unicode[c]).trim();
+
+    const match = normalized.match(/^(\d+(?:\.\d+)?)(?:\s+(\d+)\/(\d+)|\/(\d+))?/);
+    if (!match) return null;
+
+    let quantity = parseFloat(match[1]);
+    if (match[2] && match[3]) {
+        // Mixed number: "1 1/2"
+        quantity += parseInt(match[2]) / parseInt(match[3]);
+    } else if (match[4]) {
+        // Simple fraction: "1/2"
+        quantity = quantity / parseInt(match[4]);
+    }
+
+    if (!isFinite(quantity) || quantity <= 0) return null;
+    return { quantity, rest: normalized.slice(match[0].length).trim() };
+}
+
+/**
+ * Parses a portion string such as "1/2 cup", "100g" or "2 slices".
+ */
+export function parsePortion(portion: string): ParsedPortion | null {
+    const parsed = parseQuantity(portion.toLowerCase());
+    if (!parsed) return null;
+
+    const unit = parsed.rest.split(/\s+/)[0]?.replace(/[^a-z]/g, '') || '';
+    return { quantity: parsed.quantity, unit };
+}
+
+function singular(unit: string): string {
+    if (unit.endsWith('ices')) return unit.slice(0, -1); // slices -> slice
+    return unit.endsWith('s') ? unit.slice(0, -1) : unit;
+}
+
+function isCountUnit(unit: string): boolean {
+    return !MASS_UNITS[unit] && !VOLUME_UNITS[unit];
+}
+
+/**
+ * Converts a portion to grams.
+ * Weight and volume units convert directly; counts ("2 slices", "1 large")
+ * need one of the food's servings to know how much one item weighs.
+ */
+export function portionToGrams(portion: string, food?: FoodMetadata | null): number | null {
+    const parsed = parsePortion(portion);
+    if (!parsed) return null;
+
+    const { quantity, unit } = parsed;
+
+    if (MASS_UNITS[unit]) {
+        return quantity * MASS_UNITS[unit];
+    }
+
+    const servings = (food?.servings ?? [])
+        .map(s => ({ grams: s.grams, parsed: parsePortion(s.label) }))
+        .filter((s): s is { grams: number; parsed: ParsedPortion } => s.parsed !== null);
+
+    // Prefer a serving in the same unit, which carries the food's own density ("1 cup raw" spinach)
+    const sameUnit = servings.find(s =>
+        singular(s.parsed.unit) === singular(unit) ||
+        (VOLUME_UNITS[unit] && VOLUME_UNITS[s.parsed.unit] === VOLUME_UNITS[unit])
+    );
+    if (sameUnit) {
+        return (quantity / sameUnit.parsed.quantity) * sameUnit.grams;
+    }
+
+    if (VOLUME_UNITS[unit]) {
+        return quantity * VOLUME_UNITS[unit];
+    }
+
+    // Other counts ("2 pieces" of something served "1 steak") scale against the first count serving
+    const countServing = servings.find(s => isCountUnit(s.parsed.unit));
+    if (countServing) {
+        return (quantity / countServing.parsed.quantity) * countServing.grams;
     }
 
     return null;
 }
 
+function scaleMacros(macros: Macros, factor: number): Macros {
+    const scaled: Macros = {
+        net_carbs: macros.net_carbs * factor,
+        fat: macros.fat * factor,
+        protein: macros.protein * factor,
+        calories: macros.calories * factor,
+    };
+    if (macros.fiber !== undefined) scaled.fiber = macros.fiber * factor;
+    return scaled;
+}
+
+function roundMacros(macros: Macros): Macros {
+    const round1 = (v: number) => Math.round(v * 10) / 10;
+    const rounded: Macros = {
+        net_carbs: round1(macros.net_carbs),
+        fat: round1(macros.fat),
+        protein: round1(macros.protein),
+        calories: Math.round(macros.calories),
+    };
+    if (macros.fiber !== undefined) rounded.fiber = round1(macros.fiber);
+    return rounded;
+}
+
+/**
+ * Scales a verified food's per-100g macros to the given portion.
+ * Returns null when the portion can't be converted to grams.
+ */
+export function getMacrosForPortion(food: FoodMetadata, portion: string): { grams: number; macros: Macros } | null {
+    const grams = portionToGrams(portion, food);
+    if (grams === null) return null;
+
+    return {
+        grams,
+        macros: roundMacros(scaleMacros(food.per100g, grams / 100)),
+    };
+}
+
 /**
- * Normalizes an array of detected foods using the database.
- * If a food exists in our DB, we favor its macro data.
+ * Carb risk label for a food from its net carbs
+ */
+export function getCarbRisk(netCarbs: number): DetectedFood['carb_risk'] {
+    if (netCarbs > 10) return 'high';
+    if (netCarbs > 5) return 'medium';
+    return 'low';
+}
+
+/**
+ * Splits a meal's macros across its detected foods.
+ *
+ * The model only reports meal-level macros, so its totals are split across
+ * the detected foods by estimated weight (or evenly when weights are
+ * unknown). Foods found in the database whose portion converts to grams
+ * take portion-scaled reference macros instead of a share.
+ */
+export function splitMealMacros(detectedFoods: DetectedFood[], aiMacros: Macros): FoodMacroBreakdown[] {
+    const entries = detectedFoods.map(food => {
+        const match = lookupFood(food.name);
+        const portion = food.estimated_portion;
+        // One reference serving only when the model gave no portion at all; a portion
+        // we can't convert ("2 eggs" of scrambled eggs) keeps the model's share instead
+        const verified = match
+            ? (portion ? getMacrosForPortion(match, portion) : { grams: match.servingGrams, macros: match.macros })
+            : null;
+        const grams = verified?.grams ?? (portion ? portionToGrams(portion) : null);
+        return { food, match, verified, grams };
+    });
+
+    const allWeighed = entries.every(e => e.grams !== null && e.grams > 0);
+    const totalWeight = allWeighed ? entries.reduce((sum, e) => sum + (e.grams as number), 0) : entries.length;
+
+    return entries.map(({ food, match, verified, grams }) => {
+        if (match && verified) {
+            return {
+                name: food.name,
+                portion: food.estimated_portion,
+                grams: Math.round(verified.grams),
+                macros: verified.macros,
+                source: 'database' as const,
+                matchedFood: match.name,
+            };
+        }
+
+        const share = (allWeighed ? (grams as number) : 1) / totalWeight;
+        return {
+            name: food.name,
+            portion: food.estimated_portion,
+            grams: grams !== null ? Math.round(grams) : null,
+            macros: roundMacros(scaleMacros(aiMacros, share)),
+            source: 'ai' as const,
+        };
+    });
+}
+
+/**
+ * Meal total of a breakdown
+ */
+export function sumBreakdown(breakdown: FoodMacroBreakdown[]): Macros {
+    const total = breakdown.reduce<Macros>((acc, item) => ({
+        net_carbs: acc.net_carbs + item.macros.net_carbs,
+        fat: acc.fat + item.macros.fat,
+        protein: acc.protein + item.macros.protein,
+        calories: acc.calories + item.macros.calories,
+    }), { net_carbs: 0, fat: 0, protein: 0, calories: 0 });
+
+    return roundMacros(total);
+}
+
+/**
+ * Scale a breakdown so it adds up exactly to a known meal total. A stored meal
+ * keeps only its total, and re-estimating its foods from the database would
+ * otherwise change that total without the user changing anything. Rounding
+ * leftovers go to the last item.
+ */
+export function fitBreakdownToTotal(breakdown: FoodMacroBreakdown[], total: Macros): FoodMacroBreakdown[] {
+    if (breakdown.length === 0) return breakdown;
+
+    const sum = sumBreakdown(breakdown);
+    const keys = ['net_carbs', 'fat', 'protein', 'calories'] as const;
+
+    const fitted = breakdown.map(item => {
+        const macros = { ...item.macros };
+        for (const key of keys) {
+            macros[key] = sum[key] > 0 ? item.macros[key] * total[key] / sum[key] : total[key] / breakdown.length;
+        }
+        return { ...item, macros: roundMacros(macros) };
+    });
+
+    const last = fitted[fitted.length - 1];
+    const others = sumBreakdown(fitted.slice(0, -1));
+    last.macros = roundMacros({
+        ...last.macros,
+        net_carbs: total.net_carbs - others.net_carbs,
+        fat: total.fat - others.fat,
+        protein: total.protein - others.protein,
+        calories: total.calories - others.calories,
+    });
+
+    return fitted;
+}
+
+/**
+ * A breakdown item swapped for another food at the same weight
+ * ("rice" -> "cauliflower rice"), or at its portion when the weight is unknown.
+ * Returns null when the replacement isn't in the database.
+ */
+export function replaceBreakdownFood(item: FoodMacroBreakdown, replacementName: string): FoodMacroBreakdown | null {
+    const match = lookupFood(replacementName);
+    if (!match) return null;
+
+    const verified = item.grams
+        ? { grams: item.grams, macros: roundMacros(scaleMacros(match.per100g, item.grams / 100)) }
+        : (item.portion ? getMacrosForPortion(match, item.portion) : null) ?? { grams: match.servingGrams, macros: match.macros };
+
+    return {
+        name: replacementName,
+        portion: item.portion,
+        grams: Math.round(verified.grams),
+        macros: verified.macros,
+        source: 'database',
+        matchedFood: match.name,
+    };
+}
+
+/**
+ * A food the model missed, picked by the user from the database at a given weight
+ */
+export function addedBreakdownFood(food: FoodMetadata, grams: number, portion?: string): FoodMacroBreakdown {
+    return {
+        name: food.name,
+        portion,
+        grams: Math.round(grams),
+        macros: roundMacros(scaleMacros(food.per100g, grams / 100)),
+        source: 'database',
+        matchedFood: food.name,
+    };
+}
+
+/**
+ * Reconciles AI meal totals with verified database values.
+ * Foods found in the database have their share replaced with portion-scaled
+ * reference macros (see splitMealMacros), and the meal total is re-summed.
  */
 export function enrichMacrosWithDatabase(
-    detectedFoods: string[],
+    detectedFoods: DetectedFood[],
     aiMacros: Macros
-): { enrichedMacros: Macros; verificationFlags: string[] } {
-    let finalMacros = { ...aiMacros };
-    let verificationFlags: string[] = [];
-
-    // For simplicity in MVP: if we find a very high-confidence match for a primary ingredient,
-    // we could potentially adjust, but usually AI is better at PORTION estimation.
-    // Instead, we use the DB to FLAG and VERIFY.
-
-    for (const food of detectedFoods) {
-        const match = lookupFood(food);
-        if (match) {
-            verificationFlags.push(`Verified: ${match.name}`);
-            // In future versions, we could do complex weighted average or portion scaling
-        }
+): { enrichedMacros: Macros; breakdown: FoodMacroBreakdown[]; verificationFlags: string[] } {
+    const breakdown = splitMealMacros(detectedFoods, aiMacros);
+    const verificationFlags = breakdown
+        .filter(item => item.source === 'database')
+        .map(item => `Verified: ${item.matchedFood}`);
+
+    if (verificationFlags.length === 0) {
+        return {
+            enrichedMacros: aiMacros,
+            breakdown: [],
+            verificationFlags,
+        };
     }
 
     return {
-        enrichedMacros: finalMacros,
-        verificationFlags
+        enrichedMacros: sumBreakdown(breakdown),
+        breakdown,
+        verificationFlags,
     };
 }
@@ -0,0 +1,194 @@
+/**
+ * Food Log Service
+ * Manual food logging: search the local food database and the shadow product
+ * table, then record the chosen portion in the same tables scans write to,
+ * so manual entries count toward the daily intake and show up in History.
+ */
+
+import { supabase } from './supabase';
+import { searchFoods, getCarbRisk, FoodMetadata, FoodServing } from './foodDatabase';
+import { ShadowDbService, ShadowProduct } from './shadowDbService';
+import { IntakeLedgerService } from './intakeLedgerService';
+import { analyzeIngredients, calculateMealScore } from './ketoScoring';
+import type { DetectedFood, KetoScore, Macros } from '../types';
+
+const LOCAL_RESULT_LIMIT = 20;
+const PRODUCT_RESULT_LIMIT = 10;
+
+const PER_100G_SERVING: FoodServing = { label: '100g', grams: 100 };
+
+export interface LoggableItem {
+    key: string; // unique across both sources, for list keys
+    kind: 'food' | 'product';
+    name: string;
+    brand?: string;
+    barcode?: string;
+    productId?: string;
+    ingredients?: string[];
+    per100g: Macros | null; // null when the product has no nutrition data yet
+    servings: FoodServing[];
+    ketoScore: KetoScore | null; // products carry a fixed score; foods are scored per portion
+}
+
+export interface LoggedEntry {
+    recordId: string | null; // null for guests, who only have the local ledger
+    macros: Macros;
+    ketoScore: KetoScore;
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Macros for a portion of a loggable item
+ */
+export function macrosForGrams(item: LoggableItem, grams: number): Macros {
+    const per100g = item.per100g;
+    if (!per100g) return { net_carbs: 0, fat: 0, protein: 0, calories: 0 };
+
+    const factor = grams / 100;
+    return {
+        net_carbs: round1(per100g.net_carbs * factor),
+        fat: round1(per100g.fat * factor),
+        protein: round1(per100g.protein * factor),
+        calories: Math.round(per100g.calories * factor),
+        fiber: round1((per100g.fiber || 0) * factor),
+        sugar_alcohols: round1((per100g.sugar_alcohols || 0) * factor),
+        allulose: per100g.allulose ? round1(per100g.allulose * factor) : undefined,
+    };
+}
+
+/**
+ * Keto score for the logged portion
+ */
+export function scoreForPortion(item: LoggableItem, macros: Macros, carbLimit?: number): KetoScore {
+    if (item.ketoScore) return item.ketoScore;
+    if (!item.per100g) return { score: 0, verdict: 'unknown', confidence: 'low' };
+    return { ...calculateMealScore(macros, carbLimit ? { carbLimit } : undefined), confidence: 'high' };
+}
+
+function fromFood(food: FoodMetadata): LoggableItem {
+    return {
+        key: `food:${food.id}`,
+        kind: 'food',
+        name: food.name,
+        per100g: food.per100g,
+        servings: food.servings,
+        ketoScore: null,
+    };
+}
+
+function fromShadowProduct(product: ShadowProduct): LoggableItem {
+    const analysis = product.keto_analysis;
+    const nutrition = product.product_nutrition;
+
+    const servings = [PER_100G_SERVING];
+    if (nutrition?.serving_grams) {
+        servings.unshift({ label: nutrition.serving_size || `${nutrition.serving_grams}g`, grams: nutrition.serving_grams });
+    }
+
+    return {
+        key: `product:${product.id}`,
+        kind: 'product',
+        name: product.product_name || product.brand || 'Unknown Product',
+        brand: product.brand || undefined,
+        barcode: product.barcode || undefined,
+        productId: product.id,
+        ingredients: product.ingredients_normalized || [],
+        per100g: nutrition?.per_100g ?? null,
+        servings,
+        ketoScore: analysis
+            ? { score: analysis.keto_score, verdict: analysis.verdict, confidence: product.confidence_level }
+            : null,
+    };
+}
+
+export const FoodLogService = {
+    /**
+     * Bundled food database matches. Synchronous and offline, so results can update per keystroke.
+     */
+    searchLocal(query: string): LoggableItem[] {
+        return searchFoods(query, LOCAL_RESULT_LIMIT).map(r => fromFood(r.food));
+    },
+
+    /**
+     * Packaged products other users have scanned
+     */
+    async searchProducts(query: string): Promise<LoggableItem[]> {
+        const products = await ShadowDbService.searchProducts(query, PRODUCT_RESULT_LIMIT);
+        return products.map(fromShadowProduct);
+    },
+
+    /**
+     * Record a portion of a food or product against today's intake.
+     * Foods are stored as single-item meals and products as product scans,
+     * both flagged `source: 'manual'`, so History lists them beside scans.
+     */
+    async logItem(
+        userId: string | undefined,
+        item: LoggableItem,
+        serving: FoodServing,
+        quantity: number,
+        carbLimit?: number
+    ): Promise<LoggedEntry | null> {
+        const grams = serving.grams * quantity;
+        const macros = macrosForGrams(item, grams);
+        const ketoScore = scoreForPortion(item, macros, carbLimit);
+        const portion = quantity === 1 ? serving.label : `${quantity} × ${serving.label}`;
+
+        if (!userId) {
+            await IntakeLedgerService.logGuestEntry(macros);
+            return { recordId: null, macros, ketoScore };
+        }
+
+        if (item.kind === 'food') {
+            const food: DetectedFood = {
+                name: item.name,
+                confidence: 1,
+                estimated_portion: portion,
+                carb_risk: getCarbRisk(macros.net_carbs),
+                is_keto_offender: ketoScore.verdict === 'avoid',
+            };
+
+            const { data, error } = await supabase
+                .from('meals')
+                .insert([{
+                    user_id: userId,
+                    foods: [food],
+                    macros,
+                    keto_score: ketoScore,
+                    source: 'manual',
+                }])
+                .select('id')
+                .single();
+
+            if (error || !data) {
+                console.error('[FoodLog] Save food error:', error);
+                return null;
+            }
+            return { recordId: data.id, macros, ketoScore };
+        }
+
+        const { data, error } = await supabase
+            .from('product_scans')
+            .insert([{
+                user_id: userId,
+                barcode: item.barcode || null,
+                product_name: item.name,
+                brand: item.brand || null,
+                ingredients: analyzeIngredients(item.ingredients || []),
+                macros,
+                keto_score: ketoScore,
+                source: 'manual',
+            }])
+            .select('id')
+            .single();
+
+        if (error || !data) {
+            console.error('[FoodLog] Save product error:', error);
+            return null;
+        }
+        return { recordId: data.id, macros, ketoScore };
+    },
+};
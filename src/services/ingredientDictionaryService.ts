@@ -0,0 +1,114 @@
+/**
+ * Ingredient Dictionary Service
+ * Keeps the scorer's offender list in sync with the ingredient_dictionary table,
+ * so new offenders ship without an app release. The last download is cached on
+ * device with its version stamp; the bundled INGREDIENT_PENALTIES map is used
+ * until a dictionary has ever been loaded.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ShadowDbService, ShadowIngredient } from './shadowDbService';
+import { setIngredientDictionary } from './ketoScoring';
+import type { IngredientDictionaryEntry } from '../types';
+
+const DICTIONARY_CACHE_KEY = '@ketolens:ingredient_dictionary';
+
+// How long a downloaded dictionary is trusted before checking the version stamp again
+const REFRESH_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+const BUNDLED_VERSION = 'bundled';
+
+interface CachedDictionary {
+    version: string;
+    fetchedAt: number;
+    entries: IngredientDictionaryEntry[];
+}
+
+let cached: CachedDictionary | null = null;
+
+function normalizeTerm(term: string): string {
+    return term.toLowerCase().trim();
+}
+
+function toEntry(row: ShadowIngredient): IngredientDictionaryEntry | null {
+    const term = normalizeTerm(row.ingredient || '');
+    if (!term || typeof row.penalty !== 'number') return null;
+
+    return {
+        term,
+        penalty: row.penalty,
+        reason: row.reason || 'Keto offender',
+        aliases: (row.aliases || []).map(normalizeTerm).filter(Boolean),
+        category: row.category || 'other',
+    };
+}
+
+async function readCache(): Promise<CachedDictionary | null> {
+    try {
+        const raw = await AsyncStorage.getItem(DICTIONARY_CACHE_KEY);
+        return raw ? (JSON.parse(raw) as CachedDictionary) : null;
+    } catch (err) {
+        console.error('[IngredientDictionary] Cache read failed:', err);
+        return null;
+    }
+}
+
+async function writeCache(dictionary: CachedDictionary): Promise<void> {
+    cached = dictionary;
+    try {
+        await AsyncStorage.setItem(DICTIONARY_CACHE_KEY, JSON.stringify(dictionary));
+    } catch (err) {
+        console.error('[IngredientDictionary] Cache write failed:', err);
+    }
+}
+
+export const IngredientDictionaryService = {
+    /**
+     * Apply the cached dictionary, then refresh from the server if it's due.
+     * Call once on app start; scoring works with the bundled map meanwhile.
+     */
+    async init(): Promise<void> {
+        cached = await readCache();
+        if (cached) setIngredientDictionary(cached.entries, cached.version);
+
+        if (!cached || Date.now() - cached.fetchedAt > REFRESH_INTERVAL_MS) {
+            await this.refresh();
+        }
+    },
+
+    /**
+     * Download the dictionary if its version stamp changed.
+     * Offline or on error the current dictionary stays in place.
+     */
+    async refresh(): Promise<void> {
+        const version = await ShadowDbService.getIngredientDictionaryVersion();
+        if (!version) return;
+
+        if (cached && cached.version === version) {
+            await writeCache({ ...cached, fetchedAt: Date.now() });
+            return;
+        }
+
+        const rows = await ShadowDbService.getIngredientDictionary();
+        const entries = rows
+            .filter(row => row.is_active !== false)
+            .map(toEntry)
+            .filter((entry): entry is IngredientDictionaryEntry => entry !== null);
+
+        if (entries.length === 0) {
+            console.warn('[IngredientDictionary] Server dictionary empty, keeping current one');
+            return;
+        }
+
+        setIngredientDictionary(entries, version);
+        await writeCache({ version, fetchedAt: Date.now(), entries });
+        console.log(`[IngredientDictionary] Loaded ${entries.length} entries (version ${version})`);
+    },
+
+    /**
+     * Version stamp of the dictionary in use
+     */
+    getVersion(): string {
+        return cached?.version ?? BUNDLED_VERSION;
+    },
+};
@@ -0,0 +1,189 @@
+/**
+ * Intake Ledger Service
+ * Sums the macros of everything logged today and compares them to the user's targets.
+ * "Today" is always the user's local calendar day, not the UTC day.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { startOfDay, endOfDay, format } from 'date-fns';
+import { supabase } from './supabase';
+import { DEFAULT_CARB_LIMIT } from '../constants/keto';
+import type { Macros } from '../types';
+
+const GUEST_INTAKE_KEY = '@ketolens:guest_intake';
+const DEFAULT_CALORIE_TARGET = 2000;
+
+// Used to derive protein/fat goals from the calorie target for profiles saved without them
+const KETO_MACRO_SPLIT = {
+    FAT: 0.7,
+    PROTEIN: 0.25,
+} as const;
+
+export interface IntakeTargets {
+    carb_limit?: number | null;
+    calorie_target?: number | null;
+    protein_target?: number | null;
+    fat_target?: number | null;
+}
+
+export interface DailyIntake {
+    date: string; // yyyy-MM-dd in local time
+    consumed: Macros;
+    carbLimit: number;
+    calorieTarget: number;
+    proteinTarget: number;
+    fatTarget: number;
+    remainingNetCarbs: number;
+    remainingCalories: number;
+    entryCount: number;
+}
+
+interface GuestIntake {
+    date: string;
+    entries: Macros[];
+}
+
+const EMPTY_MACROS: Macros = { net_carbs: 0, fat: 0, protein: 0, calories: 0, fiber: 0 };
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Add a list of macro records together. Missing/invalid values count as 0.
+ */
+export function sumMacros(entries: (Partial<Macros> | null | undefined)[]): Macros {
+    const total = entries.reduce<Macros>((acc, m) => ({
+        net_carbs: acc.net_carbs + (Number(m?.net_carbs) || 0),
+        fat: acc.fat + (Number(m?.fat) || 0),
+        protein: acc.protein + (Number(m?.protein) || 0),
+        calories: acc.calories + (Number(m?.calories) || 0),
+        fiber: (acc.fiber || 0) + (Number(m?.fiber) || 0),
+    }), { ...EMPTY_MACROS });
+
+    return {
+        net_carbs: round1(total.net_carbs),
+        fat: round1(total.fat),
+        protein: round1(total.protein),
+        calories: Math.round(total.calories),
+        fiber: round1(total.fiber || 0),
+    };
+}
+
+function buildDailyIntake(date: Date, consumed: Macros, entryCount: number, targets?: IntakeTargets | null): DailyIntake {
+    const carbLimit = targets?.carb_limit || DEFAULT_CARB_LIMIT;
+    const calorieTarget = targets?.calorie_target || DEFAULT_CALORIE_TARGET;
+
+    return {
+        date: format(date, 'yyyy-MM-dd'),
+        consumed,
+        carbLimit,
+        calorieTarget,
+        proteinTarget: targets?.protein_target || Math.round((calorieTarget * KETO_MACRO_SPLIT.PROTEIN) / 4),
+        fatTarget: targets?.fat_target || Math.round((calorieTarget * KETO_MACRO_SPLIT.FAT) / 9),
+        remainingNetCarbs: round1(Math.max(0, carbLimit - consumed.net_carbs)),
+        remainingCalories: Math.max(0, calorieTarget - consumed.calories),
+        entryCount,
+    };
+}
+
+export const IntakeLedgerService = {
+    /**
+     * Local-day boundaries as absolute instants, for querying timestamptz columns
+     */
+    getDayBounds(date: Date = new Date()): { start: string; end: string } {
+        return {
+            start: startOfDay(date).toISOString(),
+            end: endOfDay(date).toISOString(),
+        };
+    },
+
+    /**
+     * Build the ledger for a given day (defaults to today)
+     */
+    async getDailyIntake(userId: string | undefined, targets?: IntakeTargets | null, date: Date = new Date()): Promise<DailyIntake> {
+        if (!userId) {
+            const entries = await this.getGuestEntries(date);
+            return buildDailyIntake(date, sumMacros(entries), entries.length, targets);
+        }
+
+        const { start, end } = this.getDayBounds(date);
+
+        const [mealsRes, productsRes] = await Promise.all([
+            supabase
+                .from('meals')
+                .select('macros')
+                .eq('user_id', userId)
+                .gte('created_at', start)
+                .lte('created_at', end),
+            // Product scans are lookups; only products logged as eaten count
+            supabase
+                .from('product_scans')
+                .select('macros')
+                .eq('user_id', userId)
+                .eq('source', 'manual')
+                .gte('created_at', start)
+                .lte('created_at', end),
+        ]);
+
+        if (mealsRes.error) console.error('[IntakeLedger] Meals fetch error:', mealsRes.error);
+        if (productsRes.error) console.error('[IntakeLedger] Products fetch error:', productsRes.error);
+
+        const rows = [...(mealsRes.data || []), ...(productsRes.data || [])];
+        return buildDailyIntake(date, sumMacros(rows.map(r => r.macros)), rows.length, targets);
+    },
+
+    /**
+     * A day with nothing logged against the default targets, for when the ledger can't be read
+     */
+    getEmptyIntake(date: Date = new Date()): DailyIntake {
+        return buildDailyIntake(date, { ...EMPTY_MACROS }, 0);
+    },
+
+    /**
+     * Guests have no server rows, so their intake is kept on device for the current day only
+     */
+    async logGuestEntry(macros: Macros, date: Date = new Date()): Promise<void> {
+        try {
+            const entries = await this.getGuestEntries(date);
+            const intake: GuestIntake = { date: format(date, 'yyyy-MM-dd'), entries: [...entries, macros] };
+            await AsyncStorage.setItem(GUEST_INTAKE_KEY, JSON.stringify(intake));
+        } catch (err) {
+            console.error('[IntakeLedger] Error saving guest entry:', err);
+        }
+    },
+
+    /**
+     * Swap a guest entry for its corrected macros, e.g. after a meal was reviewed
+     */
+    async replaceGuestEntry(previous: Macros, next: Macros, date: Date = new Date()): Promise<void> {
+        try {
+            const entries = await this.getGuestEntries(date);
+            const same = (m: Macros) => m.net_carbs === previous.net_carbs && m.fat === previous.fat
+                && m.protein === previous.protein && m.calories === previous.calories;
+
+            // The most recent match is the one just shown on screen
+            const index = entries.map(same).lastIndexOf(true);
+            if (index === -1) return;
+
+            const updated = entries.map((m, i) => (i === index ? next : m));
+            await AsyncStorage.setItem(GUEST_INTAKE_KEY, JSON.stringify({ date: format(date, 'yyyy-MM-dd'), entries: updated }));
+        } catch (err) {
+            console.error('[IntakeLedger] Error replacing guest entry:', err);
+        }
+    },
+
+    async getGuestEntries(date: Date = new Date()): Promise<Macros[]> {
+        try {
+            const json = await AsyncStorage.getItem(GUEST_INTAKE_KEY);
+            if (!json) return [];
+
+            const intake: GuestIntake = JSON.parse(json);
+            // A stored day other than the requested one is stale
+            return intake.date === format(date, 'yyyy-MM-dd') ? intake.entries : [];
+        } catch (err) {
+            console.error('[IntakeLedger] Error loading guest intake:', err);
+            return [];
+        }
+    },
+};
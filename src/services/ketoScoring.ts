@@ -1,102 +1,410 @@
 /**
  * Keto Scoring Service
  * Calculate keto scores for meals and products
+ * Every score in the app goes through here so barcode, shadow DB and AI results
+ * share one scale; each result is stamped with SCORING_RULESET_VERSION.
  */
 
 import {
     INGREDIENT_PENALTIES,
     INGREDIENT_COUNT_PENALTY,
+    NET_CARB_PENALTIES,
+    CARB_BUDGET_PENALTIES,
+    INGREDIENT_SYNONYMS,
+    SUGAR_ALCOHOLS,
+    DEFAULT_POLYOL_NET_CARB_FACTOR,
+    ALLULOSE_NET_CARB_FACTOR,
     HIGH_RISK_FOODS,
+    SCORING_RULESET_VERSION,
+    STRICTNESS_PENALTY_FACTORS,
+    DEFAULT_STRICTNESS,
+    DEFAULT_CARB_LIMIT,
     getVerdict
 } from '../constants/keto'
-import type { Macros, KetoScore, ParsedIngredient } from '../types'
+import type {
+    FitnessGoal,
+    KetoStrictness,
+    Macros,
+    KetoScore,
+    KetoVerdict,
+    IngredientDictionaryEntry,
+    ParsedIngredient,
+    ProductScore,
+    StructuralPenalty,
+    SweetenerAdjustment
+} from '../types'
+import { parseIngredientList, flattenIngredients } from '../utils/ingredientParser'
+
+export const BUNDLED_INGREDIENT_DICTIONARY: IngredientDictionaryEntry[] = Object.entries(INGREDIENT_PENALTIES)
+    .map(([term, { penalty, reason, category }]) => ({ term, penalty, reason, category, aliases: [] }))
+
+let ingredientDictionary = BUNDLED_INGREDIENT_DICTIONARY
+let dictionaryVersion: string | null = null
+
+/**
+ * Swap the offender list used by analyzeIngredients.
+ * Passing null or an empty list restores the bundled fallback.
+ * `version` is the server dictionary's stamp; it becomes part of product ruleset versions.
+ */
+export function setIngredientDictionary(entries: IngredientDictionaryEntry[] | null, version: string | null = null) {
+    const useServer = !!entries && entries.length > 0
+    ingredientDictionary = useServer ? entries : BUNDLED_INGREDIENT_DICTIONARY
+    dictionaryVersion = useServer ? version : null
+}
+
+/**
+ * Ruleset stamp for product scores. Offenders come from the dictionary, so a
+ * loaded server dictionary's version is part of it: scores from an older
+ * dictionary read as outdated just like scores from an older ruleset.
+ */
+export function getProductRulesetVersion(): string {
+    return dictionaryVersion ? `${SCORING_RULESET_VERSION}@${dictionaryVersion}` : SCORING_RULESET_VERSION
+}
+
+export function getIngredientDictionary(): IngredientDictionaryEntry[] {
+    return ingredientDictionary
+}
+
+export interface MealScoringContext {
+    carbLimit: number
+    remainingNetCarbs?: number // left today before this meal; without it the whole limit is left
+    goal?: FitnessGoal
+    strictness?: KetoStrictness
+}
 
 /**
- * Calculate keto score for a meal based on macros
+ * Keto score for a meal judged against the user's carb limit: how much of the
+ * carbs they have left today it uses, weighted by how strict they are, with the
+ * fat share relaxed for muscle building. When today's intake is known the score
+ * comes with a one-line explanation.
  */
 export function calculateMealScore(
     macros: Macros,
-    carbLimit: number = 20
+    context: MealScoringContext = { carbLimit: DEFAULT_CARB_LIMIT }
 ): KetoScore {
+    const remaining = Math.max(0, round1(context.remainingNetCarbs ?? context.carbLimit))
+    const netCarbs = round1(Math.max(0, macros.net_carbs))
+    const share = netCarbs <= 0 ? 0 : remaining <= 0 ? Infinity : netCarbs / remaining
+    const factor = STRICTNESS_PENALTY_FACTORS[context.strictness ?? DEFAULT_STRICTNESS]
+
     let score = 100
 
-    // Penalty based on net carbs vs limit
-    const carbRatio = macros.net_carbs / carbLimit
-    if (carbRatio > 1) {
-        // Over limit - heavy penalty
-        score -= Math.min(50, (carbRatio - 1) * 50)
-    } else if (carbRatio > 0.5) {
-        // More than half limit - moderate penalty
-        score -= (carbRatio - 0.5) * 30
+    // Carbs against what's left today
+    if (share > 1) {
+        score -= (45 + Math.min(25, (share - 1) * 25)) * factor
+    } else if (share > 0.5) {
+        score -= (share - 0.5) * 60 * factor
+    } else if (share > 0.25) {
+        score -= (share - 0.25) * 20 * factor
     }
 
-    // Calculate macro percentages
+    // Macro balance; muscle building allows more protein at the expense of fat
     const totalMacros = macros.fat + macros.protein + macros.net_carbs
     if (totalMacros > 0) {
+        const minFatPercent = context.goal === 'build_muscle' ? 50 : 60
         const fatPercent = (macros.fat / totalMacros) * 100
         const carbPercent = (macros.net_carbs / totalMacros) * 100
 
-        // Ideal keto: 70-80% fat, <10% carbs
-        if (fatPercent < 60) {
-            score -= (60 - fatPercent) * 0.5
+        if (fatPercent < minFatPercent) {
+            score -= (minFatPercent - fatPercent) * 0.5
         }
         if (carbPercent > 10) {
             score -= (carbPercent - 10) * 2
         }
     }
 
-    // Clamp score
     score = Math.max(0, Math.min(100, Math.round(score)))
 
+    let explanation: string | undefined
+    if (context.remainingNetCarbs !== undefined) {
+        if (remaining <= 0) {
+            explanation = netCarbs > 0
+                ? `You've already reached today's ${context.carbLimit}g limit; this adds ${netCarbs}g`
+                : `No net carbs, and you've already reached today's ${context.carbLimit}g limit`
+        } else if (share > 1) {
+            explanation = `${netCarbs}g net carbs is more than the ${remaining}g you have left today`
+        } else {
+            explanation = `Uses ${Math.round(share * 100)}% of your remaining ${remaining}g today`
+        }
+    }
+
     return {
         score,
         verdict: getVerdict(score),
         confidence: 'medium',
+        ruleset_version: SCORING_RULESET_VERSION,
+        explanation,
     }
 }
 
+// Words that cancel a match: "no added sugar", "without sugar", "sugar-free"
+const NEGATING_PREFIXES = new Set(['no', 'without', 'zero', 'non', 'not'])
+const NEGATING_SUFFIXES = new Set(['free', 'less'])
+
+interface DictionaryPhrase {
+    tokens: string[]
+    entry: IngredientDictionaryEntry
+}
+
+let compiledFor: IngredientDictionaryEntry[] | null = null
+let compiledPhrases: DictionaryPhrase[] = []
+
 /**
- * Calculate keto score for a product based on ingredients
+ * Lowercase word tokens; plurals folded and E-numbers joined ("E-1422" -> "e1422")
  */
-export function calculateProductScore(ingredients: string[]): KetoScore {
-    let score = 100
-    const parsedIngredients: ParsedIngredient[] = []
-
-    // Normalize ingredients
-    const normalizedIngredients = ingredients.map(i => i.toLowerCase().trim())
-
-    // Check each ingredient against blacklist
-    for (const ingredient of normalizedIngredients) {
-        let foundPenalty = false
-
-        for (const [badIngredient, { penalty, reason }] of Object.entries(INGREDIENT_PENALTIES)) {
-            if (ingredient.includes(badIngredient)) {
-                score -= penalty
-                parsedIngredients.push({
-                    name: ingredient,
-                    is_offender: true,
-                    penalty_score: penalty,
-                    reason,
-                })
-                foundPenalty = true
-                break
-            }
+function tokenize(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\be[\s-]+(\d{3,4}[a-z]?)\b/g, 'e$1')
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+        .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token))
+}
+
+/**
+ * Every term, alias and synonym of the active dictionary, longest phrase first
+ */
+function getPhrases(): DictionaryPhrase[] {
+    if (compiledFor === ingredientDictionary) return compiledPhrases
+
+    const phrases: DictionaryPhrase[] = []
+    for (const entry of ingredientDictionary) {
+        const synonyms = Object.keys(INGREDIENT_SYNONYMS).filter(name => INGREDIENT_SYNONYMS[name] === entry.term)
+        for (const name of [entry.term, ...entry.aliases, ...synonyms]) {
+            const tokens = tokenize(name)
+            if (tokens.length > 0) phrases.push({ tokens, entry })
         }
+    }
 
-        if (!foundPenalty) {
-            parsedIngredients.push({
-                name: ingredient,
-                is_offender: false,
-                penalty_score: 0,
-            })
+    compiledPhrases = phrases.sort((a, b) =>
+        b.tokens.length - a.tokens.length || b.tokens.join(' ').length - a.tokens.join(' ').length
+    )
+    compiledFor = ingredientDictionary
+    return compiledPhrases
+}
+
+function isNegated(tokens: string[], start: number, end: number): boolean {
+    if (NEGATING_SUFFIXES.has(tokens[end])) return true
+
+    // Look past "added": "no added sugar"
+    const before = tokens[start - 1] === 'added' ? start - 2 : start - 1
+    return NEGATING_PREFIXES.has(tokens[before])
+}
+
+/**
+ * The most specific non-negated dictionary match in a component.
+ * Phrases match whole tokens, so "buckwheat" isn't wheat, and a longer phrase
+ * claims its words first, so "brown sugar" wins over "sugar".
+ */
+function matchComponent(component: string): IngredientDictionaryEntry | null {
+    const tokens = tokenize(component)
+    const claimed = new Array<boolean>(tokens.length).fill(false)
+
+    for (const { tokens: phrase, entry } of getPhrases()) {
+        for (let start = 0; start + phrase.length <= tokens.length; start++) {
+            const end = start + phrase.length
+            if (claimed.slice(start, end).some(Boolean)) continue
+            if (!phrase.every((token, i) => tokens[start + i] === token)) continue
+
+            // A negated mention still claims its words, so "sugar free" can't match "sugar" later
+            claimed.fill(true, start, end)
+            if (!isNegated(tokens, start, end)) return entry
+        }
+    }
+
+    return null
+}
+
+/**
+ * Match components against the blacklist (the server dictionary when loaded).
+ * Each dictionary entry is penalized once, however many names it appears under.
+ */
+function matchComponents(components: string[]): ParsedIngredient[] {
+    const penalized = new Set<string>()
+
+    return components.map(name => {
+        const match = matchComponent(name)
+        if (!match || penalized.has(match.term)) {
+            return { name, is_offender: false, penalty_score: 0 }
         }
+
+        penalized.add(match.term)
+        return {
+            name,
+            is_offender: true,
+            penalty_score: match.penalty,
+            reason: match.reason,
+            category: match.category,
+        }
+    })
+}
+
+/**
+ * Match ingredients against the blacklist (the server dictionary when loaded).
+ * Entries may be a raw label or compound ingredients; what gets matched is
+ * their actual components, so "chocolate (sugar, cocoa butter)" counts sugar once.
+ */
+export function analyzeIngredients(ingredients: string[]): ParsedIngredient[] {
+    return matchComponents(flattenIngredients(parseIngredientList(ingredients.join(', '))))
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+    for (let start = 0; start + phrase.length <= tokens.length; start++) {
+        if (phrase.every((token, i) => tokens[start + i] === token)) return true
+    }
+    return false
+}
+
+/**
+ * Which of `names` an ingredient list mentions (synonyms included), in label order
+ */
+function findNamed(ingredients: string[], names: string[]): string[] {
+    const components = flattenIngredients(parseIngredientList(ingredients.join(', '))).map(tokenize)
+
+    return names
+        .map(name => {
+            const phrases = [name, ...Object.keys(INGREDIENT_SYNONYMS).filter(s => INGREDIENT_SYNONYMS[s] === name)].map(tokenize)
+            const position = components.findIndex(tokens => phrases.some(phrase => containsPhrase(tokens, phrase)))
+            return { name, position }
+        })
+        .filter(({ position }) => position !== -1)
+        .sort((a, b) => a.position - b.position)
+        .map(({ name }) => name)
+}
+
+/**
+ * Sugar alcohols named in an ingredient list, in label order
+ */
+export function findSugarAlcohols(ingredients: string[]): string[] {
+    return findNamed(ingredients, Object.keys(SUGAR_ALCOHOLS))
+}
+
+/**
+ * Grams of each low-impact sweetener and the share of it that counts as net carbs.
+ * The label gives one polyol total; the ingredient list says which polyols it is,
+ * and the total is split evenly between them. Polyols the list doesn't name count
+ * at DEFAULT_POLYOL_NET_CARB_FACTOR.
+ */
+function sweetenerShares(polyols: number, allulose: number, ingredients: string[]) {
+    const shares: { name: string, grams: number, factor: number }[] = []
+
+    if (polyols > 0) {
+        const found = findSugarAlcohols(ingredients)
+        shares.push(...(found.length > 0
+            ? found.map(name => ({ name, grams: polyols / found.length, factor: SUGAR_ALCOHOLS[name].netCarbFactor }))
+            : [{ name: 'sugar alcohols', grams: polyols, factor: DEFAULT_POLYOL_NET_CARB_FACTOR }]))
+    }
+    if (allulose > 0) {
+        shares.push({ name: 'allulose', grams: allulose, factor: ALLULOSE_NET_CARB_FACTOR })
+    }
+
+    return shares
+}
+
+function toAdjustments(shares: { name: string, grams: number, factor: number }[]): SweetenerAdjustment[] {
+    return shares
+        .map(({ name, grams, factor }) => ({ name, grams: round1(grams), excluded_grams: round1(grams * (1 - factor)) }))
+        .filter(s => s.excluded_grams > 0)
+}
+
+/**
+ * The sweetener breakdown for stored nutrition, whose net carbs were already
+ * adjusted: the raw polyol and allulose grams plus the ingredient list are enough.
+ */
+export function getSweetenerAdjustments(macros: Macros, ingredients: string[]): SweetenerAdjustment[] {
+    return toAdjustments(sweetenerShares(macros.sugar_alcohols || 0, macros.allulose || 0, ingredients))
+}
+
+/**
+ * Net carbs with low-impact sweeteners counted by glycemic impact instead of in full.
+ * Sugar alcohols come from the label's polyol total. Labels don't list allulose on
+ * its own, so when the ingredients name it, it's estimated as the carbohydrates left
+ * after sugars, fiber and polyols (labels count it in none of those).
+ */
+export function calculateNetCarbs(
+    nutrition: { carbohydrates: number, fiber: number, polyols: number, sugars?: number | null },
+    ingredients: string[]
+): { net_carbs: number, sweeteners: SweetenerAdjustment[], allulose: number } {
+    const baseNetCarbs = Math.max(0, nutrition.carbohydrates - nutrition.fiber)
+    const polyols = Math.min(nutrition.polyols, baseNetCarbs)
+    const allulose = nutrition.sugars != null && findNamed(ingredients, ['allulose']).length > 0
+        ? Math.max(0, Math.min(baseNetCarbs - polyols, nutrition.carbohydrates - nutrition.sugars - nutrition.fiber - polyols))
+        : 0
+
+    const shares = sweetenerShares(polyols, allulose, ingredients)
+    const excluded = shares.reduce((sum, { grams, factor }) => sum + grams * (1 - factor), 0)
+
+    return {
+        net_carbs: round1(Math.max(0, baseNetCarbs - excluded)),
+        sweeteners: toAdjustments(shares),
+        allulose: round1(allulose),
+    }
+}
+
+export interface PortionBudget {
+    netCarbs: number // in the chosen portion
+    remainingNetCarbs: number // left in today's carb limit
+}
+
+/**
+ * Calculate keto score for a product based on ingredients,
+ * and on net carbs when per-100g nutrition is known.
+ * With a portion, carbs are judged by the share of today's remaining budget
+ * that portion uses instead of by carb density.
+ */
+export function calculateProductScore(
+    ingredients: string[],
+    macrosPer100g?: Macros | null,
+    portion?: PortionBudget
+): ProductScore {
+    const tree = parseIngredientList(ingredients.join(', '))
+    const offenders = matchComponents(flattenIngredients(tree)).filter(i => i.is_offender)
+    const structuralPenalties: StructuralPenalty[] = []
+
+    // Penalty for too many ingredients, as listed on the label
+    if (tree.length > INGREDIENT_COUNT_PENALTY.THRESHOLD) {
+        structuralPenalties.push({
+            reason: `More than ${INGREDIENT_COUNT_PENALTY.THRESHOLD} ingredients`,
+            penalty: INGREDIENT_COUNT_PENALTY.PENALTY,
+        })
     }
 
-    // Penalty for too many ingredients
-    if (ingredients.length > INGREDIENT_COUNT_PENALTY.THRESHOLD) {
-        score -= INGREDIENT_COUNT_PENALTY.PENALTY
+    if (portion) {
+        // Penalty for the share of today's carb budget
+        const share = portion.netCarbs <= 0 ? 0
+            : portion.remainingNetCarbs <= 0 ? Infinity
+            : portion.netCarbs / portion.remainingNetCarbs
+        const budgetTier = CARB_BUDGET_PENALTIES.find(tier => share > tier.ABOVE)
+        if (budgetTier) {
+            structuralPenalties.push({
+                reason: share > 1
+                    ? `${portion.netCarbs}g net carbs is more than the ${portion.remainingNetCarbs}g left today`
+                    : `${portion.netCarbs}g net carbs uses ${Math.round(share * 100)}% of the ${portion.remainingNetCarbs}g left today`,
+                penalty: budgetTier.PENALTY,
+            })
+        }
+    } else {
+        // Penalty for carb density
+        const netCarbs = macrosPer100g?.net_carbs ?? 0
+        const carbTier = NET_CARB_PENALTIES.find(tier => netCarbs > tier.ABOVE)
+        if (carbTier) {
+            structuralPenalties.push({
+                reason: `${netCarbs}g net carbs per 100g`,
+                penalty: carbTier.PENALTY,
+            })
+        }
     }
 
+    let score = 100
+    offenders.forEach(i => { score -= i.penalty_score })
+    structuralPenalties.forEach(p => { score -= p.penalty })
+
     // Clamp score
     score = Math.max(0, Math.min(100, Math.round(score)))
 
@@ -104,6 +412,24 @@ export function calculateProductScore(ingredients: string[]): KetoScore {
         score,
         verdict: getVerdict(score),
         confidence: 'high',
+        offenders,
+        structural_penalties: structuralPenalties,
+        ruleset_version: getProductRulesetVersion(),
+    }
+}
+
+/**
+ * Bring a model-produced score onto the app's scale.
+ * The verdict is re-derived from the score; 'unknown' (nothing scorable) is kept.
+ */
+export function normalizeModelScore(score: number, verdict: KetoVerdict): KetoScore {
+    const clamped = Math.max(0, Math.min(100, Math.round(Number(score) || 0)))
+
+    return {
+        score: clamped,
+        verdict: verdict === 'unknown' ? 'unknown' : getVerdict(clamped),
+        confidence: 'medium',
+        ruleset_version: SCORING_RULESET_VERSION,
     }
 }
 
@@ -1,43 +1,215 @@
 /**
  * Log Service
- * Silent logging of user corrections for model improvement
+ * Silent logging of user corrections for model improvement.
+ * Corrections are queued on device and written to the corrections table in
+ * batches, in the background; offline or failed batches stay queued and are
+ * retried on the next flush, so nothing the user reviewed is lost.
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from './supabase';
+import { withRetry, isRetryableError } from '../utils/retry';
 
-export type UserCorrectionAction = 'confirmed' | 'removed' | 'replaced' | 'untouched';
+export type UserCorrectionAction = 'confirmed' | 'removed' | 'replaced' | 'added' | 'untouched';
 
 export interface CorrectionLog {
-    scan_id: string;
+    user_id: string | null;
+    scan_event_id: string | null;
+    meal_id?: string | null;
+    product_id?: string | null;
     food_label: string;
-    model_confidence: number;
+    model_confidence: number | null; // null for foods the model never detected
     user_action: UserCorrectionAction;
     replacement_label?: string;
+    portion_grams?: number;
     timestamp: string;
 }
 
+interface QueuedCorrection {
+    id: string; // generated on device, so a retried batch can't insert twice
+    log: CorrectionLog;
+    attempts: number;
+}
+
+const CORRECTION_QUEUE_KEY = '@ketolens:correction_queue';
+
+const BATCH_SIZE = 50;
+
+// Wait for the rest of a review before writing, so it goes out as one batch
+const FLUSH_DELAY_MS = 2000;
+
+// Batches rejected for non-network reasons are eventually dropped
+const MAX_ATTEMPTS = 5;
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let activeFlush: Promise<void> | null = null;
+// Tail of the queue read-modify-write chain
+let queueUpdate: Promise<unknown> = Promise.resolve();
+
+function createId(): string {
+    // RFC 4122 version 4 layout
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+        const random = (Math.random() * 16) | 0;
+        return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+    });
+}
+
+async function readQueue(): Promise<QueuedCorrection[]> {
+    try {
+        const raw = await AsyncStorage.getItem(CORRECTION_QUEUE_KEY);
+        return raw ? (JSON.parse(raw) as QueuedCorrection[]) : [];
+    } catch (err) {
+        console.error('[Correction Log] Queue read failed:', err);
+        return [];
+    }
+}
+
+async function writeQueue(queue: QueuedCorrection[]): Promise<void> {
+    await AsyncStorage.setItem(CORRECTION_QUEUE_KEY, JSON.stringify(queue));
+}
+
+/**
+ * Read, change and write the queue, one update at a time, so a flush and a
+ * new review landing together can't overwrite each other's changes.
+ */
+function updateQueue(update: (queue: QueuedCorrection[]) => QueuedCorrection[]): Promise<QueuedCorrection[]> {
+    const next = queueUpdate.then(async () => {
+        const queue = update(await readQueue());
+        await writeQueue(queue);
+        return queue;
+    });
+    queueUpdate = next.catch(() => undefined);
+    return next;
+}
+
+function toRow({ id, log }: QueuedCorrection) {
+    return {
+        id,
+        user_id: log.user_id,
+        scan_event_id: log.scan_event_id,
+        meal_id: log.meal_id ?? null,
+        product_id: log.product_id ?? null,
+        action: log.user_action,
+        original_label: log.food_label,
+        corrected_label: log.replacement_label ?? null,
+        model_confidence: log.model_confidence,
+        portion_grams: log.portion_grams ?? null,
+        created_at: log.timestamp,
+    };
+}
+
+async function upsertRows(entries: QueuedCorrection[]): Promise<void> {
+    const { error } = await supabase
+        .from('corrections')
+        .upsert(entries.map(toRow), { onConflict: 'id', ignoreDuplicates: true });
+    if (error) throw new Error(error.message);
+}
+
+/**
+ * Resend a rejected batch one row at a time, so a single bad row can't hold
+ * back the rest. Stops at the first network error; unsent rows wait for the
+ * next flush.
+ */
+async function sendRowByRow(batch: QueuedCorrection[]): Promise<{ sent: Set<string>; rejected: Set<string> }> {
+    const sent = new Set<string>();
+    const rejected = new Set<string>();
+
+    for (const entry of batch) {
+        try {
+            await upsertRows([entry]);
+            sent.add(entry.id);
+        } catch (err) {
+            if (isRetryableError(err)) break;
+            console.error('[Correction Log] Row rejected:', err);
+            rejected.add(entry.id);
+        }
+    }
+
+    return { sent, rejected };
+}
+
+async function flush(): Promise<void> {
+    let queue = await readQueue();
+
+    while (queue.length > 0) {
+        const batch = queue.slice(0, BATCH_SIZE);
+        const batchIds = new Set(batch.map(entry => entry.id));
+        let sent = batchIds;
+        let rejected = new Set<string>();
+
+        try {
+            await withRetry(() => upsertRows(batch), { maxRetries: 3, delayMs: 1000 });
+        } catch (err) {
+            // Offline: keep everything for the next flush
+            if (isRetryableError(err)) return;
+
+            console.error('[Correction Log] Batch rejected, retrying row by row:', err);
+            ({ sent, rejected } = await sendRowByRow(batch));
+        }
+
+        // Only rows the server rejected count an attempt; corrections queued while
+        // the batch was in flight are kept
+        const remaining = await updateQueue(latest => latest
+            .filter(entry => !sent.has(entry.id))
+            .map(entry => (rejected.has(entry.id) ? { ...entry, attempts: entry.attempts + 1 } : entry))
+            .filter(entry => entry.attempts < MAX_ATTEMPTS));
+
+        // Went offline partway through the rows
+        if (sent.size + rejected.size < batch.length) return;
+
+        // Rejected rows are retried on the next flush, not in this one
+        queue = remaining.filter(entry => !batchIds.has(entry.id));
+    }
+}
+
+/**
+ * Write queued corrections now. Concurrent calls share the flush in flight.
+ * Call on launch and when the app returns to the foreground to drain anything
+ * logged while offline.
+ */
+export function flushCorrections(): Promise<void> {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+    if (!activeFlush) {
+        activeFlush = flush()
+            .catch(err => console.error('[Correction Log Error]', err))
+            .finally(() => {
+                activeFlush = null;
+            });
+    }
+    return activeFlush;
+}
+
+function scheduleFlush() {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        flushCorrections();
+    }, FLUSH_DELAY_MS);
+}
+
 /**
  * Logs a user correction event silently.
  * Does not throw - failures are swallowed to avoid disrupting UX.
  */
 export async function logCorrection(log: CorrectionLog): Promise<void> {
-    try {
-        // For MVP: Log to console. In production, persist to Supabase.
-        console.log('[Correction Log]', JSON.stringify(log));
-
-        // Future: Uncomment when corrections table is created
-        // await supabase.from('corrections').insert(log);
-    } catch (error) {
-        // Silent failure - don't disrupt user flow
-        console.error('[Correction Log Error]', error);
-    }
+    await logBatchCorrections([log]);
 }
 
 /**
  * Batch log multiple corrections from a single scan.
  */
 export async function logBatchCorrections(logs: CorrectionLog[]): Promise<void> {
-    for (const log of logs) {
-        await logCorrection(log);
+    if (logs.length === 0) return;
+
+    try {
+        const queued = logs.map(log => ({ id: createId(), log, attempts: 0 }));
+        await updateQueue(queue => [...queue, ...queued]);
+        scheduleFlush();
+    } catch (error) {
+        // Silent failure - don't disrupt user flow
+        console.error('[Correction Log Error]', error);
     }
 }
@@ -0,0 +1,118 @@
+/**
+ * Macro Targets
+ * Daily calorie, net-carb, protein and fat targets from the user's body,
+ * activity, goal and keto mode. Calories use Mifflin-St Jeor, protein follows
+ * lean mass, net carbs follow the keto mode and fat fills the rest.
+ */
+
+import {
+    ACTIVITY_MULTIPLIERS,
+    DEFAULT_STRICTNESS,
+    EXPERIENCE_STRICTNESS,
+    GOAL_CALORIE_ADJUSTMENTS,
+    MIN_FAT_TARGET,
+    PROTEIN_GOAL_BONUS,
+    PROTEIN_PER_KG_LEAN_MASS,
+    STRICTNESS_CARB_LIMITS,
+} from '../constants/keto';
+import type {
+    ActivityLevel,
+    FitnessGoal,
+    KetoExperience,
+    KetoStrictness,
+    MacroTargets,
+    TargetOverrides,
+} from '../types';
+
+export interface TargetInputs {
+    age: number;
+    weight: number;
+    weight_unit: 'kg' | 'lbs';
+    height: number;
+    height_unit: 'cm' | 'ft';
+    gender: 'male' | 'female' | 'other';
+    activity_level: ActivityLevel;
+    goal: FitnessGoal;
+    strictness?: KetoStrictness;
+    experience?: KetoExperience;
+    body_fat_percent?: number | null; // measured; estimated from BMI when missing
+}
+
+function toMetric(inputs: TargetInputs): { weightKg: number; heightCm: number } {
+    return {
+        weightKg: inputs.weight_unit === 'lbs' ? inputs.weight * 0.453592 : inputs.weight,
+        heightCm: inputs.height_unit === 'ft' ? inputs.height * 30.48 : inputs.height,
+    };
+}
+
+/**
+ * The keto mode in effect: chosen explicitly, else implied by experience
+ */
+export function resolveStrictness(inputs: Pick<TargetInputs, 'strictness' | 'experience'>): KetoStrictness {
+    if (inputs.strictness) return inputs.strictness;
+    if (inputs.experience) return EXPERIENCE_STRICTNESS[inputs.experience];
+    return DEFAULT_STRICTNESS;
+}
+
+/**
+ * Body fat from BMI, age and sex (Deurenberg), for users who haven't measured it
+ */
+export function estimateBodyFatPercent(inputs: TargetInputs): number {
+    const { weightKg, heightCm } = toMetric(inputs);
+    const bmi = weightKg / Math.pow(heightCm / 100, 2);
+    const sex = inputs.gender === 'male' ? 1 : inputs.gender === 'female' ? 0 : 0.5;
+    const estimate = 1.2 * bmi + 0.23 * inputs.age - 10.8 * sex - 5.4;
+    return Math.min(60, Math.max(5, estimate));
+}
+
+/**
+ * Fat that fills the calories left after protein and carbs
+ */
+function fillFat(calories: number, protein: number, netCarbs: number): number {
+    return Math.max(MIN_FAT_TARGET, Math.round((calories - protein * 4 - netCarbs * 4) / 9));
+}
+
+export function calculateMacroTargets(inputs: TargetInputs): MacroTargets {
+    const { weightKg, heightCm } = toMetric(inputs);
+
+    // Base BMR (Mifflin-St Jeor)
+    const bmr = inputs.gender === 'male'
+        ? (10 * weightKg) + (6.25 * heightCm) - (5 * inputs.age) + 5
+        : (10 * weightKg) + (6.25 * heightCm) - (5 * inputs.age) - 161;
+
+    const tdee = bmr * ACTIVITY_MULTIPLIERS[inputs.activity_level];
+    const calories = Math.round(tdee + GOAL_CALORIE_ADJUSTMENTS[inputs.goal]);
+
+    const bodyFat = inputs.body_fat_percent ?? estimateBodyFatPercent(inputs);
+    const leanMassKg = weightKg * (1 - bodyFat / 100);
+    const proteinPerKg = PROTEIN_PER_KG_LEAN_MASS[inputs.activity_level] + PROTEIN_GOAL_BONUS[inputs.goal];
+    const protein = Math.round(leanMassKg * proteinPerKg);
+
+    const carbLimit = STRICTNESS_CARB_LIMITS[resolveStrictness(inputs)];
+
+    return {
+        calorie_target: calories,
+        carb_limit: carbLimit,
+        protein_target: protein,
+        fat_target: fillFat(calories, protein, carbLimit),
+    };
+}
+
+/**
+ * Apply hand-set targets. Unless fat itself is set, it's recalculated to fill
+ * the calories the other targets leave.
+ */
+export function applyTargetOverrides(targets: MacroTargets, overrides?: TargetOverrides | null): MacroTargets {
+    if (!overrides) return targets;
+
+    const calories = overrides.calorie_target ?? targets.calorie_target;
+    const carbLimit = overrides.carb_limit ?? targets.carb_limit;
+    const protein = overrides.protein_target ?? targets.protein_target;
+
+    return {
+        calorie_target: calories,
+        carb_limit: carbLimit,
+        protein_target: protein,
+        fat_target: overrides.fat_target ?? fillFat(calories, protein, carbLimit),
+    };
+}
@@ -0,0 +1,153 @@
+/**
+ * Product Cache Service
+ * On-device cache of barcode lookups so products the user has scanned before
+ * resolve instantly, even with no reception.
+ * Entries are keyed by barcode + country, go stale after a week and are
+ * dropped after six months; the least recently used ones are evicted first.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getProductRulesetVersion } from './ketoScoring';
+import type { ProductData } from './barcodeService';
+
+const PRODUCT_CACHE_KEY = '@ketolens:product_cache';
+const CACHE_VERSION = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FRESH_TTL_MS = 7 * DAY_MS; // served without revalidating
+const MAX_AGE_MS = 180 * DAY_MS; // served while revalidating, then dropped
+const MAX_ENTRIES = 300;
+
+// Reads only bump LRU order; batch those writes instead of rewriting the cache per hit
+const ACCESS_PERSIST_DELAY_MS = 5000;
+
+interface CacheEntry {
+    product: ProductData;
+    cachedAt: number;
+    lastAccessedAt: number;
+}
+
+interface CacheStore {
+    version: number;
+    entries: Record<string, CacheEntry>;
+}
+
+export interface CachedProduct {
+    product: ProductData;
+    isStale: boolean;
+    cachedAt: Date;
+}
+
+let store: CacheStore | null = null;
+let loading: Promise<CacheStore> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+function cacheKey(barcode: string, countryCode: string): string {
+    return `${countryCode.toUpperCase()}:${barcode}`;
+}
+
+async function loadStore(): Promise<CacheStore> {
+    if (store) return store;
+    if (!loading) {
+        loading = AsyncStorage.getItem(PRODUCT_CACHE_KEY)
+            .then(raw => {
+                const parsed = raw ? (JSON.parse(raw) as CacheStore) : null;
+                // A version bump means the ProductData shape changed; start over
+                store = parsed?.version === CACHE_VERSION ? parsed : { version: CACHE_VERSION, entries: {} };
+                return store;
+            })
+            .catch(err => {
+                console.error('[ProductCache] Load failed:', err);
+                store = { version: CACHE_VERSION, entries: {} };
+                return store;
+            })
+            .finally(() => {
+                loading = null;
+            });
+    }
+    return loading;
+}
+
+async function persist(current: CacheStore): Promise<void> {
+    if (persistTimer) {
+        clearTimeout(persistTimer);
+        persistTimer = null;
+    }
+    try {
+        await AsyncStorage.setItem(PRODUCT_CACHE_KEY, JSON.stringify(current));
+    } catch (err) {
+        console.error('[ProductCache] Persist failed:', err);
+    }
+}
+
+function schedulePersist(current: CacheStore) {
+    if (persistTimer) return;
+    persistTimer = setTimeout(() => {
+        persistTimer = null;
+        persist(current);
+    }, ACCESS_PERSIST_DELAY_MS);
+}
+
+function evict(current: CacheStore, now: number) {
+    for (const [key, entry] of Object.entries(current.entries)) {
+        if (now - entry.cachedAt > MAX_AGE_MS) delete current.entries[key];
+    }
+
+    const keys = Object.keys(current.entries);
+    if (keys.length <= MAX_ENTRIES) return;
+
+    keys
+        .sort((a, b) => current.entries[a].lastAccessedAt - current.entries[b].lastAccessedAt)
+        .slice(0, keys.length - MAX_ENTRIES)
+        .forEach(key => delete current.entries[key]);
+}
+
+export const ProductCacheService = {
+    /**
+     * Cached product for a barcode, or null on a miss.
+     * `isStale` means the caller should refresh it in the background.
+     */
+    async get(barcode: string, countryCode: string = 'US'): Promise<CachedProduct | null> {
+        const current = await loadStore();
+        const key = cacheKey(barcode, countryCode);
+        const entry = current.entries[key];
+        if (!entry) return null;
+
+        const now = Date.now();
+        const age = now - entry.cachedAt;
+        if (age > MAX_AGE_MS) {
+            delete current.entries[key];
+            schedulePersist(current);
+            return null;
+        }
+
+        entry.lastAccessedAt = now;
+        schedulePersist(current);
+
+        return {
+            product: entry.product,
+            // Scored under an older ruleset or dictionary: still shown, but refreshed
+            isStale: age > FRESH_TTL_MS || entry.product.rulesetVersion !== getProductRulesetVersion(),
+            cachedAt: new Date(entry.cachedAt),
+        };
+    },
+
+    /**
+     * Store a found product. Misses and failed lookups are never cached.
+     */
+    async set(product: ProductData, countryCode: string = 'US'): Promise<void> {
+        if (!product.found) return;
+
+        const current = await loadStore();
+        const now = Date.now();
+        current.entries[cacheKey(product.barcode, countryCode)] = {
+            // The verdict-change note is for the scan that produced it, not later cache hits
+            product: { ...product, verdictChange: undefined },
+            cachedAt: now,
+            lastAccessedAt: now,
+        };
+
+        evict(current, now);
+        await persist(current);
+    },
+};
@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { calculateMacroTargets, applyTargetOverrides, resolveStrictness, TargetInputs } from './macroTargets';
+import type { ActivityLevel, FitnessGoal, KetoExperience, KetoStrictness, MacroTargets, TargetOverrides } from '../types';
 
 const GUEST_PROFILE_KEY = '@ketolens:guest_profile';
 const GUEST_TARGETS_KEY = '@ketolens:guest_targets';
@@ -12,52 +14,65 @@ export interface UserProfile {
     height: number;
     height_unit: 'cm' | 'ft';
     gender: 'male' | 'female' | 'other';
-    activity_level: 'sedentary' | 'lightly_active' | 'moderately_active' | 'very_active';
-    goal: 'lose_weight' | 'maintain' | 'build_muscle';
+    activity_level: ActivityLevel;
+    goal: FitnessGoal;
+    strictness?: KetoStrictness;
+    experience?: KetoExperience;
+    body_fat_percent?: number | null;
     calorie_target: number;
     carb_limit: number;
+    protein_target?: number;
+    fat_target?: number;
+    target_overrides?: TargetOverrides | null;
+}
+
+// What scoring needs to know about the user, signed in or guest
+export interface ScoringTargets {
+    carb_limit?: number | null;
+    calorie_target?: number | null;
+    protein_target?: number | null;
+    fat_target?: number | null;
+    goal?: FitnessGoal;
+    strictness?: KetoStrictness;
 }
 
 export const ProfileService = {
     /**
-     * Calculate TDEE using Mifflin-St Jeor
+     * Daily targets from the profile (see macroTargets), with any hand-set overrides applied
      */
-    calculateTargets(profile: Omit<UserProfile, 'id' | 'calorie_target' | 'carb_limit'>): { calorie_target: number; carb_limit: number } {
-        // 1. Convert to metric
-        const weightKg = profile.weight_unit === 'lbs' ? profile.weight * 0.453592 : profile.weight;
-        const heightCm = profile.height_unit === 'ft' ? profile.height * 30.48 : profile.height;
-
-        // 2. Base BMR
-        let bmr = 0;
-        if (profile.gender === 'male') {
-            bmr = (10 * weightKg) + (6.25 * heightCm) - (5 * profile.age) + 5;
-        } else {
-            bmr = (10 * weightKg) + (6.25 * heightCm) - (5 * profile.age) - 161;
-        }
+    calculateTargets(profile: TargetInputs & { target_overrides?: TargetOverrides | null }): MacroTargets {
+        return applyTargetOverrides(calculateMacroTargets(profile), profile.target_overrides);
+    },
 
-        // 3. Apply Activity Multiplier
-        const multipliers = {
-            sedentary: 1.2,
-            lightly_active: 1.375,
-            moderately_active: 1.55,
-            very_active: 1.725
-        };
-        const tdee = bmr * multipliers[profile.activity_level];
-
-        // 4. Adjust for goal
-        let calorieTarget = tdee;
-        if (profile.goal === 'lose_weight') {
-            calorieTarget -= 500; // 500 kcal deficit
-        } else if (profile.goal === 'build_muscle') {
-            calorieTarget += 300; // 300 kcal surplus
-        }
+    /**
+     * Targets and preferences for scoring, from the profile or the guest's quiz answers
+     */
+    async getScoringTargets(userId?: string): Promise<ScoringTargets | null> {
+        const source = userId
+            ? await this.getProfile(userId)
+            : await this.getGuestData().then(guest => (guest ? { ...guest.profileData, ...guest.targets } : null));
+        if (!source) return null;
 
         return {
-            calorie_target: Math.round(calorieTarget),
-            carb_limit: 50 // Default per user request
+            carb_limit: source.carb_limit,
+            calorie_target: source.calorie_target,
+            protein_target: source.protein_target,
+            fat_target: source.fat_target,
+            goal: source.goal,
+            strictness: resolveStrictness(source),
         };
     },
 
+    /**
+     * The signed-in user's profile, or the guest's quiz answers and targets as one
+     */
+    async getCurrentProfile(userId?: string): Promise<UserProfile | null> {
+        if (userId) return this.getProfile(userId);
+
+        const guest = await this.getGuestData();
+        return guest ? ({ id: 'guest', ...guest.profileData, ...guest.targets } as UserProfile) : null;
+    },
+
     async getProfile(userId: string): Promise<UserProfile | null> {
         // Guard: prevent Supabase UUID error on empty string
         if (!userId) return null;
@@ -99,6 +114,24 @@ export const ProfileService = {
         return true;
     },
 
+    /**
+     * Apply edits, recalculate targets and save: to Supabase when signed in,
+     * on device for guests. Returns the saved profile, or null if saving failed.
+     */
+    async updateProfile(userId: string | undefined, profile: UserProfile, changes: Partial<UserProfile>): Promise<UserProfile | null> {
+        const edited = { ...profile, ...changes };
+        const updated: UserProfile = { ...edited, ...this.calculateTargets(edited) };
+
+        if (userId) {
+            const saved = await this.saveProfile({ ...updated, id: userId });
+            return saved ? updated : null;
+        }
+
+        const { id, calorie_target, carb_limit, protein_target, fat_target, ...profileData } = updated;
+        await this.saveGuestData(profileData, { calorie_target, carb_limit, protein_target, fat_target });
+        return updated;
+    },
+
     async saveGuestData(profileData: any, targets: any): Promise<void> {
         try {
             await AsyncStorage.setItem(GUEST_PROFILE_KEY, JSON.stringify(profileData));
@@ -0,0 +1,218 @@
+/**
+ * Scan Persistence Service
+ * Writes every meal and product scan to the meals / product_scans tables
+ * so History (and anything built on it) has real records to read.
+ */
+
+import { supabase } from './supabase';
+import { ShadowDbService } from './shadowDbService';
+import { analyzeIngredients } from './ketoScoring';
+import { IntakeLedgerService } from './intakeLedgerService';
+import { getConfidenceLevel } from '../types';
+import type { KetoScore } from '../types';
+import type { AnalysisResult } from './aiService';
+import type { ProductData } from './barcodeService';
+
+const SCAN_IMAGES_BUCKET = 'scan-images';
+
+// Label photos carry no product name of their own
+const LABEL_SCAN_NAME = 'Scanned label';
+
+export interface SavedScan {
+    recordId: string;
+    scanEventId: string | null;
+    productId?: string;
+}
+
+/**
+ * Upload a local image to storage and return its public URL.
+ * Remote URLs (e.g. Open Food Facts) are stored as-is.
+ */
+async function uploadScanImage(userId: string, uri: string): Promise<string | null> {
+    if (uri.startsWith('http')) return uri;
+
+    try {
+        const response = await fetch(uri);
+        const body = await response.arrayBuffer();
+        const path = `${userId}/${Date.now()}.jpg`;
+
+        const { error } = await supabase.storage
+            .from(SCAN_IMAGES_BUCKET)
+            .upload(path, body, { contentType: 'image/jpeg' });
+
+        if (error) {
+            console.error('[ScanPersistence] Image upload error:', error);
+            return null;
+        }
+
+        return supabase.storage.from(SCAN_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+    } catch (err) {
+        console.error('[ScanPersistence] Image upload failed:', err);
+        return null;
+    }
+}
+
+function toProductKetoScore(product: ProductData): KetoScore {
+    return {
+        score: product.ketoScore,
+        verdict: product.ketoVerdict,
+        confidence: product.source === 'ocr' || product.needsOCR ? 'low' : 'high',
+        ruleset_version: product.rulesetVersion,
+    };
+}
+
+export const ScanPersistenceService = {
+    /**
+     * Persist a meal analysis.
+     * Guests have no user row, so only their local intake ledger is updated.
+     */
+    async saveMealScan(userId: string | undefined, result: AnalysisResult, imageUri?: string | null): Promise<SavedScan | null> {
+        if (!userId) {
+            await IntakeLedgerService.logGuestEntry(result.macros);
+            return null;
+        }
+
+        const scanEventId = await ShadowDbService.logScan({
+            user_id: userId,
+            scan_type: 'meal',
+            model_confidence: result.plateConfidence,
+        });
+
+        const imageUrl = imageUri ? await uploadScanImage(userId, imageUri) : null;
+
+        const keto_score: KetoScore = {
+            score: result.score,
+            verdict: result.verdict,
+            confidence: getConfidenceLevel(result.plateConfidence),
+            ruleset_version: result.rulesetVersion,
+        };
+
+        const { data, error } = await supabase
+            .from('meals')
+            .insert([{
+                user_id: userId,
+                image_url: imageUrl,
+                foods: result.foods,
+                macros: result.macros,
+                keto_score,
+                swap_suggestion: result.swapSuggestion || null,
+                scan_event_id: scanEventId,
+            }])
+            .select('id')
+            .single();
+
+        if (error || !data) {
+            console.error('[ScanPersistence] Save meal error:', error);
+            return null;
+        }
+
+        return { recordId: data.id, scanEventId };
+    },
+
+    /**
+     * Persist a barcode / label product scan.
+     * Scanning a product isn't eating it, so scans stay out of the intake
+     * ledger; only portions logged through FoodLogService count.
+     */
+    async saveProductScan(userId: string | undefined, product: ProductData, imageUri?: string | null): Promise<SavedScan | null> {
+        if (!product.found || !userId) return null;
+
+        const scanEventId = await ShadowDbService.logScan({
+            product_id: product.id,
+            user_id: userId,
+            scan_type: product.source === 'ocr' ? 'ocr' : 'barcode',
+        });
+
+        const source = imageUri || product.imageUrl;
+        const imageUrl = source ? await uploadScanImage(userId, source) : null;
+
+        const { data, error } = await supabase
+            .from('product_scans')
+            .insert([{
+                user_id: userId,
+                barcode: product.barcode || null,
+                product_name: product.name,
+                brand: product.brand || null,
+                image_url: imageUrl,
+                ingredients: analyzeIngredients(product.ingredients),
+                macros: product.macros,
+                keto_score: toProductKetoScore(product),
+                alternative_suggestion: product.swapSuggestion || null,
+                scan_event_id: scanEventId,
+                source: 'scan',
+            }])
+            .select('id')
+            .single();
+
+        if (error || !data) {
+            console.error('[ScanPersistence] Save product error:', error);
+            return null;
+        }
+
+        return { recordId: data.id, scanEventId, productId: product.id };
+    },
+
+    /**
+     * Persist a product read from a label photo, stored like a barcode scan
+     */
+    async saveLabelScan(userId: string | undefined, result: AnalysisResult, imageUri?: string | null): Promise<SavedScan | null> {
+        return this.saveProductScan(userId, {
+            found: true,
+            barcode: '',
+            name: LABEL_SCAN_NAME,
+            brand: '',
+            macros: result.macros,
+            ingredients: result.foods.map(f => f.name),
+            ketoScore: result.score,
+            ketoVerdict: result.verdict,
+            rulesetVersion: result.rulesetVersion,
+            swapSuggestion: result.swapSuggestion,
+            source: 'ocr',
+        }, imageUri);
+    },
+
+    /**
+     * Overwrite a saved meal after the user corrected its foods
+     */
+    async updateMealScan(recordId: string, result: AnalysisResult): Promise<boolean> {
+        const { error } = await supabase
+            .from('meals')
+            .update({
+                foods: result.foods,
+                macros: result.macros,
+                keto_score: {
+                    score: result.score,
+                    verdict: result.verdict,
+                    confidence: getConfidenceLevel(result.plateConfidence),
+                    ruleset_version: result.rulesetVersion,
+                },
+                swap_suggestion: result.swapSuggestion || null,
+            })
+            .eq('id', recordId);
+
+        if (error) {
+            console.error('[ScanPersistence] Update meal error:', error);
+            return false;
+        }
+        return true;
+    },
+
+    /**
+     * Overwrite a saved product scan after refinement (e.g. automatic OCR)
+     */
+    async updateProductScan(recordId: string, product: ProductData): Promise<void> {
+        const { error } = await supabase
+            .from('product_scans')
+            .update({
+                ingredients: analyzeIngredients(product.ingredients),
+                macros: product.macros,
+                keto_score: toProductKetoScore(product),
+                alternative_suggestion: product.swapSuggestion || null,
+            })
+            .eq('id', recordId);
+
+        if (error) {
+            console.error('[ScanPersistence] Update product error:', error);
+        }
+    },
+};
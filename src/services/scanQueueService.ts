@@ -0,0 +1,215 @@
+/**
+ * Scan Queue Service
+ * Meal photos captured while offline are kept on device and analyzed once the
+ * network is back, instead of showing a made-up result.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system';
+import { analyzePhoto, classifyAnalysis, personalizeMealAnalysis, AnalysisResult } from './aiService';
+import { ScanPersistenceService, SavedScan } from './scanPersistenceService';
+import type { MealScoringContext } from './ketoScoring';
+import { withRetry, isRetryableError } from '../utils/retry';
+
+const SCAN_QUEUE_KEY = '@ketolens:scan_queue';
+const QUEUE_DIRECTORY = 'scan-queue';
+
+// Scans that keep failing for non-network reasons are eventually dropped
+const MAX_ATTEMPTS = 5;
+
+export interface QueuedScan {
+    id: string;
+    userId: string | null; // null for guests
+    imageUri: string; // copy of the preprocessed image in the document directory
+    createdAt: string;
+    attempts: number;
+    lastError?: string;
+}
+
+export interface ReplayedScan {
+    queued: QueuedScan;
+    result: AnalysisResult;
+    savedScan: SavedScan | null;
+}
+
+type QueueListener = (queue: QueuedScan[]) => void;
+
+// The user's meal scoring context on the day a scan was captured
+export type MealContextLoader = (capturedAt: Date) => Promise<MealScoringContext>;
+
+const listeners = new Set<QueueListener>();
+let activeReplay: { owner: string | null; replayed: Promise<ReplayedScan[]> } | null = null;
+
+async function readQueue(): Promise<QueuedScan[]> {
+    try {
+        const raw = await AsyncStorage.getItem(SCAN_QUEUE_KEY);
+        return raw ? (JSON.parse(raw) as QueuedScan[]) : [];
+    } catch (err) {
+        console.error('[ScanQueue] Read failed:', err);
+        return [];
+    }
+}
+
+async function writeQueue(queue: QueuedScan[]): Promise<void> {
+    await AsyncStorage.setItem(SCAN_QUEUE_KEY, JSON.stringify(queue));
+    listeners.forEach(listener => listener(queue));
+}
+
+async function updateEntry(id: string, patch: Partial<QueuedScan> | null): Promise<void> {
+    const queue = await readQueue();
+    const next = patch
+        ? queue.map(entry => (entry.id === id ? { ...entry, ...patch } : entry))
+        : queue.filter(entry => entry.id !== id);
+    await writeQueue(next);
+}
+
+function deleteImage(uri: string) {
+    try {
+        const file = new File(uri);
+        if (file.exists) file.delete();
+    } catch (err) {
+        console.error('[ScanQueue] Image cleanup failed:', err);
+    }
+}
+
+async function replay(userId: string | undefined, loadContext?: MealContextLoader): Promise<ReplayedScan[]> {
+    const owner = userId ?? null;
+    const pending = (await readQueue()).filter(entry => entry.userId === owner);
+    const replayed: ReplayedScan[] = [];
+
+    for (const entry of pending) {
+        const image = new File(entry.imageUri);
+        if (!image.exists) {
+            console.warn('[ScanQueue] Queued image missing, dropping', entry.id);
+            await updateEntry(entry.id, null);
+            continue;
+        }
+
+        let result: AnalysisResult;
+        try {
+            const base64 = await image.base64();
+            result = await withRetry(() => analyzePhoto(base64, 'meal'), {
+                maxRetries: 2,
+                delayMs: 2000,
+                onRetry: (attempt, error) => {
+                    console.log(`[ScanQueue] Replay retry ${attempt}: ${error.message}`);
+                },
+            });
+        } catch (err) {
+            // Still offline: leave the rest of the queue for the next replay
+            if (isRetryableError(err)) break;
+
+            const attempts = entry.attempts + 1;
+            const message = err instanceof Error ? err.message : String(err);
+            if (attempts >= MAX_ATTEMPTS) {
+                console.error('[ScanQueue] Giving up on queued scan', entry.id, message);
+                deleteImage(entry.imageUri);
+                await updateEntry(entry.id, null);
+            } else {
+                await updateEntry(entry.id, { attempts, lastError: message });
+            }
+            continue;
+        }
+
+        // Nothing to log for a photo with no food in it, and asking again won't change that
+        if (classifyAnalysis(result).status === 'not-food') {
+            console.warn('[ScanQueue] Queued scan has no food, dropping', entry.id);
+            deleteImage(entry.imageUri);
+            await updateEntry(entry.id, null);
+            continue;
+        }
+
+        // Scored like a live scan, against what was left of the carb limit that day
+        if (loadContext) {
+            try {
+                result = personalizeMealAnalysis(result, await loadContext(new Date(entry.createdAt)));
+            } catch (err) {
+                console.error('[ScanQueue] Loading scoring context failed:', err);
+            }
+        }
+
+        const savedScan = await ScanPersistenceService.saveMealScan(userId, result, entry.imageUri);
+        if (userId && !savedScan) {
+            // Analysis worked but the record didn't save; try the whole entry again later
+            break;
+        }
+
+        deleteImage(entry.imageUri);
+        await updateEntry(entry.id, null);
+        replayed.push({ queued: entry, result, savedScan });
+    }
+
+    return replayed;
+}
+
+export const ScanQueueService = {
+    /**
+     * Keep a preprocessed meal photo for later analysis.
+     * The image is copied out of the cache directory so the OS can't purge it.
+     */
+    async enqueue(userId: string | undefined, imageUri: string): Promise<QueuedScan | null> {
+        const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+        try {
+            const directory = new Directory(Paths.document, QUEUE_DIRECTORY);
+            if (!directory.exists) directory.create({ intermediates: true, idempotent: true });
+
+            const stored = new File(directory, `${id}.jpg`);
+            new File(imageUri).copy(stored);
+
+            const entry: QueuedScan = {
+                id,
+                userId: userId ?? null,
+                imageUri: stored.uri,
+                createdAt: new Date().toISOString(),
+                attempts: 0,
+            };
+
+            await writeQueue([...(await readQueue()), entry]);
+            return entry;
+        } catch (err) {
+            console.error('[ScanQueue] Enqueue failed:', err);
+            return null;
+        }
+    },
+
+    /**
+     * Scans still waiting for analysis, oldest first
+     */
+    async getPending(userId?: string): Promise<QueuedScan[]> {
+        const owner = userId ?? null;
+        return (await readQueue()).filter(entry => entry.userId === owner);
+    },
+
+    /**
+     * Analyze and save everything queued for this user, personalized with
+     * `loadContext` when given. Concurrent calls for the same user share the
+     * replay in flight; one for another user waits for it to finish.
+     */
+    processQueue(userId?: string, loadContext?: MealContextLoader): Promise<ReplayedScan[]> {
+        const owner = userId ?? null;
+        if (activeReplay?.owner === owner) return activeReplay.replayed;
+
+        const previous = activeReplay ? activeReplay.replayed.catch(() => []) : Promise.resolve([]);
+        const current = {
+            owner,
+            replayed: previous
+                .then(() => replay(userId, loadContext))
+                .finally(() => {
+                    if (activeReplay === current) activeReplay = null;
+                }),
+        };
+        activeReplay = current;
+        return current.replayed;
+    },
+
+    /**
+     * Notified whenever the queue changes. Returns an unsubscribe function.
+     */
+    subscribe(listener: QueueListener): () => void {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
@@ -1,6 +1,8 @@
 import { supabase } from './supabase';
 import type { ProductData } from './barcodeService';
-import type { KetoScore, ParsedIngredient } from '../types';
+import type { KetoScore, Macros, ParsedIngredient } from '../types';
+
+const PRODUCT_SELECT = '*, keto_analysis(*), product_nutrition(*)';
 
 export interface ShadowProduct {
     id: string;
@@ -14,6 +16,7 @@ export interface ShadowProduct {
     confidence_level: 'high' | 'medium' | 'low';
     last_seen_at: string;
     keto_analysis?: ShadowKetoAnalysis;
+    product_nutrition?: ShadowNutrition | null;
 }
 
 export interface ShadowKetoAnalysis {
@@ -26,6 +29,30 @@ export interface ShadowKetoAnalysis {
     ruleset_version: string;
 }
 
+/**
+ * Nutrition facts for a shadow product, one row per product.
+ * per_serving is null when the label gives no serving size.
+ */
+export interface ShadowNutrition {
+    id: string;
+    product_id: string;
+    per_100g: Macros;
+    per_serving: Macros | null;
+    serving_size: string | null; // label text, e.g. "2 tbsp (30 g)"
+    serving_grams: number | null;
+}
+
+export interface ShadowIngredient {
+    id: string;
+    ingredient: string;
+    penalty: number;
+    reason: string | null;
+    aliases: string[] | null;
+    category: string | null;
+    is_active: boolean | null;
+    updated_at: string;
+}
+
 export const ShadowDbService = {
     /**
      * Lookup a product in the shadow database by barcode and country
@@ -33,7 +60,7 @@ export const ShadowDbService = {
     async lookupByBarcode(barcode: string, countryCode: string = 'US'): Promise<ShadowProduct | null> {
         const { data, error } = await supabase
             .from('products_shadow')
-            .select('*, keto_analysis(*)')
+            .select(PRODUCT_SELECT)
             .eq('barcode', barcode)
             .eq('country_code', countryCode)
             .single();
@@ -60,12 +87,36 @@ export const ShadowDbService = {
         return data as ShadowProduct;
     },
 
+    /**
+     * Search products by name or brand, most-scanned first
+     */
+    async searchProducts(query: string, limit: number = 10): Promise<ShadowProduct[]> {
+        // Characters that would break the PostgREST filter syntax
+        const term = query.replace(/[%,().*]/g, ' ').trim();
+        if (term.length < 2) return [];
+
+        const { data, error } = await supabase
+            .from('products_shadow')
+            .select(PRODUCT_SELECT)
+            .or(`product_name.ilike.%${term}%,brand.ilike.%${term}%`)
+            .order('scan_count', { ascending: false })
+            .limit(limit);
+
+        if (error) {
+            console.error('[ShadowDbService] Search error:', error);
+            return [];
+        }
+
+        return (data || []) as ShadowProduct[];
+    },
+
     /**
      * Save a product to the shadow database
      */
     async saveProduct(
-        product: Omit<ShadowProduct, 'id' | 'last_seen_at' | 'keto_analysis'>,
-        analysis: Omit<ShadowKetoAnalysis, 'id' | 'product_id'>
+        product: Omit<ShadowProduct, 'id' | 'last_seen_at' | 'keto_analysis' | 'product_nutrition'>,
+        analysis: Omit<ShadowKetoAnalysis, 'id' | 'product_id'>,
+        nutrition?: Omit<ShadowNutrition, 'id' | 'product_id'> | null
     ): Promise<ShadowProduct | null> {
         // 1. Insert product
         const { data: productData, error: productError } = await supabase
@@ -93,65 +144,92 @@ export const ShadowDbService = {
             console.error('[ShadowDbService] Save analysis error:', analysisError);
         }
 
+        // 3. Insert nutrition facts, when the source had any
+        let nutritionData = null;
+        if (nutrition) {
+            const { data, error: nutritionError } = await supabase
+                .from('product_nutrition')
+                .insert([{
+                    ...nutrition,
+                    product_id: productData.id
+                }])
+                .select()
+                .single();
+
+            if (nutritionError) {
+                console.error('[ShadowDbService] Save nutrition error:', nutritionError);
+            }
+            nutritionData = data;
+        }
+
         return {
             ...productData,
-            keto_analysis: analysisData
+            keto_analysis: analysisData,
+            product_nutrition: nutritionData
         } as ShadowProduct;
     },
 
     /**
-     * Log a scan event
+     * Log a scan event.
+     * Returns the new event ID so scan records can reference it.
      */
     async logScan(event: {
-        product_id: string;
+        product_id?: string;
         user_id?: string;
         scan_type: 'barcode' | 'ocr' | 'meal';
         model_confidence?: number;
         ocr_confidence?: number;
         country_code?: string;
         device_type?: string;
-    }) {
-        const { error } = await supabase
+    }): Promise<string | null> {
+        const { data, error } = await supabase
             .from('scan_events')
-            .insert([event]);
+            .insert([event])
+            .select('id')
+            .single();
 
-        if (error) {
+        if (error || !data) {
             console.error('[ShadowDbService] Log scan error:', error);
+            return null;
         }
+
+        return data.id as string;
     },
 
     /**
-     * Submit a correction
+     * Fetch known offenders from dictionary
      */
-    async submitCorrection(correction: {
-        product_id: string;
-        scan_event_id: string;
-        action: 'confirmed' | 'removed' | 'replaced';
-        original_label: string;
-        corrected_label?: string;
-    }) {
-        const { error } = await supabase
-            .from('corrections')
-            .insert([correction]);
+    async getIngredientDictionary(): Promise<ShadowIngredient[]> {
+        const { data, error } = await supabase
+            .from('ingredient_dictionary')
+            .select('*')
+            .order('id');
 
         if (error) {
-            console.error('[ShadowDbService] Submit correction error:', error);
+            console.error('[ShadowDbService] Dictionary fetch error:', error);
+            return [];
         }
+
+        return (data || []) as ShadowIngredient[];
     },
 
     /**
-     * Fetch known offenders from dictionary
+     * Dictionary version stamp: newest row change plus row count, so edits,
+     * additions and deletions all move it. Lets clients skip the full download.
      */
-    async getIngredientDictionary() {
-        const { data, error } = await supabase
+    async getIngredientDictionaryVersion(): Promise<string | null> {
+        const { data, count, error } = await supabase
             .from('ingredient_dictionary')
-            .select('*');
+            .select('updated_at', { count: 'exact' })
+            .order('updated_at', { ascending: false })
+            .limit(1);
 
         if (error) {
-            console.error('[ShadowDbService] Dictionary fetch error:', error);
-            return [];
+            console.error('[ShadowDbService] Dictionary version error:', error);
+            return null;
         }
 
-        return data;
+        const latest = data?.[0]?.updated_at;
+        return latest ? `${latest}#${count ?? 0}` : null;
     }
 };
@@ -60,9 +60,9 @@ export function generateShareMessage(options: ShareOptions): string {
 
     let message = `${verdictEmoji} ${item} scored ${score}/100 on the Keto scale!\n\n`;
 
-    if (score >= 80) {
+    if (verdict === 'safe') {
         message += '🎉 Keto approved! Staying on track.';
-    } else if (score >= 50) {
+    } else if (verdict === 'borderline') {
         message += '🤔 Borderline keto - might need some adjustments.';
     } else {
         message += '😬 Not keto-friendly - time for a swap!';
@@ -0,0 +1,192 @@
+/**
+ * Weight Log Service
+ * Weigh-ins (weight, optional waist and body fat) per user: in the weigh_ins
+ * table when signed in, on device for guests. Daily weight swings with water
+ * and food, so progress is read from a smoothed trend, and the profile (and
+ * with it the calorie target) follows the trend rather than single readings.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import { ProfileService, UserProfile } from './profileService';
+import { convertWeight } from '../utils/profileValidation';
+
+const GUEST_WEIGH_INS_KEY = '@ketolens:guest_weigh_ins';
+
+// Share of each new reading taken into the trend per day since the previous one
+const TREND_SMOOTHING = 0.1;
+
+// Trend change (kg) from the profile weight before targets are recalculated
+const RECALCULATE_THRESHOLD_KG = 1;
+
+const HISTORY_LIMIT = 120;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WeighIn {
+    id: string;
+    recorded_at: string; // ISO timestamp
+    weight_kg: number;
+    waist_cm?: number | null;
+    body_fat_percent?: number | null;
+}
+
+export interface WeighInInput {
+    weight_kg: number;
+    waist_cm?: number | null;
+    body_fat_percent?: number | null;
+}
+
+export interface TrendPoint {
+    recorded_at: string;
+    weight_kg: number;
+    trend_kg: number;
+}
+
+export interface WeighInResult {
+    entry: WeighIn;
+    profile: UserProfile | null; // set when the weigh-in changed the profile
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Exponentially smoothed weight. Gaps between weigh-ins weigh the new
+ * reading more, so a reading after a week away counts for a week.
+ */
+export function calculateWeightTrend(entries: WeighIn[]): TrendPoint[] {
+    const sorted = [...entries].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+    const points: TrendPoint[] = [];
+
+    sorted.forEach((entry, i) => {
+        if (i === 0) {
+            points.push({ recorded_at: entry.recorded_at, weight_kg: entry.weight_kg, trend_kg: entry.weight_kg });
+            return;
+        }
+
+        const previous = points[i - 1];
+        const days = Math.max(0, (Date.parse(entry.recorded_at) - Date.parse(previous.recorded_at)) / DAY_MS);
+        const alpha = 1 - Math.pow(1 - TREND_SMOOTHING, Math.max(1, days));
+        points.push({
+            recorded_at: entry.recorded_at,
+            weight_kg: entry.weight_kg,
+            trend_kg: round1(previous.trend_kg + alpha * (entry.weight_kg - previous.trend_kg)),
+        });
+    });
+
+    return points;
+}
+
+async function readGuestWeighIns(): Promise<WeighIn[]> {
+    try {
+        const json = await AsyncStorage.getItem(GUEST_WEIGH_INS_KEY);
+        return json ? (JSON.parse(json) as WeighIn[]) : [];
+    } catch (err) {
+        console.error('[WeightLog] Error loading guest weigh-ins:', err);
+        return [];
+    }
+}
+
+export const WeightLogService = {
+    /**
+     * Weigh-ins, oldest first
+     */
+    async getWeighIns(userId?: string): Promise<WeighIn[]> {
+        if (!userId) return readGuestWeighIns();
+
+        const { data, error } = await supabase
+            .from('weigh_ins')
+            .select('id, recorded_at, weight_kg, waist_cm, body_fat_percent')
+            .eq('user_id', userId)
+            .order('recorded_at', { ascending: false })
+            .limit(HISTORY_LIMIT);
+
+        if (error) {
+            console.error('[WeightLog] Fetch error:', error);
+            return [];
+        }
+        return ((data || []) as WeighIn[]).reverse();
+    },
+
+    /**
+     * Record a weigh-in. When the trend has moved meaningfully from the
+     * profile weight, the profile takes the trend weight (and any measured
+     * body fat) and its targets are recalculated.
+     */
+    async logWeighIn(userId: string | undefined, profile: UserProfile | null, input: WeighInInput): Promise<WeighInResult | null> {
+        const entry = await this.saveWeighIn(userId, input);
+        if (!entry) return null;
+
+        if (!profile) return { entry, profile: null };
+
+        const trend = calculateWeightTrend(await this.getWeighIns(userId));
+        const trendKg = trend[trend.length - 1]?.trend_kg ?? entry.weight_kg;
+        const profileKg = convertWeight(profile.weight, profile.weight_unit, 'kg');
+        const bodyFatChanged = input.body_fat_percent != null && input.body_fat_percent !== profile.body_fat_percent;
+
+        if (Math.abs(trendKg - profileKg) < RECALCULATE_THRESHOLD_KG && !bodyFatChanged) {
+            return { entry, profile: null };
+        }
+
+        const updated = await ProfileService.updateProfile(userId, profile, {
+            weight: convertWeight(trendKg, 'kg', profile.weight_unit),
+            ...(input.body_fat_percent != null && { body_fat_percent: input.body_fat_percent }),
+        });
+        return { entry, profile: updated };
+    },
+
+    async saveWeighIn(userId: string | undefined, input: WeighInInput): Promise<WeighIn | null> {
+        const recordedAt = new Date().toISOString();
+
+        if (!userId) {
+            const entry: WeighIn = { id: `guest-${Date.now()}`, recorded_at: recordedAt, ...input };
+            try {
+                const entries = await readGuestWeighIns();
+                await AsyncStorage.setItem(GUEST_WEIGH_INS_KEY, JSON.stringify([...entries, entry].slice(-HISTORY_LIMIT)));
+                return entry;
+            } catch (err) {
+                console.error('[WeightLog] Error saving guest weigh-in:', err);
+                return null;
+            }
+        }
+
+        const { data, error } = await supabase
+            .from('weigh_ins')
+            .insert([{ user_id: userId, recorded_at: recordedAt, ...input }])
+            .select('id, recorded_at, weight_kg, waist_cm, body_fat_percent')
+            .single();
+
+        if (error || !data) {
+            console.error('[WeightLog] Save error:', error);
+            return null;
+        }
+        return data as WeighIn;
+    },
+
+    async deleteWeighIn(userId: string | undefined, id: string): Promise<boolean> {
+        if (!userId) {
+            try {
+                const entries = await readGuestWeighIns();
+                await AsyncStorage.setItem(GUEST_WEIGH_INS_KEY, JSON.stringify(entries.filter(e => e.id !== id)));
+                return true;
+            } catch (err) {
+                console.error('[WeightLog] Error deleting guest weigh-in:', err);
+                return false;
+            }
+        }
+
+        const { error } = await supabase
+            .from('weigh_ins')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', userId);
+
+        if (error) {
+            console.error('[WeightLog] Delete error:', error);
+            return false;
+        }
+        return true;
+    },
+};
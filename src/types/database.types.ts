@@ -17,6 +17,8 @@ export type Database = {
                     image_url: string | null
                     keto_score: Json | null
                     macros: Json | null
+                    scan_event_id: string | null
+                    source: string | null
                     swap_suggestion: string | null
                     user_id: string
                 }
@@ -27,6 +29,8 @@ export type Database = {
                     image_url?: string | null
                     keto_score?: Json | null
                     macros?: Json | null
+                    scan_event_id?: string | null
+                    source?: string | null
                     swap_suggestion?: string | null
                     user_id: string
                 }
@@ -37,6 +41,8 @@ export type Database = {
                     image_url?: string | null
                     keto_score?: Json | null
                     macros?: Json | null
+                    scan_event_id?: string | null
+                    source?: string | null
                     swap_suggestion?: string | null
                     user_id?: string
                 }
@@ -60,7 +66,10 @@ export type Database = {
                     image_url: string | null
                     ingredients: Json | null
                     keto_score: Json | null
+                    macros: Json | null
                     product_name: string | null
+                    scan_event_id: string | null
+                    source: string | null
                     user_id: string
                 }
                 Insert: {
@@ -72,7 +81,10 @@ export type Database = {
                     image_url?: string | null
                     ingredients?: Json | null
                     keto_score?: Json | null
+                    macros?: Json | null
                     product_name?: string | null
+                    scan_event_id?: string | null
+                    source?: string | null
                     user_id: string
                 }
                 Update: {
@@ -84,7 +96,10 @@ export type Database = {
                     image_url?: string | null
                     ingredients?: Json | null
                     keto_score?: Json | null
+                    macros?: Json | null
                     product_name?: string | null
+                    scan_event_id?: string | null
+                    source?: string | null
                     user_id?: string
                 }
                 Relationships: [
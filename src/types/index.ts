@@ -10,6 +10,40 @@ export interface KetoScore {
     score: number // 0-100
     verdict: KetoVerdict
     confidence: 'high' | 'medium' | 'low'
+    ruleset_version?: string // SCORING_RULESET_VERSION the score was computed with (products: plus the dictionary version)
+    explanation?: string // why, in the user's terms: "Uses 60% of your remaining 14g today"
+}
+
+// How tightly the user keeps carbs down; sets the default carb limit and how hard going over it counts
+export type KetoStrictness = 'strict' | 'standard' | 'liberal'
+
+export type FitnessGoal = 'lose_weight' | 'maintain' | 'build_muscle'
+
+export type ActivityLevel = 'sedentary' | 'lightly_active' | 'moderately_active' | 'very_active'
+
+// The quiz's "Keto Knowledge" answer
+export type KetoExperience = 'beginner' | 'intermediate' | 'pro'
+
+export interface MacroTargets {
+    calorie_target: number // kcal per day
+    carb_limit: number // net carbs, g per day
+    protein_target: number // g per day
+    fat_target: number // g per day
+}
+
+// Targets the user set by hand; anything left out is calculated
+export type TargetOverrides = Partial<MacroTargets>
+
+// A deduction that comes from the product as a whole rather than one ingredient
+export interface StructuralPenalty {
+    reason: string
+    penalty: number
+}
+
+export interface ProductScore extends KetoScore {
+    offenders: ParsedIngredient[]
+    structural_penalties: StructuralPenalty[]
+    ruleset_version: string
 }
 
 // ===== User Types =====
@@ -41,15 +75,19 @@ export interface Meal {
     macros: Macros
     keto_score: KetoScore
     swap_suggestion?: string
+    scan_event_id?: string
+    source?: EntrySource
     created_at: string
 }
 
 export interface DetectedFood {
     name: string
-    confidence: number // 0-1
+    confidence: number // 0-1, calibrated against user corrections when data exists
+    raw_confidence?: number // the model's own confidence, when calibration changed it
     estimated_portion?: string // e.g., "1/2 cup", "100g"
     carb_risk: 'high' | 'medium' | 'low'
     is_keto_offender: boolean
+    reviewed?: boolean // went through a user review; its label and confidence are no longer the model's alone
 }
 
 export type ConfidenceLevel = 'high' | 'medium' | 'low'
@@ -67,6 +105,15 @@ export interface Macros {
     protein: number
     calories: number
     fiber?: number
+    sugar_alcohols?: number
+    allulose?: number // estimated, see calculateNetCarbs
+}
+
+// A low-impact sweetener (sugar alcohol or allulose) that changed a product's net carbs
+export interface SweetenerAdjustment {
+    name: string
+    grams: number // its share of the label's polyols, or the estimated allulose
+    excluded_grams: number // left out of net carbs for its low glycemic impact
 }
 
 // ===== Product Scan Types =====
@@ -78,8 +125,11 @@ export interface ProductScan {
     product_name?: string
     brand?: string
     ingredients: ParsedIngredient[]
+    macros?: Macros
     keto_score: KetoScore
     alternative_suggestion?: string
+    scan_event_id?: string
+    source?: EntrySource
     created_at: string
 }
 
@@ -88,8 +138,24 @@ export interface ParsedIngredient {
     is_offender: boolean
     penalty_score: number
     reason?: string
+    category?: IngredientCategory
 }
 
+// ===== Ingredient Dictionary =====
+// Categories in the bundled list; the server may add new ones
+export type IngredientCategory = 'sugar' | 'starch' | 'grain' | 'additive' | 'hidden_sugar' | 'sweetener' | 'oil' | (string & {})
+
+export interface IngredientDictionaryEntry {
+    term: string
+    penalty: number
+    reason: string
+    aliases: string[]
+    category: IngredientCategory
+}
+
+// Scans come from the camera/barcode flows; manual entries from food search
+export type EntrySource = 'scan' | 'manual'
+
 // ===== Scan Types (Union) =====
 export type ScanResult =
     | { type: 'meal'; data: Meal }
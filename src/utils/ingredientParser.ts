@@ -0,0 +1,249 @@
+/**
+ * Ingredient List Parser
+ * Turns a product label's ingredient text into a tree:
+ * "chocolate (sugar, cocoa butter 12%), contains 2% or less of: salt"
+ *   -> chocolate [sugar, cocoa butter (12%)], salt (≤2%)
+ */
+
+export interface IngredientNode {
+    name: string; // lowercase, single-spaced, without percentages or markers
+    percent?: number; // declared share, e.g. "cocoa butter 12%"
+    maxPercent?: number; // from "contains 2% or less of"
+    children: IngredientNode[];
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set(Object.values(OPENERS));
+
+const PERCENT_PATTERN = /(\d+(?:[.,]\d+)?)\s*%/;
+const PERCENT_ONLY_PATTERN = /^(?:min\.?\s*|max\.?\s*|approx\.?\s*)?(\d+(?:[.,]\d+)?)\s*%$/;
+
+// "contains 2% or less of:", "less than 2% of", "2% or less of each of the following:"
+const MAX_PERCENT_PATTERN = /^(?:and\s+)?(?:contains\s+)?(?:less\s+than\s+(\d+(?:[.,]\d+)?)\s*%|(\d+(?:[.,]\d+)?)\s*%\s+or\s+less)\s+of(?:\s+each\s+of)?(?:\s+the\s+following)?\s*:?\s*/;
+
+const LABEL_PREFIX_PATTERN = /^\s*ingredients?\s*:\s*/i;
+
+// Allergen and facility statements end the ingredient list: "contains: milk, soy",
+// "may contain traces of nuts", "made in a facility that...". Not "contains 2% or less of".
+const ALLERGEN_STATEMENT_PATTERN = /^(?:allerg(?:en|y)s?\b|(?:may\s+(?:also\s+)?)?contains?\b(?!\s+(?:less\s+than\s+)?\d)|(?:produced|made|manufactured|processed|packed)\s+(?:in|on)\b)/;
+
+function toNumber(value: string): number {
+    return parseFloat(value.replace(',', '.'));
+}
+
+/**
+ * Strip markup and allergen emphasis, unify punctuation and whitespace, lowercase
+ */
+function cleanText(text: string): string {
+    return text
+        .replace(/<[^>]+>/g, '') // <b>milk</b>, <strong>
+        .replace(/\*\*|__/g, '') // **milk**
+        .replace(/(^|[\s(,;])_([^_]+)_/g, '$1$2') // Open Food Facts marks allergens as _milk_
+        .replace(LABEL_PREFIX_PATTERN, '')
+        .replace(/[‘’]/g, "'")
+        .replace(/[\r\n\t]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .toLowerCase()
+        .trim();
+}
+
+function cleanName(text: string): string {
+    return text
+        .replace(/\*+/g, '') // footnote markers: "cane sugar*"
+        .replace(/\s+/g, ' ')
+        .replace(/^[\s.,;:\-–)\]}]+|[\s.,;:\-–)\]}]+$/g, '')
+        .trim();
+}
+
+/**
+ * Split on separators that sit at bracket depth 0
+ */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    const stack: string[] = [];
+    let current = '';
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (OPENERS[char]) {
+            stack.push(OPENERS[char]);
+        } else if (CLOSERS.has(char)) {
+            // Tolerate unbalanced labels: a stray closer just ends nothing
+            if (stack[stack.length - 1] === char) stack.pop();
+        } else if (stack.length === 0) {
+            const next = text[i + 1];
+            // A period only separates when it isn't a decimal point ("2.5%")
+            const isSeparator = char === ',' || char === ';' || char === '·'
+                || (char === '.' && (next === undefined || next === ' '));
+            if (isSeparator) {
+                if (/\d$/.test(current) && /\d/.test(next || '') && char === ',') {
+                    current += char; // decimal comma: "2,5%"
+                    continue;
+                }
+                parts.push(current);
+                current = '';
+                continue;
+            }
+        }
+
+        current += char;
+    }
+
+    parts.push(current);
+    return parts.map(p => p.trim()).filter(Boolean);
+}
+
+/**
+ * Split "name (inner) rest" into the name text and its bracketed groups
+ */
+function splitGroups(item: string): { head: string; groups: string[] } {
+    const groups: string[] = [];
+    let head = '';
+    let depth = 0;
+    let group = '';
+    let closer = '';
+
+    for (const char of item) {
+        if (depth === 0 && OPENERS[char]) {
+            depth = 1;
+            closer = OPENERS[char];
+            group = '';
+            continue;
+        }
+        if (depth > 0) {
+            if (OPENERS[char]) depth++;
+            if (CLOSERS.has(char)) depth--;
+            if (depth === 0 && char === closer) {
+                groups.push(group);
+                continue;
+            }
+            group += char;
+            continue;
+        }
+        head += char;
+    }
+
+    // Unclosed bracket at the end of a truncated label
+    if (depth > 0 && group.trim()) groups.push(group);
+
+    return { head, groups };
+}
+
+/**
+ * Index of the first colon outside brackets, or -1
+ */
+function findTopLevelColon(item: string): number {
+    let depth = 0;
+    for (let i = 0; i < item.length; i++) {
+        const char = item[i];
+        if (OPENERS[char]) depth++;
+        else if (CLOSERS.has(char)) depth = Math.max(0, depth - 1);
+        else if (char === ':' && depth === 0) return i;
+    }
+    return -1;
+}
+
+function parseItem(item: string): IngredientNode | null {
+    // "emulsifier: e322 (soy)" style sub-lists without brackets
+    const colon = findTopLevelColon(item);
+    if (colon !== -1) {
+        const name = cleanName(item.slice(0, colon));
+        const children = parseLevel(item.slice(colon + 1));
+        if (!name) return children.length === 1 ? children[0] : null;
+        return { name, children };
+    }
+
+    const { head, groups } = splitGroups(item);
+    const node: IngredientNode = { name: '', children: [] };
+    let name = head;
+
+    const percentMatch = name.match(PERCENT_PATTERN);
+    if (percentMatch) {
+        node.percent = toNumber(percentMatch[1]);
+        name = name.replace(PERCENT_PATTERN, ' ');
+    }
+
+    for (const group of groups) {
+        const trimmed = group.trim();
+        const percentOnly = trimmed.match(PERCENT_ONLY_PATTERN);
+        if (percentOnly) {
+            node.percent = toNumber(percentOnly[1]);
+        } else {
+            node.children.push(...parseLevel(trimmed));
+        }
+    }
+
+    node.name = cleanName(name);
+    if (!node.name) {
+        // "(sugar, salt)" with no name of its own: hoist a single child
+        if (node.children.length === 1) return { ...node.children[0], percent: node.children[0].percent ?? node.percent };
+        return null;
+    }
+
+    return node;
+}
+
+function parseLevel(text: string): IngredientNode[] {
+    const nodes: IngredientNode[] = [];
+    let maxPercent: number | undefined;
+
+    for (let part of splitTopLevel(text)) {
+        // Everything after an allergen statement is allergens, not ingredients
+        if (ALLERGEN_STATEMENT_PATTERN.test(part)) break;
+
+        const marker = part.match(MAX_PERCENT_PATTERN);
+        if (marker) {
+            maxPercent = toNumber(marker[1] || marker[2]);
+            part = part.slice(marker[0].length);
+        }
+
+        const node = parseItem(part);
+        if (!node) continue;
+        if (maxPercent !== undefined && node.percent === undefined) node.maxPercent = maxPercent;
+        nodes.push(node);
+    }
+
+    return nodes;
+}
+
+/**
+ * Parse a label's ingredient text into a tree of ingredients
+ */
+export function parseIngredientList(text: string): IngredientNode[] {
+    const cleaned = cleanText(text || '');
+    return cleaned ? parseLevel(cleaned) : [];
+}
+
+/**
+ * The actual components of a product: every leaf of the tree, de-duplicated.
+ * Compound ingredients are represented by what they're made of; a single
+ * bracketed item is usually a source or a specific form ("lecithin (soy)",
+ * "sweetener (maltitol)"), so both names are kept.
+ */
+export function flattenIngredients(nodes: IngredientNode[]): string[] {
+    const seen = new Set<string>();
+
+    const visit = (node: IngredientNode) => {
+        if (node.children.length > 0) {
+            if (node.children.length === 1) seen.add(node.name);
+            node.children.forEach(visit);
+        } else {
+            seen.add(node.name);
+        }
+    };
+
+    nodes.forEach(visit);
+    return Array.from(seen);
+}
+
+/**
+ * Normalized label text for one ingredient, sub-ingredients and declared percentage included.
+ * Parsing the joined output again yields the same names, nesting and percentages, so stored
+ * lists re-score identically; "or less" limits are dropped, as they belong to a run of siblings.
+ */
+export function formatIngredient(node: IngredientNode): string {
+    const name = node.percent !== undefined ? `${node.name} ${node.percent}%` : node.name;
+    if (node.children.length === 0) return name;
+    return `${name} (${node.children.map(formatIngredient).join(', ')})`;
+}
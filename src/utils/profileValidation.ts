@@ -0,0 +1,76 @@
+/**
+ * Profile Validation
+ * Allowed ranges for body metrics, shared by the onboarding quiz and profile editing
+ */
+
+export type WeightUnit = 'kg' | 'lbs';
+export type HeightUnit = 'cm' | 'ft';
+export type WaistUnit = 'cm' | 'in';
+
+interface Range {
+    min: number;
+    max: number;
+    error: string;
+}
+
+export const PROFILE_VALIDATION = {
+    age: { min: 13, max: 120, error: 'Age must be 13-120' },
+    weight: {
+        kg: { min: 30, max: 300, error: 'Weight must be 30-300 kg' },
+        lbs: { min: 66, max: 660, error: 'Weight must be 66-660 lbs' },
+    },
+    height: {
+        cm: { min: 100, max: 250, error: 'Height must be 100-250 cm' },
+        ft: { min: 3, max: 8, error: 'Height must be 3-8 ft' },
+    },
+    waist: {
+        cm: { min: 40, max: 200, error: 'Waist must be 40-200 cm' },
+        in: { min: 16, max: 80, error: 'Waist must be 16-80 in' },
+    },
+    bodyFat: { min: 3, max: 60, error: 'Body fat must be 3-60%' },
+};
+
+function checkRange(value: number, range: Range): string | null {
+    if (!Number.isFinite(value)) return 'Please enter a valid number';
+    return value < range.min || value > range.max ? range.error : null;
+}
+
+export function validateAge(value: number): string | null {
+    return checkRange(value, PROFILE_VALIDATION.age);
+}
+
+export function validateWeight(value: number, unit: WeightUnit): string | null {
+    return checkRange(value, PROFILE_VALIDATION.weight[unit]);
+}
+
+export function validateHeight(value: number, unit: HeightUnit): string | null {
+    return checkRange(value, PROFILE_VALIDATION.height[unit]);
+}
+
+export function validateWaist(value: number, unit: WaistUnit): string | null {
+    return checkRange(value, PROFILE_VALIDATION.waist[unit]);
+}
+
+export function validateBodyFat(value: number): string | null {
+    return checkRange(value, PROFILE_VALIDATION.bodyFat);
+}
+
+export function convertWeight(value: number, from: WeightUnit, to: WeightUnit): number {
+    if (from === to) return value;
+    const converted = to === 'lbs' ? value / 0.453592 : value * 0.453592;
+    return Math.round(converted * 10) / 10;
+}
+
+export function convertHeight(value: number, from: HeightUnit, to: HeightUnit): number {
+    if (from === to) return value;
+    // Feet are kept to two decimals, centimetres to whole numbers
+    return to === 'ft'
+        ? Math.round((value / 30.48) * 100) / 100
+        : Math.round(value * 30.48);
+}
+
+export function convertWaist(value: number, from: WaistUnit, to: WaistUnit): number {
+    if (from === to) return value;
+    const converted = to === 'in' ? value / 2.54 : value * 2.54;
+    return Math.round(converted * 10) / 10;
+}
@@ -7,10 +7,11 @@ export interface RetryOptions {
     maxRetries?: number;
     delayMs?: number;
     backoff?: boolean;
+    shouldRetry?: (error: Error) => boolean; // defaults to retrying every error
     onRetry?: (attempt: number, error: Error) => void;
 }
 
-const DEFAULT_OPTIONS: Required<Omit<RetryOptions, 'onRetry'>> = {
+const DEFAULT_OPTIONS: Required<Omit<RetryOptions, 'onRetry' | 'shouldRetry'>> = {
     maxRetries: 3,
     delayMs: 1000,
     backoff: true,
@@ -23,7 +24,7 @@ export async function withRetry<T>(
     fn: () => Promise<T>,
     options: RetryOptions = {}
 ): Promise<T> {
-    const { maxRetries, delayMs, backoff, onRetry } = { ...DEFAULT_OPTIONS, ...options };
+    const { maxRetries, delayMs, backoff, shouldRetry, onRetry } = { ...DEFAULT_OPTIONS, ...options };
 
     let lastError: Error = new Error('Unknown error');
 
@@ -33,7 +34,7 @@ export async function withRetry<T>(
         } catch (error) {
             lastError = error instanceof Error ? error : new Error(String(error));
 
-            if (attempt === maxRetries) {
+            if (attempt === maxRetries || (shouldRetry && !shouldRetry(lastError))) {
                 break;
             }
 
@@ -58,6 +59,7 @@ export function isRetryableError(error: unknown): boolean {
             message.includes('network') ||
             message.includes('timeout') ||
             message.includes('fetch failed') ||
+            message.includes('failed to send a request') || // supabase FunctionsFetchError
             message.includes('500') ||
             message.includes('502') ||
             message.includes('503') ||
@@ -0,0 +1,111 @@
+/**
+ * Confidence Calibration
+ * Learns from the corrections table how often each detected food label is
+ * actually right, and rescales the model's confidence for that label to match.
+ * calibrate-confidence computes the factors; analyze-food applies them.
+ */
+
+// Reviews of a label needed before its factor moves away from 1
+export const MIN_REVIEWS = 5
+
+// Weight (in reviews) of the model's own claimed accuracy, so a few reviews can't swing a label far
+const PRIOR_WEIGHT = 10
+
+const MIN_FACTOR = 0.5
+const MAX_FACTOR = 1.2
+const MAX_CONFIDENCE = 0.99
+
+// Actions that say whether a detection was right; 'added' foods were never detected.
+// A detection left untouched in a review was accepted as it was.
+const CORRECT_ACTIONS = new Set(['confirmed', 'untouched'])
+const WRONG_ACTIONS = new Set(['removed', 'replaced'])
+export const REVIEW_ACTIONS = [...CORRECT_ACTIONS, ...WRONG_ACTIONS]
+
+export interface ReviewRow {
+    original_label: string
+    action: string
+    model_confidence: number | null
+}
+
+export interface LabelCalibration {
+    label: string
+    reviews: number
+    errors: number
+    mean_model_confidence: number
+    factor: number
+}
+
+interface CalibratedFood {
+    name: string
+    confidence: number
+    raw_confidence?: number
+}
+
+function round3(value: number): number {
+    return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Labels are matched case- and spacing-insensitively
+ */
+export function normalizeLabel(label: string): string {
+    return (label || '').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Per-label factors from reviewed detections. The factor is the observed
+ * accuracy over the accuracy the model claimed, with the claim acting as a
+ * prior so sparse labels stay close to 1.
+ */
+export function calibrateLabels(rows: ReviewRow[]): LabelCalibration[] {
+    const groups = new Map<string, { reviews: number; errors: number; confidenceSum: number }>()
+
+    for (const row of rows) {
+        const isWrong = WRONG_ACTIONS.has(row.action)
+        if (!isWrong && !CORRECT_ACTIONS.has(row.action)) continue
+        if (typeof row.model_confidence !== 'number') continue
+
+        const label = normalizeLabel(row.original_label)
+        if (!label) continue
+
+        const group = groups.get(label) ?? { reviews: 0, errors: 0, confidenceSum: 0 }
+        group.reviews++
+        if (isWrong) group.errors++
+        group.confidenceSum += Math.min(1, Math.max(0, row.model_confidence))
+        groups.set(label, group)
+    }
+
+    return Array.from(groups.entries()).map(([label, { reviews, errors, confidenceSum }]) => {
+        const claimed = Math.max(0.01, confidenceSum / reviews)
+        const observed = (reviews - errors + PRIOR_WEIGHT * claimed) / (reviews + PRIOR_WEIGHT)
+        const factor = reviews < MIN_REVIEWS
+            ? 1
+            : Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, observed / claimed))
+
+        return {
+            label,
+            reviews,
+            errors,
+            mean_model_confidence: round3(claimed),
+            factor: round3(factor),
+        }
+    })
+}
+
+/**
+ * Rescale each food's confidence by its label's factor. The model's own
+ * number is kept as raw_confidence, so corrections keep logging what the
+ * model said rather than what calibration made of it.
+ */
+export function applyCalibration<T extends CalibratedFood>(foods: T[], factors: Map<string, number>): T[] {
+    return foods.map(food => {
+        const factor = factors.get(normalizeLabel(food.name))
+        if (factor === undefined || typeof food.confidence !== 'number') return food
+
+        return {
+            ...food,
+            raw_confidence: food.confidence,
+            confidence: round3(Math.min(MAX_CONFIDENCE, Math.max(0, food.confidence * factor))),
+        }
+    })
+}
@@ -0,0 +1,300 @@
+/**
+ * Keto scoring rules for edge functions.
+ * Deno can't import the app's src/ modules, so this mirrors SCORING_RULESET_VERSION,
+ * the penalty tables in src/constants/keto.ts and calculateProductScore in
+ * src/services/ketoScoring.ts. Change both together and bump the version.
+ */
+
+import { parseIngredientList, flattenIngredients } from './ingredientParser.ts'
+
+export const SCORING_RULESET_VERSION = 'v5'
+
+export const SCORE_THRESHOLDS = {
+    SAFE: 80,
+    BORDERLINE: 60
+} as const
+
+// ===== Ingredient Blacklist with Penalties =====
+// Bundled fallback; the live list comes from the ingredient_dictionary table
+export const INGREDIENT_PENALTIES: Record<string, { penalty: number; reason: string; category: string }> = {
+    // Sugars (severe penalties)
+    'sugar': { penalty: 25, reason: 'Pure sugar', category: 'sugar' },
+    'cane sugar': { penalty: 25, reason: 'Pure sugar', category: 'sugar' },
+    'brown sugar': { penalty: 25, reason: 'Pure sugar', category: 'sugar' },
+    'high fructose corn syrup': { penalty: 30, reason: 'Highly processed sugar', category: 'sugar' },
+    'corn syrup': { penalty: 25, reason: 'Processed sugar', category: 'sugar' },
+    'agave nectar': { penalty: 20, reason: 'High fructose content', category: 'sugar' },
+    'honey': { penalty: 15, reason: 'Natural but high carb', category: 'sugar' },
+    'maple syrup': { penalty: 15, reason: 'Natural but high carb', category: 'sugar' },
+    'molasses': { penalty: 20, reason: 'High sugar content', category: 'sugar' },
+    'dextrose': { penalty: 20, reason: 'Sugar form', category: 'sugar' },
+    'fructose': { penalty: 20, reason: 'Sugar form', category: 'sugar' },
+    'glucose': { penalty: 20, reason: 'Sugar form', category: 'sugar' },
+    'sucrose': { penalty: 25, reason: 'Table sugar', category: 'sugar' },
+    'maltodextrin': { penalty: 25, reason: 'Higher glycemic than sugar', category: 'sugar' },
+    'isomaltooligosaccharide': { penalty: 20, reason: 'Digested like sugar despite fiber labeling', category: 'hidden_sugar' },
+
+    // Starches
+    'cornstarch': { penalty: 15, reason: 'Pure starch', category: 'starch' },
+    'modified food starch': { penalty: 15, reason: 'Starch filler', category: 'starch' },
+    'potato starch': { penalty: 15, reason: 'High starch', category: 'starch' },
+    'tapioca starch': { penalty: 15, reason: 'High starch', category: 'starch' },
+
+    // Wheat/Grains
+    'wheat': { penalty: 15, reason: 'Grain-based carbs', category: 'grain' },
+    'wheat flour': { penalty: 18, reason: 'Refined grain', category: 'grain' },
+    'enriched wheat flour': { penalty: 18, reason: 'Refined grain', category: 'grain' },
+    'bread crumbs': { penalty: 15, reason: 'Wheat-based', category: 'grain' },
+    'rice flour': { penalty: 15, reason: 'High carb flour', category: 'grain' },
+    'corn flour': { penalty: 15, reason: 'High carb flour', category: 'grain' },
+    'oat flour': { penalty: 12, reason: 'Grain flour', category: 'grain' },
+
+    // Questionable additives
+    'natural flavors': { penalty: 5, reason: 'Potentially contains hidden carbs', category: 'additive' },
+    'artificial flavors': { penalty: 3, reason: 'Minor concern', category: 'additive' },
+    'carrageenan': { penalty: 3, reason: 'Controversial additive', category: 'additive' },
+
+    // Red flag indicators
+    'fruit juice concentrate': { penalty: 15, reason: 'Concentrated sugar', category: 'hidden_sugar' },
+    'evaporated cane juice': { penalty: 20, reason: 'Sugar in disguise', category: 'hidden_sugar' },
+    'rice syrup': { penalty: 20, reason: 'High glycemic', category: 'hidden_sugar' },
+    'barley malt': { penalty: 15, reason: 'Malt sugar', category: 'hidden_sugar' }
+} as const
+
+// ===== Ingredient Synonyms =====
+// Other names for dictionary terms and sweeteners (label spellings, E-numbers)
+export const INGREDIENT_SYNONYMS: Record<string, string> = {
+    // Modified starches (E1404-E1452)
+    'e1404': 'modified food starch',
+    'e1410': 'modified food starch',
+    'e1412': 'modified food starch',
+    'e1413': 'modified food starch',
+    'e1414': 'modified food starch',
+    'e1420': 'modified food starch',
+    'e1422': 'modified food starch',
+    'e1440': 'modified food starch',
+    'e1442': 'modified food starch',
+    'e1450': 'modified food starch',
+    'e1451': 'modified food starch',
+    'e1452': 'modified food starch',
+    'modified starch': 'modified food starch',
+    'modified corn starch': 'modified food starch',
+    'modified maize starch': 'modified food starch',
+    'e407': 'carrageenan',
+
+    // Sugar alcohols
+    'e420': 'sorbitol',
+    'e421': 'mannitol',
+    'e953': 'isomalt',
+    'e965': 'maltitol',
+    'e966': 'lactitol',
+    'e967': 'xylitol',
+    'e968': 'erythritol',
+    'maltitol syrup': 'maltitol',
+    'psicose': 'allulose',
+    'd-psicose': 'allulose',
+
+    // Sugars
+    'saccharose': 'sucrose',
+    'glucose syrup': 'glucose',
+    'dextrose monohydrate': 'dextrose',
+    'hfcs': 'high fructose corn syrup',
+    'glucose fructose syrup': 'high fructose corn syrup',
+    'isoglucose': 'high fructose corn syrup',
+    'isomalto oligosaccharide': 'isomaltooligosaccharide',
+    'imo': 'isomaltooligosaccharide',
+    'brown rice syrup': 'rice syrup',
+    'malted barley': 'barley malt',
+    'barley malt extract': 'barley malt',
+
+    // Starches and flours
+    'corn starch': 'cornstarch',
+    'maize starch': 'cornstarch',
+    'maize flour': 'corn flour',
+    'tapioca': 'tapioca starch',
+    'breadcrumbs': 'bread crumbs',
+
+    // Flavorings
+    'natural flavour': 'natural flavors',
+    'natural flavoring': 'natural flavors',
+    'artificial flavour': 'artificial flavors',
+}
+
+// ===== Ingredient Count Penalty =====
+export const INGREDIENT_COUNT_PENALTY = {
+    THRESHOLD: 10,
+    PENALTY: 10
+} as const
+
+// ===== Net Carb Penalties (products, per 100g) =====
+// First matching tier applies
+export const NET_CARB_PENALTIES = [
+    { ABOVE: 20, PENALTY: 30 },
+    { ABOVE: 10, PENALTY: 15 },
+    { ABOVE: 5, PENALTY: 5 }
+] as const
+
+export type Verdict = 'safe' | 'borderline' | 'avoid'
+
+export interface DictionaryEntry {
+    term: string
+    penalty: number
+    reason: string
+    aliases: string[]
+}
+
+export const BUNDLED_DICTIONARY: DictionaryEntry[] = Object.entries(INGREDIENT_PENALTIES)
+    .map(([term, { penalty, reason }]) => ({ term, penalty, reason, aliases: [] }))
+
+export interface DictionaryRow {
+    ingredient: string | null
+    penalty: number | null
+    reason: string | null
+    aliases: string[] | null
+    is_active: boolean | null
+    updated_at: string | null
+}
+
+/**
+ * ingredient_dictionary rows in the same shape the app uses; empty means use the bundled list
+ */
+export function toDictionary(rows: DictionaryRow[]): DictionaryEntry[] {
+    return rows
+        .filter(row => row.is_active !== false && row.ingredient && typeof row.penalty === 'number')
+        .map(row => ({
+            term: String(row.ingredient).toLowerCase().trim(),
+            penalty: row.penalty as number,
+            reason: row.reason || 'Keto offender',
+            aliases: (row.aliases || []).map(a => a.toLowerCase().trim()).filter(Boolean),
+        }))
+}
+
+/**
+ * Ruleset stamp for product scores under a dictionary, matching getProductRulesetVersion
+ * in the app: the dictionary's version (latest updated_at and row count, as
+ * ShadowDbService.getIngredientDictionaryVersion reads it) joins SCORING_RULESET_VERSION
+ * whenever the server dictionary is in use.
+ */
+export function getProductRulesetVersion(rows: DictionaryRow[]): string {
+    if (toDictionary(rows).length === 0) return SCORING_RULESET_VERSION
+
+    const latest = rows.reduce<string | null>(
+        (max, row) => (row.updated_at && (!max || row.updated_at > max) ? row.updated_at : max),
+        null
+    )
+    return latest ? `${SCORING_RULESET_VERSION}@${latest}#${rows.length}` : SCORING_RULESET_VERSION
+}
+
+export interface ProductScore {
+    keto_score: number
+    verdict: Verdict
+    offenders: { name: string, is_offender: true, penalty_score: number, reason: string }[]
+    structural_penalties: { reason: string, penalty: number }[]
+    ruleset_version: string
+}
+
+export function getVerdict(score: number): Verdict {
+    if (score >= SCORE_THRESHOLDS.SAFE) return 'safe'
+    if (score >= SCORE_THRESHOLDS.BORDERLINE) return 'borderline'
+    return 'avoid'
+}
+
+// Words that cancel a match: "no added sugar", "without sugar", "sugar-free"
+const NEGATING_PREFIXES = new Set(['no', 'without', 'zero', 'non', 'not'])
+const NEGATING_SUFFIXES = new Set(['free', 'less'])
+
+function tokenize(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\be[\s-]+(\d{3,4}[a-z]?)\b/g, 'e$1')
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+        .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token))
+}
+
+function toPhrases(dictionary: DictionaryEntry[]): { tokens: string[], entry: DictionaryEntry }[] {
+    const phrases: { tokens: string[], entry: DictionaryEntry }[] = []
+    for (const entry of dictionary) {
+        const synonyms = Object.keys(INGREDIENT_SYNONYMS).filter(name => INGREDIENT_SYNONYMS[name] === entry.term)
+        for (const name of [entry.term, ...entry.aliases, ...synonyms]) {
+            const tokens = tokenize(name)
+            if (tokens.length > 0) phrases.push({ tokens, entry })
+        }
+    }
+    return phrases.sort((a, b) =>
+        b.tokens.length - a.tokens.length || b.tokens.join(' ').length - a.tokens.join(' ').length
+    )
+}
+
+function isNegated(tokens: string[], start: number, end: number): boolean {
+    if (NEGATING_SUFFIXES.has(tokens[end])) return true
+    const before = tokens[start - 1] === 'added' ? start - 2 : start - 1
+    return NEGATING_PREFIXES.has(tokens[before])
+}
+
+// Whole-token, longest-first, negation-aware; same as matchComponent in the app
+function matchComponent(component: string, phrases: ReturnType<typeof toPhrases>): DictionaryEntry | null {
+    const tokens = tokenize(component)
+    const claimed = new Array<boolean>(tokens.length).fill(false)
+
+    for (const { tokens: phrase, entry } of phrases) {
+        for (let start = 0; start + phrase.length <= tokens.length; start++) {
+            const end = start + phrase.length
+            if (claimed.slice(start, end).some(Boolean)) continue
+            if (!phrase.every((token, i) => tokens[start + i] === token)) continue
+
+            claimed.fill(true, start, end)
+            if (!isNegated(tokens, start, end)) return entry
+        }
+    }
+
+    return null
+}
+
+export function calculateProductScore(
+    ingredients: string[],
+    netCarbsPer100g?: number | null,
+    dictionary: DictionaryEntry[] = BUNDLED_DICTIONARY
+): ProductScore {
+    // Match the components of compound ingredients, not the compound as a whole
+    const tree = parseIngredientList(ingredients.join(', '))
+    const phrases = toPhrases(dictionary)
+    const penalized = new Set<string>()
+    const offenders: ProductScore['offenders'] = []
+    for (const name of flattenIngredients(tree)) {
+        const match = matchComponent(name, phrases)
+        if (match && !penalized.has(match.term)) {
+            penalized.add(match.term)
+            offenders.push({ name, is_offender: true, penalty_score: match.penalty, reason: match.reason })
+        }
+    }
+
+    const structuralPenalties: ProductScore['structural_penalties'] = []
+    if (tree.length > INGREDIENT_COUNT_PENALTY.THRESHOLD) {
+        structuralPenalties.push({
+            reason: `More than ${INGREDIENT_COUNT_PENALTY.THRESHOLD} ingredients`,
+            penalty: INGREDIENT_COUNT_PENALTY.PENALTY,
+        })
+    }
+
+    const netCarbs = netCarbsPer100g ?? 0
+    const carbTier = NET_CARB_PENALTIES.find(tier => netCarbs > tier.ABOVE)
+    if (carbTier) {
+        structuralPenalties.push({ reason: `${netCarbs}g net carbs per 100g`, penalty: carbTier.PENALTY })
+    }
+
+    let score = 100
+    offenders.forEach(o => { score -= o.penalty_score })
+    structuralPenalties.forEach(p => { score -= p.penalty })
+    score = Math.max(0, Math.min(100, Math.round(score)))
+
+    return {
+        keto_score: score,
+        verdict: getVerdict(score),
+        offenders,
+        structural_penalties: structuralPenalties,
+        ruleset_version: SCORING_RULESET_VERSION,
+    }
+}
@@ -6,11 +6,13 @@
  * Set secrets: 
  *   supabase secrets set GEMINI_API_KEY=your_key
  *   supabase secrets set OPENAI_API_KEY=your_key
+ * Provider order and models per scan type are configured in providers.ts.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { GoogleGenerativeAI } from 'npm:@google/generative-ai'
-import OpenAI from 'npm:openai'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { applyCalibration, normalizeLabel } from '../_shared/confidenceCalibration.ts'
+import { analyzeWithFailover } from './providers.ts'
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
@@ -31,19 +33,21 @@ ANALYSIS PROTOCOL:
   - Identify visible food components.
   - Estimate portions conservatively using the smallest reasonable serving unless visual cues suggest otherwise.
   - Detect likely hidden carb sources such as breading, glazes, sauces, or starchy vegetables.
-- If the image is not food, set verdict to "unknown" and score to 0.
+- If the image is not food, set isFood to false, verdict to "unknown", score to 0 and foods to [].
 
 2. Macro & Keto Estimation:
 - Estimate macros using typical food values and visible portions.
+- For grocery products, report macros per 100g as on the nutrition panel (convert from per serving if only that is shown).
 - Net Carbs = Total Carbs - Fiber - Erythritol/Stevia/Monk Fruit.
 - For maltitol or xylitol, subtract approximately 40–50% depending on context.
 - Treat all values as estimates, not exact measurements.
 
 3. Keto Score (0–100):
 - 90–100: Excellent keto choice (clean ingredients, very low net carbs).
-- 75–89: Keto-friendly with minor considerations.
-- 50–74: Borderline or dirty keto (fits macros but contains processed fillers or seed oils).
-- 0–49: Not keto-friendly (high carb load or sugar-based ingredients).
+- 80–89: Keto-friendly with minor considerations.
+- 60–79: Borderline or dirty keto (fits macros but contains processed fillers or seed oils).
+- 0–59: Not keto-friendly (high carb load or sugar-based ingredients).
+- Verdict must follow the score: "safe" for 80+, "borderline" for 60–79, "avoid" below 60.
 
 4. Suggestions:
 - Always provide one practical improvement or swap.
@@ -57,6 +61,7 @@ OUTPUT RULES:
 
 JSON STRUCTURE:
 {
+  "isFood": boolean,
   "score": number,
   "verdict": "safe" | "borderline" | "avoid" | "unknown",
   "reasoning": "string",
@@ -79,6 +84,30 @@ JSON STRUCTURE:
 }
 `;
 
+/**
+ * Confidence factors learned from user corrections (see calibrate-confidence).
+ * Calibration is best-effort: without it the model's confidence is used as-is.
+ */
+async function loadCalibration(labels: string[]): Promise<Map<string, number>> {
+    const factors = new Map<string, number>()
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    if (!supabaseUrl || !serviceRoleKey || labels.length === 0) return factors
+
+    try {
+        const { data, error } = await createClient(supabaseUrl, serviceRoleKey)
+            .from('label_calibration')
+            .select('label, factor')
+            .in('label', Array.from(new Set(labels.map(normalizeLabel))))
+
+        if (error) throw error
+        for (const row of data ?? []) factors.set(row.label, row.factor)
+    } catch (error) {
+        console.error('[analyze-food] Calibration lookup failed:', error)
+    }
+    return factors
+}
+
 serve(async (req) => {
     // Handle CORS preflight
     if (req.method === 'OPTIONS') {
@@ -92,67 +121,22 @@ serve(async (req) => {
             throw new Error('Missing image parameter')
         }
 
-        const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-        const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY')
-
-        // Model cascading: Gemini for meals, OpenAI for products (better OCR)
-        const useOpenAI = type === 'product' && OPENAI_API_KEY
-
-        let result
-
-        if (useOpenAI) {
-            // OpenAI for product labels
-            const openai = new OpenAI({ apiKey: OPENAI_API_KEY })
-            const imageUrl = isUrl ? image : `data:image/jpeg;base64,${image}`
-
-            const response = await openai.chat.completions.create({
-                model: 'gpt-4o',
-                messages: [
-                    { role: 'system', content: SYSTEM_PROMPT },
-                    {
-                        role: 'user',
-                        content: [
-                            { type: 'text', text: 'Analyze this product label for keto suitability.' },
-                            { type: 'image_url', image_url: { url: imageUrl } },
-                        ],
-                    },
-                ],
-                temperature: 0.1,
-                response_format: { type: 'json_object' },
-            })
-
-            result = JSON.parse(response.choices[0].message.content || '{}')
-        } else {
-            // Gemini for meals (faster, cheaper)
-            if (!GEMINI_API_KEY) {
-                throw new Error('GEMINI_API_KEY not configured')
-            }
-
-            const genAI = new GoogleGenerativeAI(GEMINI_API_KEY)
-            const model = genAI.getGenerativeModel({
-                model: 'gemini-1.5-flash',
-                generationConfig: { temperature: 0.1 },
-            })
-
-            let inlineData
-            if (isUrl) {
-                const response = await fetch(image)
-                const buffer = await response.arrayBuffer()
-                const base64 = btoa(String.fromCharCode(...new Uint8Array(buffer)))
-                inlineData = { data: base64, mimeType: 'image/jpeg' }
-            } else {
-                inlineData = { data: image, mimeType: 'image/jpeg' }
-            }
+        if (type !== 'meal' && type !== 'product') {
+            throw new Error(`Unsupported scan type: ${type}`)
+        }
 
-            const genResult = await model.generateContent([
-                SYSTEM_PROMPT,
-                { inlineData },
-                'Analyze this meal for keto suitability.',
-            ])
+        const { provider, model, result } = await analyzeWithFailover({
+            image,
+            isUrl,
+            type,
+            systemPrompt: SYSTEM_PROMPT,
+        })
+        console.log(`[analyze-food] ${type} scan analyzed by ${provider}:${model}`)
 
-            const text = genResult.response.text()
-            const jsonMatch = text.match(/\{[\s\S]*\}/)
-            result = jsonMatch ? JSON.parse(jsonMatch[0]) : {}
+        // Rescale confidence by how often users correct each label, before it drives the review prompt
+        if (result.foods?.length > 0) {
+            const factors = await loadCalibration(result.foods.map((f: any) => f.name))
+            result.foods = applyCalibration(result.foods, factors)
         }
 
         // Add plate confidence
@@ -0,0 +1,309 @@
+/**
+ * AI providers for analyze-food
+ * Each backend turns an image into the JSON described by the system prompt.
+ * Scans try the providers configured for their type in order, moving on to
+ * the next when one errors, times out or answers with something unparseable.
+ *
+ * Configure per scan type as comma-separated `provider[:model]` entries:
+ *   supabase secrets set AI_MEAL_PROVIDERS=gemini:gemini-1.5-flash,openai:gpt-4o-mini
+ *   supabase secrets set AI_PRODUCT_PROVIDERS=openai:gpt-4o,gemini
+ * AI_PROVIDER_TIMEOUT_MS bounds each attempt (default 30000).
+ *
+ * The mock provider needs no API key and answers deterministically from the
+ * image, so the whole scan pipeline runs locally:
+ *   AI_MEAL_PROVIDERS=mock AI_PRODUCT_PROVIDERS=mock supabase functions serve analyze-food
+ */
+
+import { GoogleGenerativeAI } from 'npm:@google/generative-ai'
+import OpenAI from 'npm:openai'
+
+export type ScanType = 'meal' | 'product'
+
+export type ProviderName = 'gemini' | 'openai' | 'mock'
+
+export interface AnalysisRequest {
+    image: string // base64 JPEG, or a URL when isUrl
+    isUrl: boolean
+    type: ScanType
+    systemPrompt: string
+}
+
+// Deadline for one attempt; providers abort their request when it passes
+export interface AttemptOptions {
+    signal: AbortSignal
+    timeoutMs: number
+}
+
+export interface AIProvider {
+    name: ProviderName
+    model: string
+    isConfigured(): boolean
+    analyze(request: AnalysisRequest, options: AttemptOptions): Promise<any>
+}
+
+export interface ProviderResult {
+    provider: ProviderName
+    model: string
+    result: any
+}
+
+const DEFAULT_CHAINS: Record<ScanType, string> = {
+    // Gemini is faster and cheaper for plates; GPT-4o reads labels better
+    meal: 'gemini:gemini-1.5-flash,openai:gpt-4o',
+    product: 'openai:gpt-4o,gemini:gemini-1.5-flash',
+}
+
+const CHAIN_ENV: Record<ScanType, string> = {
+    meal: 'AI_MEAL_PROVIDERS',
+    product: 'AI_PRODUCT_PROVIDERS',
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+    gemini: 'gemini-1.5-flash',
+    openai: 'gpt-4o',
+    mock: 'mock-v1',
+}
+
+const DEFAULT_TIMEOUT_MS = 30000
+
+const USER_PROMPTS: Record<ScanType, string> = {
+    meal: 'Analyze this meal for keto suitability.',
+    product: 'Analyze this product label for keto suitability.',
+}
+
+/**
+ * Models wrap their JSON in prose or code fences often enough to strip it
+ */
+function parseJsonObject(text: string): any {
+    const match = text.match(/\{[\s\S]*\}/)
+    if (!match) throw new Error('Response contained no JSON object')
+    return JSON.parse(match[0])
+}
+
+async function toBase64(image: string, isUrl: boolean, signal: AbortSignal): Promise<string> {
+    if (!isUrl) return image
+
+    const response = await fetch(image, { signal })
+    if (!response.ok) throw new Error(`Image download failed: ${response.status}`)
+    const bytes = new Uint8Array(await response.arrayBuffer())
+
+    // Chunked, so large photos don't overflow the argument limit of fromCharCode
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return btoa(binary)
+}
+
+function createGeminiProvider(model: string): AIProvider {
+    const apiKey = Deno.env.get('GEMINI_API_KEY')
+
+    return {
+        name: 'gemini',
+        model,
+        isConfigured: () => Boolean(apiKey),
+        async analyze({ image, isUrl, type, systemPrompt }, { signal, timeoutMs }) {
+            const genAI = new GoogleGenerativeAI(apiKey!)
+            const generativeModel = genAI.getGenerativeModel({
+                model,
+                generationConfig: { temperature: 0.1 },
+            }, { timeout: timeoutMs })
+
+            const genResult = await generativeModel.generateContent([
+                systemPrompt,
+                { inlineData: { data: await toBase64(image, isUrl, signal), mimeType: 'image/jpeg' } },
+                USER_PROMPTS[type],
+            ])
+
+            return parseJsonObject(genResult.response.text())
+        },
+    }
+}
+
+function createOpenAIProvider(model: string): AIProvider {
+    const apiKey = Deno.env.get('OPENAI_API_KEY')
+
+    return {
+        name: 'openai',
+        model,
+        isConfigured: () => Boolean(apiKey),
+        async analyze({ image, isUrl, type, systemPrompt }, { signal }) {
+            const openai = new OpenAI({ apiKey })
+            const imageUrl = isUrl ? image : `data:image/jpeg;base64,${image}`
+
+            const response = await openai.chat.completions.create({
+                model,
+                messages: [
+                    { role: 'system', content: systemPrompt },
+                    {
+                        role: 'user',
+                        content: [
+                            { type: 'text', text: USER_PROMPTS[type] },
+                            { type: 'image_url', image_url: { url: imageUrl } },
+                        ],
+                    },
+                ],
+                temperature: 0.1,
+                response_format: { type: 'json_object' },
+            }, { signal })
+
+            return parseJsonObject(response.choices[0].message.content || '')
+        },
+    }
+}
+
+// Fixed answers for the mock provider, one picked per image (product macros per 100g)
+const MOCK_RESPONSES: Record<ScanType, any[]> = {
+    meal: [
+        {
+            isFood: true,
+            score: 92,
+            verdict: 'safe',
+            reasoning: 'Salmon with buttered broccoli is high in fat and very low in net carbs.',
+            macros: { net_carbs: 6, fat: 32, protein: 34, calories: 460 },
+            swapSuggestion: 'Add a side of avocado for extra healthy fats.',
+            foods: [
+                { name: 'Salmon', confidence: 0.95, estimated_portion: '150g', carb_risk: 'low', is_keto_offender: false },
+                { name: 'Broccoli', confidence: 0.9, estimated_portion: '1 cup', carb_risk: 'low', is_keto_offender: false },
+                { name: 'Butter', confidence: 0.7, estimated_portion: '1 tbsp', carb_risk: 'low', is_keto_offender: false },
+            ],
+        },
+        {
+            isFood: true,
+            score: 38,
+            verdict: 'avoid',
+            reasoning: 'The bun and fries push this meal far past a keto carb budget.',
+            macros: { net_carbs: 68, fat: 41, protein: 31, calories: 780 },
+            swapSuggestion: 'Order the burger lettuce-wrapped with a side salad instead of fries.',
+            foods: [
+                { name: 'Beef Patty', confidence: 0.92, estimated_portion: '120g', carb_risk: 'low', is_keto_offender: false },
+                { name: 'Hamburger Bun', confidence: 0.88, estimated_portion: '1 bun', carb_risk: 'high', is_keto_offender: true },
+                { name: 'French Fries', confidence: 0.6, estimated_portion: '1 cup', carb_risk: 'high', is_keto_offender: true },
+                { name: 'Cheddar Cheese', confidence: 0.75, estimated_portion: '1 slice', carb_risk: 'low', is_keto_offender: false },
+            ],
+        },
+    ],
+    product: [
+        {
+            isFood: true,
+            score: 85,
+            verdict: 'safe',
+            reasoning: 'Nuts and seeds with no added sugar keep net carbs low.',
+            macros: { net_carbs: 9, fat: 56, protein: 21, calories: 620 },
+            swapSuggestion: 'Stick to one serving; nut mixes are easy to overeat.',
+            foods: [
+                { name: 'almonds', confidence: 0.95, carb_risk: 'low', is_keto_offender: false },
+                { name: 'pecans', confidence: 0.9, carb_risk: 'low', is_keto_offender: false },
+                { name: 'pumpkin seeds', confidence: 0.9, carb_risk: 'low', is_keto_offender: false },
+                { name: 'sea salt', confidence: 0.95, carb_risk: 'low', is_keto_offender: false },
+            ],
+        },
+        {
+            isFood: true,
+            score: 30,
+            verdict: 'avoid',
+            reasoning: 'Maltitol and wheat flour make this "low sugar" bar a poor keto choice.',
+            macros: { net_carbs: 42, fat: 20, protein: 9, calories: 440 },
+            swapSuggestion: 'Choose a bar sweetened with erythritol or stevia.',
+            foods: [
+                { name: 'wheat flour', confidence: 0.9, carb_risk: 'high', is_keto_offender: true },
+                { name: 'maltitol', confidence: 0.85, carb_risk: 'high', is_keto_offender: true },
+                { name: 'palm oil', confidence: 0.8, carb_risk: 'low', is_keto_offender: false },
+                { name: 'cocoa powder', confidence: 0.85, carb_risk: 'low', is_keto_offender: false },
+            ],
+        },
+    ],
+}
+
+function hashString(value: string): number {
+    let hash = 0
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0
+    }
+    return Math.abs(hash)
+}
+
+function createMockProvider(model: string): AIProvider {
+    return {
+        name: 'mock',
+        model,
+        isConfigured: () => true,
+        async analyze({ image, type }) {
+            // Same image, same answer, so local runs and replays are reproducible
+            const responses = MOCK_RESPONSES[type]
+            return structuredClone(responses[hashString(image) % responses.length])
+        },
+    }
+}
+
+const PROVIDER_FACTORIES: Record<ProviderName, (model: string) => AIProvider> = {
+    gemini: createGeminiProvider,
+    openai: createOpenAIProvider,
+    mock: createMockProvider,
+}
+
+/**
+ * Providers to try for a scan type, in order. Unknown names are skipped
+ * with a warning rather than failing every scan on a typo.
+ */
+export function getProviderChain(type: ScanType): AIProvider[] {
+    const spec = Deno.env.get(CHAIN_ENV[type]) || DEFAULT_CHAINS[type]
+
+    return spec.split(',').flatMap(entry => {
+        const [name, model] = entry.trim().split(':').map(part => part.trim())
+        if (!name) return []
+
+        const factory = PROVIDER_FACTORIES[name as ProviderName]
+        if (!factory) {
+            console.warn(`[analyze-food] Unknown AI provider "${name}" in ${CHAIN_ENV[type]}`)
+            return []
+        }
+        return [factory(model || DEFAULT_MODELS[name as ProviderName])]
+    })
+}
+
+/**
+ * Give up on an attempt after `ms`, aborting the provider's request rather
+ * than leaving it running behind the next provider
+ */
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number, label: string): Promise<T> {
+    const controller = new AbortController()
+    let timer: number | undefined
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort()
+            reject(new Error(`${label} timed out after ${ms}ms`))
+        }, ms)
+    })
+    return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Run the request through the configured chain, failing over on errors and
+ * timeouts. Throws with every provider's failure when none succeeds.
+ */
+export async function analyzeWithFailover(request: AnalysisRequest): Promise<ProviderResult> {
+    const timeoutMs = Number(Deno.env.get('AI_PROVIDER_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS
+    const providers = getProviderChain(request.type).filter(p => p.isConfigured())
+
+    if (providers.length === 0) {
+        throw new Error(`No AI provider configured for ${request.type} scans`)
+    }
+
+    const failures: string[] = []
+    for (const provider of providers) {
+        const label = `${provider.name}:${provider.model}`
+        try {
+            const result = await withTimeout(signal => provider.analyze(request, { signal, timeoutMs }), timeoutMs, label)
+            if (failures.length > 0) {
+                console.warn(`[analyze-food] Failed over to ${label} after: ${failures.join('; ')}`)
+            }
+            return { provider: provider.name, model: provider.model, result }
+        } catch (error) {
+            console.error(`[analyze-food] Provider ${label} failed:`, error)
+            failures.push(`${label}: ${error.message || error}`)
+        }
+    }
+
+    throw new Error(`All AI providers failed (${failures.join('; ')})`)
+}
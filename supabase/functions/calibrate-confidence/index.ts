@@ -0,0 +1,98 @@
+/**
+ * calibrate-confidence Edge Function
+ * Recomputes per-label confidence factors from recent user corrections and
+ * stores them in label_calibration, where analyze-food picks them up.
+ *
+ * Deploy: supabase functions deploy calibrate-confidence
+ * Run on a schedule (e.g. nightly) with the service role key:
+ *   curl -X POST <project-url>/functions/v1/calibrate-confidence \
+ *     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" -d '{"lookbackDays": 90}'
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { calibrateLabels, MIN_REVIEWS, REVIEW_ACTIONS, ReviewRow } from '../_shared/confidenceCalibration.ts'
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', SERVICE_ROLE_KEY)
+
+const DEFAULT_LOOKBACK_DAYS = 90
+const MAX_LOOKBACK_DAYS = 365
+const PAGE_SIZE = 1000
+
+const jsonHeaders = { 'Content-Type': 'application/json' }
+
+serve(async (req) => {
+    // Only the scheduler (or an operator) holding the service role key may run this
+    // (refuse everything when the key isn't set, or "Bearer " alone would pass)
+    if (!SERVICE_ROLE_KEY || req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: jsonHeaders })
+    }
+
+    try {
+        const body = await req.json().catch(() => ({}))
+        const lookbackDays = Math.min(MAX_LOOKBACK_DAYS, Math.max(1, Number(body.lookbackDays) || DEFAULT_LOOKBACK_DAYS))
+        const dryRun = body.dryRun === true
+        const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString()
+
+        // Page through the window; corrections grow with every review
+        const rows: ReviewRow[] = []
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await supabaseAdmin
+                .from('corrections')
+                .select('original_label, action, model_confidence')
+                .in('action', REVIEW_ACTIONS)
+                .not('model_confidence', 'is', null)
+                .gte('created_at', since)
+                .order('created_at')
+                .range(from, from + PAGE_SIZE - 1)
+
+            if (error) throw error
+            rows.push(...(data ?? []))
+            if (!data || data.length < PAGE_SIZE) break
+        }
+
+        const calibrations = calibrateLabels(rows)
+        const calibrated = calibrations.filter(c => c.reviews >= MIN_REVIEWS)
+
+        let removed = 0
+        if (!dryRun) {
+            const updatedAt = new Date().toISOString()
+            if (calibrations.length > 0) {
+                const { error } = await supabaseAdmin
+                    .from('label_calibration')
+                    .upsert(calibrations.map(c => ({ ...c, updated_at: updatedAt })), { onConflict: 'label' })
+
+                if (error) throw error
+            }
+
+            // Labels with no reviews left in the window go back to the model's own confidence
+            const { count, error } = await supabaseAdmin
+                .from('label_calibration')
+                .delete({ count: 'exact' })
+                .lt('updated_at', updatedAt)
+
+            if (error) throw error
+            removed = count ?? 0
+        }
+
+        console.log(`[calibrate-confidence] ${rows.length} reviews, ${calibrations.length} labels, ${calibrated.length} calibrated, ${removed} removed`)
+
+        return new Response(JSON.stringify({
+            reviews: rows.length,
+            labels: calibrations.length,
+            calibrated: calibrated.length,
+            removed,
+            // Labels the model is most overconfident about, for a quick look
+            leastReliable: [...calibrated].sort((a, b) => a.factor - b.factor).slice(0, 10),
+            dryRun,
+        }), { headers: jsonHeaders })
+    } catch (error) {
+        console.error('[calibrate-confidence] Error:', error)
+        return new Response(
+            JSON.stringify({ error: error.message || 'Calibration failed' }),
+            { status: 500, headers: jsonHeaders }
+        )
+    }
+})
@@ -0,0 +1,121 @@
+/**
+ * rescore-products Edge Function
+ * Re-scores keto_analysis rows computed under an older ruleset, in batches,
+ * from each product's ingredients_normalized and nutrition facts, using the
+ * live ingredient_dictionary (the bundled list if the table is empty).
+ *
+ * Deploy: supabase functions deploy rescore-products
+ * Run on a schedule (or after bumping SCORING_RULESET_VERSION or editing the
+ * ingredient dictionary) with the service role key:
+ *   curl -X POST <project-url>/functions/v1/rescore-products \
+ *     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" -d '{"batchSize": 200}'
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+    calculateProductScore,
+    getProductRulesetVersion,
+    toDictionary,
+    BUNDLED_DICTIONARY,
+    SCORE_THRESHOLDS,
+} from '../_shared/ketoRules.ts'
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', SERVICE_ROLE_KEY)
+
+const DEFAULT_BATCH_SIZE = 200
+const MAX_BATCH_SIZE = 1000
+
+const jsonHeaders = { 'Content-Type': 'application/json' }
+
+serve(async (req) => {
+    // Only the scheduler (or an operator) holding the service role key may run this
+    // (refuse everything when the key isn't set, or "Bearer " alone would pass)
+    if (!SERVICE_ROLE_KEY || req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401, headers: jsonHeaders })
+    }
+
+    try {
+        const body = await req.json().catch(() => ({}))
+        const batchSize = Math.min(MAX_BATCH_SIZE, Math.max(1, Number(body.batchSize) || DEFAULT_BATCH_SIZE))
+        const dryRun = body.dryRun === true
+
+        const { data: dictionaryRows, error: dictionaryError } = await supabaseAdmin
+            .from('ingredient_dictionary')
+            .select('*')
+            .order('id')
+
+        if (dictionaryError) throw dictionaryError
+
+        const serverDictionary = toDictionary(dictionaryRows ?? [])
+        const dictionary = serverDictionary.length > 0 ? serverDictionary : BUNDLED_DICTIONARY
+        // Dictionary updates outdate scores just like ruleset bumps
+        const rulesetVersion = getProductRulesetVersion(dictionaryRows ?? [])
+
+        const { data: rows, error } = await supabaseAdmin
+            .from('keto_analysis')
+            .select('id, product_id, keto_score, verdict, ruleset_version, products_shadow(ingredients_normalized, product_nutrition(per_100g))')
+            // Legacy rows without a version need rescoring most; the version is quoted as it holds ':' and '.'
+            .or(`ruleset_version.is.null,ruleset_version.neq."${rulesetVersion}"`)
+            .limit(batchSize)
+
+        if (error) throw error
+
+        let changed = 0
+        const changes: { product_id: string, from: string, to: string }[] = []
+
+        for (const row of rows ?? []) {
+            const product = Array.isArray(row.products_shadow) ? row.products_shadow[0] : row.products_shadow
+            const nutrition = Array.isArray(product?.product_nutrition) ? product.product_nutrition[0] : product?.product_nutrition
+            const ingredients: string[] = product?.ingredients_normalized ?? []
+
+            // Nothing to score from: keep a neutral placeholder on the current scale
+            const next = ingredients.length > 0 || nutrition
+                ? { ...calculateProductScore(ingredients, nutrition?.per_100g?.net_carbs, dictionary), ruleset_version: rulesetVersion }
+                : {
+                    keto_score: SCORE_THRESHOLDS.BORDERLINE,
+                    verdict: 'borderline' as const,
+                    offenders: [],
+                    structural_penalties: [],
+                    ruleset_version: rulesetVersion,
+                }
+
+            if (next.verdict !== row.verdict) {
+                changed++
+                changes.push({ product_id: row.product_id, from: row.verdict, to: next.verdict })
+            }
+
+            if (dryRun) continue
+
+            const { error: updateError } = await supabaseAdmin
+                .from('keto_analysis')
+                .update(next)
+                .eq('id', row.id)
+
+            if (updateError) {
+                console.error('[rescore-products] Update failed for', row.id, updateError.message)
+            }
+        }
+
+        const processed = rows?.length ?? 0
+        console.log(`[rescore-products] ${dryRun ? 'Checked' : 'Re-scored'} ${processed} analyses, ${changed} verdicts changed`)
+
+        return new Response(JSON.stringify({
+            ruleset_version: rulesetVersion,
+            processed,
+            changed,
+            changes,
+            // A full batch means there may be more rows left for the next run
+            hasMore: processed === batchSize,
+            dryRun,
+        }), { headers: jsonHeaders })
+    } catch (error) {
+        console.error('[rescore-products] Error:', error)
+        return new Response(
+            JSON.stringify({ error: error.message || 'Re-scoring failed' }),
+            { status: 500, headers: jsonHeaders }
+        )
+    }
+})